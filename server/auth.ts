@@ -0,0 +1,52 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+// Проверка Telegram initData (https://core.telegram.org/bots/webapps#validating-data-received-via-the-mini-app):
+// secret = HMAC_SHA256(key = "WebAppData", bot_token), hash = HMAC_SHA256(key = secret, data_check_string).
+
+export interface TelegramAuth {
+  userId: string;
+  username?: string;
+  startParam?: string;
+  /** auth_date, секунды */
+  authDate: number;
+}
+
+export type InitDataError = 'missing' | 'bad_signature' | 'expired' | 'no_user';
+
+export function verifyInitData(
+  initData: string,
+  botToken: string,
+  nowMs: number,
+  maxAgeSec: number
+): TelegramAuth | InitDataError {
+  if (!initData || !botToken) return 'missing';
+  const params = new URLSearchParams(initData);
+  const hash = params.get('hash');
+  if (!hash) return 'bad_signature';
+  params.delete('hash');
+
+  const dataCheckString = [...params.entries()]
+    .map(([key, value]) => `${key}=${value}`)
+    .sort()
+    .join('\n');
+  const secret = createHmac('sha256', 'WebAppData').update(botToken).digest();
+  const expected = createHmac('sha256', secret).update(dataCheckString).digest();
+  const actual = Buffer.from(hash, 'hex');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return 'bad_signature';
+
+  const authDate = Number(params.get('auth_date'));
+  if (!Number.isFinite(authDate) || nowMs / 1000 - authDate > maxAgeSec) return 'expired';
+
+  try {
+    const user = JSON.parse(params.get('user') ?? 'null') as { id?: number; username?: string } | null;
+    if (!user?.id) return 'no_user';
+    return {
+      userId: String(user.id),
+      username: user.username,
+      startParam: params.get('start_param') ?? undefined,
+      authDate
+    };
+  } catch {
+    return 'no_user';
+  }
+}
@@ -0,0 +1,18 @@
+// Вызовы Telegram Bot API. Базовый URL можно подменить (BOT_API_URL) — например, на локальный сервер Bot API.
+
+export interface BotApiConfig {
+  token: string;
+  baseUrl: string;
+}
+
+export async function callBotApi<T>(config: BotApiConfig, method: string, params: Record<string, unknown>): Promise<T> {
+  if (!config.token) throw new Error('BOT_TOKEN не задан');
+  const res = await fetch(`${config.baseUrl}/bot${config.token}/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params)
+  });
+  const data = (await res.json().catch(() => null)) as { ok?: boolean; result?: T; description?: string } | null;
+  if (!data?.ok) throw new Error(data?.description || `Bot API ${method}: HTTP ${res.status}`);
+  return data.result as T;
+}
@@ -0,0 +1,48 @@
+import { readFileSync } from 'node:fs';
+import type { EconomyOverride } from '../src/economy';
+import type { BotApiConfig } from './botApi';
+
+// Настройки backend из переменных окружения. Без BOT_TOKEN всё, кроме платежей, работает офлайн.
+
+function readEconomyOverride(file: string): EconomyOverride {
+  if (!file) return {};
+  return JSON.parse(readFileSync(file, 'utf8')) as EconomyOverride;
+}
+
+export const config = {
+  port: Number(process.env.PORT) || 4000,
+  dataFile: process.env.DATA_FILE || 'server/data/farm.json',
+  bot: {
+    token: process.env.BOT_TOKEN ?? '',
+    baseUrl: process.env.BOT_API_URL || 'https://api.telegram.org'
+  } satisfies BotApiConfig,
+  /** Сколько секунд действителен initData после auth_date */
+  initDataMaxAgeSec: Number(process.env.INIT_DATA_MAX_AGE_SEC) || 24 * 60 * 60,
+  /**
+   * Dev-режим авторизации: без initData игрок берётся из userId запроса (как ?uid= в клиенте).
+   * Только для локальной разработки — так кто угодно может действовать от имени любого игрока.
+   */
+  devAuth: process.env.DEV_AUTH === '1',
+  /** secret_token из setWebhook: Telegram присылает его в заголовке X-Telegram-Bot-Api-Secret-Token */
+  webhookSecret: process.env.WEBHOOK_SECRET ?? '',
+  /**
+   * Ключ подписи кодов экспорта фермы (POST /api/farm/export и /import). По умолчанию — токен бота;
+   * без обоих экспорт и импорт на сервере выключены.
+   */
+  exportSecret: process.env.EXPORT_SECRET || process.env.BOT_TOKEN || '',
+  /**
+   * Origin мини-аппа через запятую (APP_ORIGIN, например https://farm.example.com): только им CORS разрешает
+   * запросы к API из браузера. По умолчанию — дев-сервер Vite.
+   */
+  allowedOrigins: (process.env.APP_ORIGIN || 'http://localhost:5173')
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+  /** userId админов через запятую — им доступны POST /api/admin/reward и импорт чужой фермы */
+  adminIds: (process.env.ADMIN_IDS ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean),
+  /** Override каталога экономики: отдаётся клиенту в GET /api/economy и применяется к серверным редьюсерам */
+  economy: readEconomyOverride(process.env.ECONOMY_FILE ?? '')
+};
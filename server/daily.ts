@@ -0,0 +1,63 @@
+import { raiseStat } from '../src/stats';
+import type { StoredPlayer } from './store';
+
+// Ежедневная награда с марафоном на 5 дней: раз в календарный день (UTC),
+// пропуск дня сбрасывает марафон, после пятого дня он начинается заново.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface DailyReward {
+  coins: number;
+  gems: number;
+  feed: number;
+}
+
+// Совпадает с подсказкой на вкладке «Рынок»: день 1: 20🪙+5🥣, 2: 30+5, 3: 40+5, 4: 50+5, 5: 100💎+20🥣
+export const DAILY_REWARDS: DailyReward[] = [
+  { coins: 20, gems: 0, feed: 5 },
+  { coins: 30, gems: 0, feed: 5 },
+  { coins: 40, gems: 0, feed: 5 },
+  { coins: 50, gems: 0, feed: 5 },
+  { coins: 0, gems: 100, feed: 20 }
+];
+
+function getDayIndex(at: number): number {
+  return Math.floor(at / DAY);
+}
+
+export type DailyClaim =
+  | { claimed: true; player: StoredPlayer; reward: DailyReward; streak: number }
+  | { claimed: false; nextAt: number; streak: number };
+
+export function claimDaily(player: StoredPlayer, now: number): DailyClaim {
+  const today = getDayIndex(now);
+  const last = player.daily ? getDayIndex(player.daily.lastClaimAt) : null;
+  if (last === today) {
+    return { claimed: false, nextAt: (today + 1) * DAY, streak: player.daily?.streak ?? 1 };
+  }
+
+  const continues = last === today - 1 && (player.daily?.streak ?? 0) < DAILY_REWARDS.length;
+  const streak = continues ? (player.daily?.streak ?? 0) + 1 : 1;
+  const reward = DAILY_REWARDS[streak - 1];
+  const { resources } = player.state;
+
+  return {
+    claimed: true,
+    reward,
+    streak,
+    player: {
+      ...player,
+      daily: { lastClaimAt: now, streak },
+      state: {
+        ...raiseStat(player.state, 'dailyStreak', streak),
+        resources: {
+          ...resources,
+          coins: resources.coins + reward.coins,
+          gems: resources.gems + reward.gems,
+          feed: resources.feed + reward.feed
+        },
+        revision: (player.state.revision ?? 0) + 1
+      }
+    }
+  };
+}
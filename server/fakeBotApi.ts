@@ -0,0 +1,55 @@
+import { createServer } from 'node:http';
+import { asFields, readJson, sendJson } from './http';
+
+// Локальная подмена Telegram Bot API для разработки: принимает вызовы /bot<token>/<method>,
+// печатает их и запоминает отправленные сообщения. Запуск: npm run fake-bot, затем backend с
+// BOT_TOKEN=test BOT_API_URL=http://localhost:4100. Отправленное — GET /messages, очистить — DELETE /messages.
+
+const port = Number(process.env.FAKE_BOT_PORT) || 4100;
+
+interface SentMessage {
+  chatId: unknown;
+  text: unknown;
+  at: string;
+}
+
+const messages: SentMessage[] = [];
+let nextMessageId = 1;
+
+// Ответы на методы, которые зовёт backend; остальные просто подтверждаются
+const handlers: Record<string, (params: Record<string, unknown>) => unknown> = {
+  sendMessage(params) {
+    const message = { chatId: params.chat_id, text: params.text, at: new Date().toISOString() };
+    messages.push(message);
+    console.log(`→ ${message.chatId}:\n${message.text}\n`);
+    return { message_id: nextMessageId++, chat: { id: params.chat_id }, text: params.text };
+  },
+  createInvoiceLink(params) {
+    return `https://t.me/$fake_invoice_${encodeURIComponent(String(params.payload))}`;
+  },
+  getStarTransactions() {
+    return { transactions: [] };
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  if (url.pathname === '/messages') {
+    if (req.method === 'DELETE') messages.length = 0;
+    sendJson(res, 200, { messages });
+    return;
+  }
+
+  const match = /^\/bot[^/]+\/(\w+)$/.exec(url.pathname);
+  if (!match) {
+    sendJson(res, 404, { ok: false, description: 'Not Found' });
+    return;
+  }
+  const params = req.method === 'POST' ? asFields(await readJson(req).catch(() => null)) : {};
+  const handler = handlers[match[1]];
+  sendJson(res, 200, { ok: true, result: handler ? handler(params) : true });
+});
+
+server.listen(port, () => {
+  console.log(`Fake Bot API: http://localhost:${port} (сообщения: GET /messages)`);
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { applyActionBatch, consumeExportNonce, createPlayerRecord, issueExportNonce } from './farm';
+
+// Одноразовые копии фермы: nonce гасится при восстановлении и отзывается действиями с гемами
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+function richRecord() {
+  const record = createPlayerRecord();
+  return { ...record, state: { ...record.state, resources: { ...record.state.resources, coins: 200_000, gems: 10 } } };
+}
+
+describe('nonce копий фермы', () => {
+  it('копия восстанавливается только один раз', () => {
+    const record = issueExportNonce(richRecord(), 'n1');
+    const consumed = consumeExportNonce(record, 'n1');
+    expect(consumed?.exportNonces).toEqual([]);
+    expect(consumeExportNonce(consumed!, 'n1')).toBeNull();
+    expect(consumeExportNonce(record, 'чужой')).toBeNull();
+  });
+
+  it('действуют только последние копии', () => {
+    let record = richRecord();
+    for (let i = 1; i <= 6; i += 1) record = issueExportNonce(record, `n${i}`);
+    expect(consumeExportNonce(record, 'n1')).toBeNull();
+    expect(consumeExportNonce(record, 'n6')).not.toBeNull();
+  });
+
+  it('обмен монет на гемы отзывает все копии', () => {
+    const record = issueExportNonce(richRecord(), 'n1');
+    const { record: next } = applyActionBatch(record, [{ id: 'a1', action: { type: 'exchangeCoinsToGems' } }], NOW);
+    expect(next.state.resources.gems).toBeGreaterThan(10);
+    expect(consumeExportNonce(next, 'n1')).toBeNull();
+  });
+
+  it('трата гемов в середине пачки тоже отзывает копии', () => {
+    const record = issueExportNonce(richRecord(), 'n1');
+    const { record: next } = applyActionBatch(
+      record,
+      [
+        { id: 'a1', action: { type: 'plantCrop', slotId: 'c1' } },
+        { id: 'a2', action: { type: 'exchangeGemsToCoins' } },
+        { id: 'a3', action: { type: 'plantCrop', slotId: 'c2' } }
+      ],
+      NOW
+    );
+    expect(next.state.resources.gems).toBe(0);
+    expect(next.exportNonces).toEqual([]);
+  });
+
+  it('действия без гемов копии не трогают', () => {
+    const record = issueExportNonce(richRecord(), 'n1');
+    const { record: next } = applyActionBatch(record, [{ id: 'a1', action: { type: 'plantCrop', slotId: 'c1' } }], NOW);
+    expect(next.state.crops[0].timer).not.toBeNull();
+    expect(consumeExportNonce(next, 'n1')).not.toBeNull();
+  });
+});
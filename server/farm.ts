@@ -0,0 +1,91 @@
+import type { GameState } from '../src/gameTypes';
+import { createInitialState } from '../src/initialState';
+import { ensureExtendedState } from '../src/gameLogic';
+import { applyFarmActions, parseFarmAction, type FarmActionEnvelope, type FarmActionResult } from '../src/actions';
+
+// Серверная часть протокола действий: состояние игрока меняется только через applyFarmActions.
+
+/** Сколько последних id действий помним для отбрасывания повторов. */
+const RECENT_ACTION_IDS = 500;
+
+/** Сколько последних выданных копий фермы остаются действительными. */
+const MAX_EXPORT_NONCES = 5;
+
+export interface PlayerRecord {
+  state: GameState;
+  username?: string | null;
+  recentActionIds: string[];
+  /**
+   * Nonce выданных и ещё не восстановленных копий фермы (POST /api/farm/export). Копия восстанавливается один раз,
+   * а любое действие, изменившее гемы, отзывает все копии: иначе обмен монет на гемы можно было бы повторять,
+   * восстанавливая старые монеты при текущих гемах.
+   */
+  exportNonces?: string[];
+}
+
+export function createPlayerRecord(): PlayerRecord {
+  return { state: createInitialState(), recentActionIds: [] };
+}
+
+/** Разобрать тело запроса: некорректные действия попадают в результаты как invalid, а не роняют всю пачку. */
+export function parseActionBatch(value: unknown): { envelopes: FarmActionEnvelope[]; invalid: FarmActionResult[] } | null {
+  if (!Array.isArray(value)) return null;
+  const envelopes: FarmActionEnvelope[] = [];
+  const invalid: FarmActionResult[] = [];
+  for (const item of value) {
+    const id = typeof item?.id === 'string' ? item.id : '';
+    const action = parseFarmAction(item?.action);
+    if (!id || !action) {
+      invalid.push({ id, ok: false, error: 'invalid' });
+      continue;
+    }
+    envelopes.push({ id, action });
+  }
+  return { envelopes, invalid };
+}
+
+/** Применить пачку к записи игрока. Уже применённые id не повторяются и считаются успешными. */
+export function applyActionBatch<T extends PlayerRecord>(
+  record: T,
+  envelopes: FarmActionEnvelope[],
+  now: number = Date.now()
+): { record: T; results: FarmActionResult[] } {
+  const seen = new Set(record.recentActionIds);
+  const fresh = envelopes.filter((e) => !seen.has(e.id));
+  // По одному действию: гемы, полученные и потраченные в одной пачке, не меняют итог, но копии всё равно отзывают
+  let state = ensureExtendedState(record.state);
+  let gemsChanged = false;
+  const results: FarmActionResult[] = [];
+  for (const envelope of fresh) {
+    const step = applyFarmActions(state, [envelope], now);
+    if (step.state.resources.gems !== state.resources.gems) gemsChanged = true;
+    state = step.state;
+    results.push(...step.results);
+  }
+  const applied = results.filter((r) => r.ok).length;
+
+  const duplicates: FarmActionResult[] = envelopes.filter((e) => seen.has(e.id)).map((e) => ({ id: e.id, ok: true }));
+  const recentActionIds = [...record.recentActionIds, ...fresh.map((e) => e.id)].slice(-RECENT_ACTION_IDS);
+
+  return {
+    record: {
+      ...record,
+      state: { ...state, revision: (state.revision ?? 0) + applied },
+      recentActionIds,
+      exportNonces: gemsChanged ? [] : record.exportNonces
+    },
+    results: [...duplicates, ...results]
+  };
+}
+
+/** Запомнить nonce новой копии фермы; самые старые копии сверх лимита перестают приниматься. */
+export function issueExportNonce<T extends PlayerRecord>(record: T, nonce: string): T {
+  return { ...record, exportNonces: [...(record.exportNonces ?? []), nonce].slice(-MAX_EXPORT_NONCES) };
+}
+
+/** Погасить nonce копии при восстановлении. null — копия уже восстановлена, вытеснена или отозвана. */
+export function consumeExportNonce<T extends PlayerRecord>(record: T, nonce: string): T | null {
+  const exportNonces = record.exportNonces ?? [];
+  if (!exportNonces.includes(nonce)) return null;
+  return { ...record, exportNonces: exportNonces.filter((n) => n !== nonce) };
+}
@@ -0,0 +1,30 @@
+import type { IncomingMessage } from 'node:http';
+import { describe, expect, it } from 'vitest';
+import { asFields, corsHeaders } from './http';
+
+// CORS только для origin мини-аппа и разбор тела запроса без any
+
+const request = (origin?: string) => ({ headers: origin ? { origin } : {} }) as IncomingMessage;
+
+describe('corsHeaders', () => {
+  const allowed = ['https://farm.example.com'];
+
+  it('разрешает origin мини-аппа вместе с credentials', () => {
+    expect(corsHeaders(request('https://farm.example.com'), allowed)).toMatchObject({
+      'Access-Control-Allow-Origin': 'https://farm.example.com',
+      'Access-Control-Allow-Credentials': 'true'
+    });
+  });
+
+  it('чужому origin и запросу без origin заголовков не даёт', () => {
+    expect(corsHeaders(request('https://evil.example'), allowed)).not.toHaveProperty('Access-Control-Allow-Origin');
+    expect(corsHeaders(request(), allowed)).not.toHaveProperty('Access-Control-Allow-Origin');
+  });
+});
+
+describe('asFields', () => {
+  it('объект отдаёт как есть, остальное — пустым набором', () => {
+    expect(asFields({ code: 'FARM1' })).toEqual({ code: 'FARM1' });
+    expect([undefined, null, 'text', 42, ['a']].map(asFields)).toEqual([{}, {}, {}, {}, {}]);
+  });
+});
@@ -0,0 +1,71 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+const MAX_BODY_BYTES = 256 * 1024;
+
+/** Ошибка запроса с HTTP-статусом: бросается из обработчиков, ответ формирует роутер. */
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    /** Дополнительные поля ответа (например, текущее состояние при конфликте ревизий) */
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * CORS только для origin мини-аппа из настроек: чужая страница не получит ответов API от имени игрока.
+ * Для прочих origin заголовков нет — браузер сам заблокирует ответ.
+ */
+export function corsHeaders(req: IncomingMessage, allowedOrigins: readonly string[]): Record<string, string> {
+  const origin = req.headers.origin;
+  if (!origin || !allowedOrigins.includes(origin)) return { Vary: 'Origin' };
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Credentials': 'true',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, X-Telegram-Init-Data',
+    Vary: 'Origin'
+  };
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/** Тело запроса как есть: форму проверяет каждый маршрут сам (asFields, requireString, parse*). */
+export function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new HttpError(400, 'invalid json'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+export function requireString(value: unknown, name: string): string {
+  if (typeof value !== 'string' || value.length === 0) throw new HttpError(400, `${name} required`);
+  return value;
+}
+
+/** Поля JSON-объекта; не объект (GET без тела, массив, строка) — пустой набор. Значения проверяет вызывающий. */
+export function asFields(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
@@ -0,0 +1,401 @@
+import { randomUUID } from 'node:crypto';
+import { createServer, type IncomingMessage } from 'node:http';
+import { applyEconomyOverride } from '../src/economy';
+import { applyActionBatch, consumeExportNonce, issueExportNonce, parseActionBatch } from './farm';
+import { config } from './config';
+import { openFileStore, type StoredPlayer } from './store';
+import { claimDaily } from './daily';
+import { raiseStat } from '../src/stats';
+import { applyLegacyAchievements, parseLegacyAchievements } from '../src/legacyAchievements';
+import { getReminders, parseReminderItems, parseReminderSettings, startReminderScheduler } from './reminders';
+import { verifyInitData, type TelegramAuth } from './auth';
+import { createFarmExportPayload, decodeFarmExport, encodeFarmExport, FarmExportError, restoreFarmState } from '../src/farmExport';
+import { HttpError, asFields, corsHeaders, readJson, requireString, sendJson } from './http';
+import {
+  GEM_PACKAGES,
+  MAX_CUSTOM_GEMS,
+  confirmPendingPayments,
+  createGemInvoice,
+  findPackage,
+  getCustomStars,
+  handleBotUpdate
+} from './payments';
+
+// Эталонный backend фермы: реализует контракт src/api.ts и применяет действия игрока теми же редьюсерами, что и клиент.
+// Запуск: npm run server (порт из PORT, по умолчанию 4000). База — JSON-файл DATA_FILE.
+
+/** Гемы пригласившему за каждого нового игрока по его ссылке */
+const REFERRAL_REWARD_GEMS = 10;
+
+// Лимиты key-value хранилища клиента (POST /api/storage) на игрока
+const STORAGE_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const STORAGE_MAX_KEYS = 16;
+const STORAGE_MAX_VALUE = 64 * 1024;
+
+applyEconomyOverride(config.economy);
+const store = openFileStore(config.dataFile);
+
+interface RouteContext {
+  req: IncomingMessage;
+  url: URL;
+  /** Разобранный JSON как есть: маршрут сам проверяет нужные поля (asFields, requireString, parse*) */
+  body: unknown;
+}
+
+type Route = (ctx: RouteContext) => unknown | Promise<unknown>;
+
+// Каждый запрос игрока обновляет «последний визит» — по нему считается activeToday
+function loadPlayer(userId: string): StoredPlayer {
+  return { ...store.ensurePlayer(userId), lastSeenAt: Date.now() };
+}
+
+// Игрок запроса — из подписанного initData: заголовок X-Telegram-Init-Data или поле initData в теле (sendBeacon).
+// userId (и ник) из query/тела принимается только в dev-режиме (DEV_AUTH=1).
+function requireAuth({ req, url, body }: RouteContext): Pick<TelegramAuth, 'userId' | 'username'> {
+  const fields = asFields(body);
+  const header = req.headers['x-telegram-init-data'];
+  const initData = typeof header === 'string' && header ? header : typeof fields.initData === 'string' ? fields.initData : '';
+  if (initData) {
+    const auth = verifyInitData(initData, config.bot.token, Date.now(), config.initDataMaxAgeSec);
+    if (typeof auth === 'string') throw new HttpError(401, `initData: ${auth}`);
+    return auth;
+  }
+  if (config.devAuth) {
+    const userId = requireString(fields.userId ?? url.searchParams.get('userId'), 'userId');
+    return { userId, username: typeof fields.username === 'string' ? fields.username : undefined };
+  }
+  throw new HttpError(401, 'initData required');
+}
+
+function requireUser(ctx: RouteContext): string {
+  return requireAuth(ctx).userId;
+}
+
+function requireExportSecret(): string {
+  if (!config.exportSecret) throw new HttpError(503, 'export disabled: set EXPORT_SECRET or BOT_TOKEN');
+  return config.exportSecret;
+}
+
+function toMeResponse(player: StoredPlayer) {
+  const { state } = player;
+  const referrer = player.referrerId ? store.getPlayer(player.referrerId) : null;
+  return {
+    id: player.id,
+    level: state.level,
+    xp: state.xp,
+    resources: state.resources,
+    crops: state.crops,
+    seeds: state.seeds,
+    unlockedCrops: state.unlockedCrops,
+    animals: state.animals,
+    buildings: state.buildings,
+    revision: state.revision,
+    sellReserve: state.sellReserve,
+    marketPressure: state.marketPressure,
+    perks: state.perks,
+    utcOffsetMinutes: state.utcOffsetMinutes,
+    utcOffsetChangedAt: state.utcOffsetChangedAt,
+    weeklyGoals: state.weeklyGoals,
+    dailyQuests: state.dailyQuests,
+    stats: state.stats,
+    achievements: state.achievements,
+    referrerId: player.referrerId,
+    referrerUsername: referrer?.username ?? null,
+    username: player.username ?? null
+  };
+}
+
+function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+const routes: Record<string, Route> = {
+  'GET /health': () => ({ ok: true }),
+
+  'GET /api/economy': () => config.economy,
+
+  'GET /api/me': (ctx) => {
+    const player = loadPlayer(requireUser(ctx));
+    store.savePlayer(player);
+    return toMeResponse(player);
+  },
+
+  'GET /api/farm': (ctx) => {
+    const player = loadPlayer(requireUser(ctx));
+    store.savePlayer(player);
+    const { referrerId, referrerUsername, username } = toMeResponse(player);
+    return { state: { ...player.state, referrerId, referrerUsername, username } };
+  },
+
+  'POST /api/farm/action': (ctx) => {
+    const body = asFields(ctx.body);
+    const { userId, username } = requireAuth(ctx);
+    const batch = parseActionBatch(body.actions);
+    if (!batch) throw new HttpError(400, 'actions[] required');
+
+    // Оптимистичная блокировка: клиент строил действия на устаревшем состоянии — отдаём текущее, он переприменит их сам.
+    // Без baseRevision (sendBeacon — ответ некому прочитать) действия применяются к текущему состоянию.
+    const current = loadPlayer(userId);
+    const baseRevision = body.baseRevision;
+    if (typeof baseRevision === 'number' && baseRevision !== (current.state.revision ?? 0)) {
+      store.savePlayer(current);
+      // Действия, уже применённые раньше (ответ на прошлый запрос потерялся), помечаем подтверждёнными
+      const applied = new Set(current.recentActionIds);
+      const results = batch.envelopes.filter((e) => applied.has(e.id)).map((e) => ({ id: e.id, ok: true }));
+      throw new HttpError(409, 'stale revision', { state: current.state, results });
+    }
+
+    const { record, results } = applyActionBatch(current, batch.envelopes, Date.now());
+    const player: StoredPlayer = { ...record, username: username ?? record.username };
+    store.savePlayer(player);
+    return { state: player.state, results: [...batch.invalid, ...results] };
+  },
+
+  // Старые клиенты присылали состояние целиком. Сервер ему не доверяет: обновляет только ник из initData и отдаёт своё состояние.
+  'POST /api/farm/sync': (ctx) => {
+    const { userId, username } = requireAuth(ctx);
+    const player = loadPlayer(userId);
+    if (username !== undefined) player.username = username;
+    store.savePlayer(player);
+    return { state: player.state };
+  },
+
+  // Код резервной копии подписывает сервер: клиент не может подделать ферму, а импорт проверяет подпись.
+  // Nonce копии сервер запоминает и гасит при восстановлении — каждую копию можно восстановить один раз.
+  'POST /api/farm/export': async (ctx) => {
+    const nonce = randomUUID();
+    const player = issueExportNonce(loadPlayer(requireUser(ctx)), nonce);
+    const code = await encodeFarmExport(createFarmExportPayload(player.id, player.state, Date.now(), nonce), requireExportSecret());
+    store.savePlayer(player);
+    return { code };
+  },
+
+  // Восстановить можно только свою ферму; админ — любую (ферма из копии пишется игроку, указанному в ней).
+  'POST /api/farm/import': async (ctx) => {
+    const userId = requireUser(ctx);
+    const text = requireString(asFields(ctx.body).code, 'code');
+    const payload = await decodeFarmExport(text, requireExportSecret()).catch((err) => {
+      throw err instanceof FarmExportError ? new HttpError(400, err.message) : err;
+    });
+    const isAdmin = config.adminIds.includes(userId);
+    if (payload.userId !== userId && !isAdmin) throw new HttpError(403, 'Это копия другого игрока');
+
+    const loaded = loadPlayer(payload.userId);
+    // Админ откатывает и гемы, поэтому ему подойдёт и отозванная копия; игроку — только действующая
+    const consumed = payload.nonce ? consumeExportNonce(loaded, payload.nonce) : null;
+    if (!consumed && !isAdmin) {
+      throw new HttpError(409, 'Копия недействительна: её уже восстановили или после неё тратились гемы. Сделай новую копию');
+    }
+    const target = consumed ?? loaded;
+    // Гемы куплены за Stars или получены за рефералов — при восстановлении своей копии они не откатываются
+    const state = restoreFarmState(target.state, payload.state, { keepGems: !isAdmin });
+    store.savePlayer({ ...target, state });
+    return { ok: true, userId: payload.userId, state };
+  },
+
+  // Key-value для клиентов без action-протокола (VITE_STORAGE_URL): сервер хранит строки как есть и ничего не проверяет
+  'GET /api/storage': (ctx) => {
+    const player = store.getPlayer(requireUser(ctx));
+    const key = requireString(ctx.url.searchParams.get('key'), 'key');
+    return { value: player?.storage?.[key] ?? null };
+  },
+
+  'POST /api/storage': (ctx) => {
+    const body = asFields(ctx.body);
+    const player = loadPlayer(requireUser(ctx));
+    const key = requireString(body.key, 'key');
+    if (!STORAGE_KEY_PATTERN.test(key)) throw new HttpError(400, 'invalid key');
+    const storage = { ...player.storage };
+    if (body.value === null) {
+      delete storage[key];
+    } else {
+      if (typeof body.value !== 'string' || body.value.length > STORAGE_MAX_VALUE) throw new HttpError(400, 'value must be a string up to 64 KB');
+      if (!(key in storage) && Object.keys(storage).length >= STORAGE_MAX_KEYS) throw new HttpError(400, 'too many keys');
+      storage[key] = body.value;
+    }
+    store.savePlayer({ ...player, storage });
+    return { ok: true };
+  },
+
+  'POST /api/referral/bind': (ctx) => {
+    const userId = requireUser(ctx);
+    const referrerId = requireString(asFields(ctx.body).referrerId, 'referrerId');
+    const player = loadPlayer(userId);
+    const referrer = store.getPlayer(referrerId);
+    if (referrerId === userId || !referrer) throw new HttpError(400, 'invalid referrer');
+    if (player.referrerId) return { ok: true, alreadyBound: true };
+
+    store.savePlayer({ ...player, referrerId });
+    const referredCount = referrer.referredCount + 1;
+    store.savePlayer({
+      ...referrer,
+      referredCount,
+      rewardsGems: referrer.rewardsGems + REFERRAL_REWARD_GEMS,
+      state: {
+        // Счётчик для достижения «Душа компании» — по числу приглашённых в базе, включая пришедших до него
+        ...raiseStat(referrer.state, 'referrals', referredCount),
+        resources: { ...referrer.state.resources, gems: referrer.state.resources.gems + REFERRAL_REWARD_GEMS },
+        revision: (referrer.state.revision ?? 0) + 1
+      }
+    });
+    return { ok: true };
+  },
+
+  'GET /api/referral/stats': (ctx) => {
+    const player = store.getPlayer(requireUser(ctx));
+    return { referredCount: player?.referredCount ?? 0, rewardsGems: player?.rewardsGems ?? 0 };
+  },
+
+  'POST /api/daily/claim': (ctx) => {
+    const result = claimDaily(loadPlayer(requireUser(ctx)), Date.now());
+    if (!result.claimed) return { claimed: false, nextAt: result.nextAt, streak: result.streak };
+    store.savePlayer(result.player);
+    const { coins, gems, feed } = result.player.state.resources;
+    return { claimed: true, reward: result.reward, streak: result.streak, resources: { coins, gems, feed } };
+  },
+
+  // Прогресс прежней «Цели», который клиент хранил в localStorage: принимается один раз на игрока
+  // и не выше целей старой «Цели» — больше из клиентских чисел в счётчики достижений не попадает.
+  'POST /api/achievements/legacy': (ctx) => {
+    const player = loadPlayer(requireUser(ctx));
+    if (player.legacyAchievementsImported) {
+      store.savePlayer(player);
+      return { ok: true, imported: false };
+    }
+    const state = applyLegacyAchievements(player.state, parseLegacyAchievements(ctx.body));
+    const revision = state === player.state ? state.revision : (state.revision ?? 0) + 1;
+    store.savePlayer({ ...player, legacyAchievementsImported: true, state: { ...state, revision } });
+    return { ok: true, imported: true };
+  },
+
+  'GET /api/reminders': (ctx) => {
+    const { items, lastSentAt, ...settings } = getReminders(loadPlayer(requireUser(ctx)));
+    return { settings, scheduled: items.length };
+  },
+
+  'POST /api/reminders/settings': (ctx) => {
+    const player = loadPlayer(requireUser(ctx));
+    const reminders = getReminders(player);
+    const settings = parseReminderSettings(ctx.body, reminders);
+    // Выключенные напоминания не копят события
+    store.savePlayer({ ...player, reminders: { ...reminders, ...settings, items: settings.enabled ? reminders.items : [] } });
+    return { settings };
+  },
+
+  // Клиент присылает полный список предстоящих событий после каждого изменения фермы — он заменяет прежний
+  'POST /api/reminders/schedule': (ctx) => {
+    const player = loadPlayer(requireUser(ctx));
+    const reminders = getReminders(player);
+    if (!reminders.enabled) return { ok: false, scheduled: 0 };
+    const items = parseReminderItems(asFields(ctx.body).items, Date.now());
+    store.savePlayer({ ...player, reminders: { ...reminders, items } });
+    return { ok: true, scheduled: items.length };
+  },
+
+  'GET /api/payments/packages': () => ({ packages: GEM_PACKAGES }),
+
+  'POST /api/payments/create-invoice': async (ctx) => {
+    const userId = requireUser(ctx);
+    const pkg = findPackage(requireString(asFields(ctx.body).packageId, 'packageId'));
+    const invoiceLink = await createGemInvoice(store, config.bot, userId, pkg.gems, pkg.stars, pkg.title, pkg.description);
+    return { ok: true, invoiceLink };
+  },
+
+  'POST /api/payments/create-custom-invoice': async (ctx) => {
+    const userId = requireUser(ctx);
+    const gems = Math.floor(Number(asFields(ctx.body).gems));
+    if (!Number.isFinite(gems) || gems <= 0 || gems > MAX_CUSTOM_GEMS) {
+      throw new HttpError(400, `Можно купить от 1 до ${MAX_CUSTOM_GEMS} гемов`);
+    }
+    const stars = getCustomStars(gems);
+    const invoiceLink = await createGemInvoice(store, config.bot, userId, gems, stars, `${gems} гемов`, `${gems} гемов за ${stars} ⭐`);
+    return { ok: true, invoiceLink };
+  },
+
+  'POST /api/payments/confirm-paid': async (ctx) => {
+    const userId = requireUser(ctx);
+    const credited = await confirmPendingPayments(store, config.bot, userId);
+    return { ok: credited > 0, gems: store.ensurePlayer(userId).state.resources.gems };
+  },
+
+  'POST /api/telegram/webhook': async ({ req, body }) => {
+    if (config.webhookSecret && req.headers['x-telegram-bot-api-secret-token'] !== config.webhookSecret) {
+      throw new HttpError(401, 'bad secret');
+    }
+    await handleBotUpdate(store, config.bot, body);
+    return { ok: true };
+  },
+
+  'GET /api/stats': () => {
+    const players = store.listPlayers();
+    const today = startOfUtcDay(Date.now());
+    return {
+      totalUsers: players.length,
+      totalReferrals: players.reduce((sum, p) => sum + p.referredCount, 0),
+      totalCoins: players.reduce((sum, p) => sum + (p.state.resources?.coins ?? 0), 0),
+      totalGems: players.reduce((sum, p) => sum + (p.state.resources?.gems ?? 0), 0),
+      activeToday: players.filter((p) => p.lastSeenAt >= today).length,
+      updatedAt: new Date().toISOString()
+    };
+  },
+
+  'POST /api/admin/reward': (ctx) => {
+    const body = asFields(ctx.body);
+    const adminId = requireUser(ctx);
+    if (!config.adminIds.includes(adminId)) throw new HttpError(403, 'forbidden');
+    const targetUserId = requireString(body.targetUserId, 'targetUserId');
+    const resource = body.resource;
+    const amount = Math.floor(Number(body.amount));
+    if ((resource !== 'gems' && resource !== 'coins') || !Number.isFinite(amount) || amount <= 0) {
+      throw new HttpError(400, 'resource (gems|coins) and positive amount required');
+    }
+
+    const player = store.ensurePlayer(targetUserId);
+    const resources = { ...player.state.resources, [resource]: player.state.resources[resource] + amount };
+    store.savePlayer({ ...player, state: { ...player.state, resources, revision: (player.state.revision ?? 0) + 1 } });
+    return { ok: true };
+  }
+};
+
+const server = createServer(async (req, res) => {
+  const cors = corsHeaders(req, config.allowedOrigins);
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const route = routes[`${req.method} ${url.pathname}`];
+  if (!route) {
+    sendJson(res, 404, { error: 'not found' }, cors);
+    return;
+  }
+
+  try {
+    const body = req.method === 'POST' ? await readJson(req) : undefined;
+    sendJson(res, 200, await route({ req, url, body }), cors);
+  } catch (err) {
+    if (err instanceof HttpError) {
+      sendJson(res, err.status, { ok: false, error: err.message, ...err.details }, cors);
+      return;
+    }
+    console.error(err);
+    sendJson(res, 500, { ok: false, error: err instanceof Error ? err.message : 'internal error' }, cors);
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`Farm backend: http://localhost:${config.port} (data: ${config.dataFile})`);
+});
+
+// Без токена бота писать некому — напоминания только копятся
+if (config.bot.token) startReminderScheduler(store, config.bot);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    store.flush();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from 'node:crypto';
+import { callBotApi, type BotApiConfig } from './botApi';
+import { asFields, HttpError } from './http';
+import type { Store, StoredPayment } from './store';
+
+// Покупка гемов за Telegram Stars (валюта XTR).
+// Гемы начисляются только за оплаченный счёт: из webhook successful_payment или после проверки
+// транзакций бота (getStarTransactions) по кнопке «Я оплатил».
+
+export interface GemPackage {
+  id: string;
+  gems: number;
+  stars: number;
+  title: string;
+  description: string;
+}
+
+// Должны совпадать с GEM_PACKAGES в src/api.ts (fallback клиента).
+export const GEM_PACKAGES: GemPackage[] = [
+  { id: 'gems_50', gems: 50, stars: 10, title: '50 гемов', description: '50 гемов за 10 ⭐' },
+  { id: 'gems_100', gems: 100, stars: 20, title: '100 гемов', description: '100 гемов за 20 ⭐' },
+  { id: 'gems_200', gems: 200, stars: 25, title: '200 гемов', description: '200 гемов за 25 ⭐' }
+];
+
+/** Курс кастомной покупки: 1 ⭐ = 5 💎 (как в магазине мини-аппа). */
+export const GEMS_PER_STAR = 5;
+export const MAX_CUSTOM_GEMS = 100_000;
+
+export function getCustomStars(gems: number): number {
+  return Math.max(1, Math.ceil(gems / GEMS_PER_STAR));
+}
+
+export async function createGemInvoice(
+  store: Store,
+  bot: BotApiConfig,
+  userId: string,
+  gems: number,
+  stars: number,
+  title: string,
+  description: string
+): Promise<string> {
+  const payment: StoredPayment = {
+    id: randomUUID(),
+    userId,
+    gems,
+    stars,
+    status: 'pending',
+    createdAt: Date.now()
+  };
+  const invoiceLink = await callBotApi<string>(bot, 'createInvoiceLink', {
+    title,
+    description,
+    payload: payment.id,
+    provider_token: '',
+    currency: 'XTR',
+    prices: [{ label: title, amount: stars }]
+  });
+  store.savePayment(payment);
+  return invoiceLink;
+}
+
+/** Начислить гемы за оплаченный счёт (повторный вызов ничего не делает). */
+export function creditPayment(store: Store, paymentId: string): StoredPayment | null {
+  const payment = store.getPayment(paymentId);
+  if (!payment || payment.status === 'credited') return null;
+  const player = store.ensurePlayer(payment.userId);
+  store.savePlayer({
+    ...player,
+    state: {
+      ...player.state,
+      resources: { ...player.state.resources, gems: player.state.resources.gems + payment.gems },
+      revision: (player.state.revision ?? 0) + 1
+    }
+  });
+  const credited: StoredPayment = { ...payment, status: 'credited' };
+  store.savePayment(credited);
+  return credited;
+}
+
+interface StarTransaction {
+  id: string;
+  amount: number;
+  source?: { type: string; invoice_payload?: string };
+}
+
+/** Проверить неначисленные счета игрока по истории транзакций бота. Возвращает, сколько гемов начислено. */
+export async function confirmPendingPayments(store: Store, bot: BotApiConfig, userId: string): Promise<number> {
+  const pending = store.listPayments(userId).filter((p) => p.status === 'pending');
+  if (pending.length === 0) return 0;
+
+  const { transactions } = await callBotApi<{ transactions: StarTransaction[] }>(bot, 'getStarTransactions', { limit: 100 });
+  const paidPayloads = new Set(
+    transactions
+      .filter((t) => t.source?.type === 'user' && t.source.invoice_payload)
+      .map((t) => t.source!.invoice_payload!)
+  );
+
+  let gems = 0;
+  for (const payment of pending) {
+    if (!paidPayloads.has(payment.id)) continue;
+    gems += creditPayment(store, payment.id)?.gems ?? 0;
+  }
+  return gems;
+}
+
+/** Update от Telegram: подтверждаем pre_checkout_query и начисляем гемы по successful_payment. */
+export async function handleBotUpdate(store: Store, bot: BotApiConfig, update: unknown): Promise<void> {
+  const fields = asFields(update);
+  const query = asFields(fields.pre_checkout_query);
+  if (typeof query.id === 'string') {
+    const payment = store.getPayment(String(query.invoice_payload ?? ''));
+    const ok = payment != null && payment.status === 'pending' && payment.stars === query.total_amount;
+    await callBotApi(bot, 'answerPreCheckoutQuery', {
+      pre_checkout_query_id: query.id,
+      ok,
+      ...(ok ? {} : { error_message: 'Счёт устарел, создай новый в мини-аппе' })
+    });
+    return;
+  }
+
+  const successful = asFields(asFields(fields.message).successful_payment);
+  if (typeof successful.invoice_payload === 'string') {
+    creditPayment(store, successful.invoice_payload);
+  }
+}
+
+export function findPackage(packageId: string): GemPackage {
+  const pkg = GEM_PACKAGES.find((p) => p.id === packageId);
+  if (!pkg) throw new HttpError(404, 'unknown package');
+  return pkg;
+}
@@ -0,0 +1,145 @@
+import { collectReminderItems, DEFAULT_REMINDER_SETTINGS, formatReminderMessage, type ReminderItem, type ReminderSettings } from '../src/reminders';
+import { callBotApi, type BotApiConfig } from './botApi';
+import { asFields, HttpError } from './http';
+import type { Store, StoredPlayer } from './store';
+
+// Рассылка напоминаний: раз в TICK_MS проверяем игроков с включёнными напоминаниями и шлём одно сообщение
+// на всё, что готово или дозреет в ближайшие BATCH_WINDOW_MS. В тихие часы копим, не чаще MIN_GAP_MS.
+
+const MINUTE = 60 * 1000;
+const TICK_MS = 30 * 1000;
+/** Что дозреет в течение этого окна, попадает в то же сообщение */
+const BATCH_WINDOW_MS = 5 * MINUTE;
+/** Не больше одного сообщения игроку за этот интервал */
+const MIN_GAP_MS = 15 * MINUTE;
+/** Сколько событий храним на игрока и на какой срок вперёд */
+const MAX_ITEMS = 100;
+const MAX_AHEAD_MS = 7 * 24 * 60 * MINUTE;
+
+export interface StoredReminders extends ReminderSettings {
+  items: ReminderItem[];
+  lastSentAt: number | null;
+}
+
+export function getReminders(player: StoredPlayer): StoredReminders {
+  return player.reminders ?? { ...DEFAULT_REMINDER_SETTINGS, items: [], lastSentAt: null };
+}
+
+const isHour = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 23;
+
+/** Настройки из тела запроса; неуказанные поля остаются прежними. */
+export function parseReminderSettings(value: unknown, current: ReminderSettings): ReminderSettings {
+  const body = asFields(value);
+  const next = { ...current };
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') throw new HttpError(400, 'enabled must be boolean');
+    next.enabled = body.enabled;
+  }
+  for (const field of ['quietFromHour', 'quietToHour'] as const) {
+    if (body[field] === undefined) continue;
+    if (!isHour(body[field])) throw new HttpError(400, `${field} must be an hour 0..23`);
+    next[field] = body[field];
+  }
+  if (body.utcOffsetMinutes !== undefined) {
+    const offset = body.utcOffsetMinutes;
+    if (typeof offset !== 'number' || !Number.isInteger(offset) || Math.abs(offset) > 14 * 60) {
+      throw new HttpError(400, 'utcOffsetMinutes must be within ±840');
+    }
+    next.utcOffsetMinutes = offset;
+  }
+  return next;
+}
+
+/** Список от клиента: отбрасываем мусор, прошлое и слишком далёкое будущее. */
+export function parseReminderItems(value: unknown, now: number): ReminderItem[] {
+  if (!Array.isArray(value)) throw new HttpError(400, 'items[] required');
+  const kinds: ReminderItem['kind'][] = ['crop', 'animal', 'building'];
+  return value
+    .filter(
+      (item): item is ReminderItem =>
+        typeof item?.key === 'string' &&
+        typeof item.type === 'string' &&
+        kinds.includes(item.kind) &&
+        typeof item.readyAt === 'number' &&
+        item.readyAt > now &&
+        item.readyAt - now <= MAX_AHEAD_MS
+    )
+    .map(({ key, kind, type, readyAt }) => ({ key, kind, type, readyAt }))
+    .sort((a, b) => a.readyAt - b.readyAt)
+    .slice(0, MAX_ITEMS);
+}
+
+export function isQuietTime(settings: ReminderSettings, now: number): boolean {
+  const { quietFromHour: from, quietToHour: to } = settings;
+  if (from === to) return false;
+  const hour = new Date(now + settings.utcOffsetMinutes * MINUTE).getUTCHours();
+  return from < to ? hour >= from && hour < to : hour >= from || hour < to;
+}
+
+/** Можно ли писать игроку сейчас: не тихие часы и прошлое сообщение было достаточно давно. */
+export function canSendNow(reminders: StoredReminders, now: number): boolean {
+  if (reminders.lastSentAt !== null && now - reminders.lastSentAt < MIN_GAP_MS) return false;
+  return !isQuietTime(reminders, now);
+}
+
+const reminderId = (item: ReminderItem) => `${item.key}@${item.readyAt}`;
+
+/**
+ * Что отправить одним сообщением: готовое и то, что дозреет в окне пачки. Событие уходит, только если
+ * у сервера тот же таймер — собранное на другом устройстве или отменённое не напоминаем.
+ */
+export function takeDueReminders(items: ReminderItem[], state: StoredPlayer['state'], now: number): ReminderItem[] {
+  const pending = new Set(collectReminderItems(state, 0).map(reminderId));
+  return items.filter((item) => item.readyAt <= now + BATCH_WINDOW_MS && pending.has(reminderId(item)));
+}
+
+async function sendDueReminders(store: Store, bot: BotApiConfig, now: number) {
+  for (const player of store.listPlayers()) {
+    const reminders = getReminders(player);
+    if (!reminders.enabled || !reminders.items.some((item) => item.readyAt <= now)) continue;
+    // В тихие часы и сразу после прошлого сообщения готовое копится до следующей пачки
+    if (!canSendNow(reminders, now)) continue;
+
+    const due = takeDueReminders(reminders.items, player.state, now);
+    let sent = false;
+    if (due.length > 0) {
+      try {
+        await callBotApi(bot, 'sendMessage', { chat_id: player.id, text: formatReminderMessage(due) });
+        sent = true;
+      } catch (err) {
+        // Игрок не запускал бота или заблокировал его — повтор не поможет, пачку выбрасываем
+        console.warn(`reminders: ${player.id}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+
+    // Пока ждали Bot API, игрок мог прислать новый список — обновляем свежую запись
+    const fresh = store.getPlayer(player.id);
+    if (!fresh) continue;
+    const current = getReminders(fresh);
+    const handled = new Set(due.map(reminderId));
+    store.savePlayer({
+      ...fresh,
+      reminders: {
+        ...current,
+        // Отправленное и наступившее без пары на сервере (собрано, отменено) убираем
+        items: current.items.filter((item) => item.readyAt > now && !handled.has(reminderId(item))),
+        lastSentAt: sent ? now : current.lastSentAt
+      }
+    });
+  }
+}
+
+/** Запустить рассылку; возвращает функцию остановки. */
+export function startReminderScheduler(store: Store, bot: BotApiConfig): () => void {
+  let running = false;
+  const id = setInterval(() => {
+    if (running) return;
+    running = true;
+    sendDueReminders(store, bot, Date.now())
+      .catch((err) => console.error(err))
+      .finally(() => {
+        running = false;
+      });
+  }, TICK_MS);
+  return () => clearInterval(id);
+}
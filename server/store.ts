@@ -0,0 +1,152 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { ensureExtendedState } from '../src/gameLogic';
+import { migrateSave, SaveFormatError } from '../src/saveFormat';
+import { createPlayerRecord, type PlayerRecord } from './farm';
+import type { StoredReminders } from './reminders';
+
+// Файловое хранилище: вся база — один JSON-документ в памяти, на диск пишется с задержкой
+// через временный файл и rename, чтобы оборванная запись не портила базу.
+
+const WRITE_DELAY_MS = 200;
+
+export interface StoredPlayer extends PlayerRecord {
+  id: string;
+  createdAt: number;
+  lastSeenAt: number;
+  referrerId: string | null;
+  referredCount: number;
+  rewardsGems: number;
+  daily: { lastClaimAt: number; streak: number } | null;
+  /** Напоминания от бота: настройки и запланированные события (нет — выключены) */
+  reminders?: StoredReminders;
+  /** Key-value сохранения клиента (POST /api/storage) — для игры без action-протокола */
+  storage?: Record<string, string>;
+  /** Прогресс прежней «Цели» уже перенесён (POST /api/achievements/legacy) — второй раз не принимается */
+  legacyAchievementsImported?: boolean;
+}
+
+export type PaymentStatus = 'pending' | 'credited';
+
+export interface StoredPayment {
+  /** invoice_payload счёта в Telegram */
+  id: string;
+  userId: string;
+  gems: number;
+  stars: number;
+  status: PaymentStatus;
+  createdAt: number;
+}
+
+interface Database {
+  players: Record<string, StoredPlayer>;
+  payments: Record<string, StoredPayment>;
+}
+
+export interface Store {
+  getPlayer(id: string): StoredPlayer | null;
+  /** Игрок по id; новый игрок создаётся со стартовым состоянием. */
+  ensurePlayer(id: string): StoredPlayer;
+  savePlayer(player: StoredPlayer): void;
+  listPlayers(): StoredPlayer[];
+  getPayment(id: string): StoredPayment | null;
+  savePayment(payment: StoredPayment): void;
+  listPayments(userId: string): StoredPayment[];
+  /** Записать на диск немедленно (при остановке сервера). */
+  flush(): void;
+}
+
+function readDatabase(file: string): Database {
+  if (!existsSync(file)) return { players: {}, payments: {} };
+  const parsed = JSON.parse(readFileSync(file, 'utf8')) as Partial<Database>;
+  return { players: parsed.players ?? {}, payments: parsed.payments ?? {} };
+}
+
+// Все сохранения переводим в текущий формат при старте. Если хоть одно не читается, сервер не запускается:
+// лучше упасть с понятным списком проблем, чем молча перезаписать ферму игрока стартовым состоянием.
+function migratePlayers(db: Database): boolean {
+  let changed = false;
+  const failures: string[] = [];
+  for (const [id, player] of Object.entries(db.players)) {
+    const before = (player.state as { schemaVersion?: unknown } | undefined)?.schemaVersion;
+    try {
+      player.state = migrateSave(player.state);
+      if (before !== player.state.schemaVersion) changed = true;
+    } catch (err) {
+      if (!(err instanceof SaveFormatError)) throw err;
+      failures.push(`  игрок ${id}: ${err.message}`);
+    }
+  }
+  if (failures.length > 0) {
+    throw new Error(`Сохранения не удалось привести к текущему формату (файл базы не изменён):\n${failures.join('\n')}`);
+  }
+  return changed;
+}
+
+export function openFileStore(file: string): Store {
+  const db = readDatabase(file);
+  const migrated = migratePlayers(db);
+  let writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (writeTimer) clearTimeout(writeTimer);
+    writeTimer = null;
+    mkdirSync(dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(db));
+    renameSync(tmp, file);
+  };
+
+  const scheduleWrite = () => {
+    if (writeTimer) return;
+    writeTimer = setTimeout(flush, WRITE_DELAY_MS);
+  };
+
+  // Формат уже приведён migratePlayers; поверх — та же страховка по шаблону слотов и ресурсов, что и на клиенте
+  const hydrate = (player: StoredPlayer): StoredPlayer => ({ ...player, state: ensureExtendedState(player.state) });
+
+  if (migrated) scheduleWrite();
+
+  return {
+    getPlayer(id) {
+      const player = db.players[id];
+      return player ? hydrate(player) : null;
+    },
+    ensurePlayer(id) {
+      const existing = db.players[id];
+      if (existing) return hydrate(existing);
+      const now = Date.now();
+      const player: StoredPlayer = {
+        ...createPlayerRecord(),
+        id,
+        createdAt: now,
+        lastSeenAt: now,
+        referrerId: null,
+        referredCount: 0,
+        rewardsGems: 0,
+        daily: null
+      };
+      db.players[id] = player;
+      scheduleWrite();
+      return player;
+    },
+    savePlayer(player) {
+      db.players[player.id] = player;
+      scheduleWrite();
+    },
+    listPlayers() {
+      return Object.values(db.players);
+    },
+    getPayment(id) {
+      return db.payments[id] ?? null;
+    },
+    savePayment(payment) {
+      db.payments[payment.id] = payment;
+      scheduleWrite();
+    },
+    listPayments(userId) {
+      return Object.values(db.payments).filter((p) => p.userId === userId);
+    },
+    flush
+  };
+}
@@ -0,0 +1,100 @@
+import type { GameState, StatKey } from './gameTypes';
+import { ANIMAL_TYPES, CROP_TYPES, getEconomy } from './economy';
+
+// Достижения: декларативный список «счётчик из src/stats.ts + ступени». Счётчики копит applyFarmAction,
+// здесь только правила и выдача награды за следующую ступень (действие claimAchievement).
+
+export interface AchievementTier {
+  /** Значение счётчика, с которого ступень можно забрать */
+  target: number;
+  coins: number;
+  gems: number;
+}
+
+export interface Achievement {
+  id: string;
+  icon: string;
+  title: string;
+  /** Что считается: подпись к прогрессу «123/500» */
+  description: string;
+  stat: StatKey;
+  tiers: AchievementTier[];
+}
+
+// Награда растёт со ступенью: первая — монеты, дальше добавляются гемы
+const TIER_REWARDS: Omit<AchievementTier, 'target'>[] = [
+  { coins: 100, gems: 0 },
+  { coins: 300, gems: 5 },
+  { coins: 1000, gems: 15 },
+  { coins: 3000, gems: 30 }
+];
+
+function tiers(...targets: number[]): AchievementTier[] {
+  return targets.map((target, i) => ({ target, ...TIER_REWARDS[Math.min(i, TIER_REWARDS.length - 1)] }));
+}
+
+/** Все достижения; названия культур и животных — из текущего каталога экономики. */
+export function getAchievements(): Achievement[] {
+  const { crops, animals } = getEconomy();
+  return [
+    { id: 'harvests', icon: '🌾', title: 'Урожайный', description: 'Собрать урожай с грядок', stat: 'harvests', tiers: tiers(10, 100, 1000, 5000) },
+    ...CROP_TYPES.map(
+      (type): Achievement => ({
+        id: `harvest-${type}`,
+        icon: crops[type].icon,
+        title: crops[type].title,
+        description: `Собрать: ${crops[type].yieldText}`,
+        stat: `harvest:${type}`,
+        tiers: tiers(50, 500, 5000)
+      })
+    ),
+    { id: 'feeds', icon: '🥣', title: 'Заботливый', description: 'Покормить животных', stat: 'feeds', tiers: tiers(5, 50, 500, 2000) },
+    ...ANIMAL_TYPES.map(
+      (type): Achievement => ({
+        id: `collect-${type}`,
+        icon: animals[type].icon,
+        title: animals[type].title,
+        description: `Забрать продукцию: ${animals[type].yieldText}`,
+        stat: `collect:${type}`,
+        tiers: tiers(10, 100, 1000)
+      })
+    ),
+    { id: 'coins', icon: '🪙', title: 'Торговец', description: 'Заработать монет на рынке', stat: 'coinsEarned', tiers: tiers(1000, 10_000, 100_000, 1_000_000) },
+    { id: 'crafts', icon: '🏭', title: 'Мастер', description: 'Забрать продукцию из цеха', stat: 'crafts', tiers: tiers(5, 50, 500) },
+    { id: 'upgrades', icon: '⬆️', title: 'Улучшатель', description: 'Улучшить грядки и загоны', stat: 'upgrades', tiers: tiers(1, 10, 50) },
+    { id: 'referrals', icon: '🤝', title: 'Душа компании', description: 'Пригласить друзей', stat: 'referrals', tiers: tiers(1, 5, 20) },
+    { id: 'streak', icon: '🔥', title: 'Постоянство', description: 'Дней подряд в марафоне наград', stat: 'dailyStreak', tiers: tiers(3, 5) }
+  ];
+}
+
+export interface AchievementProgress {
+  value: number;
+  /** Сколько ступеней забрано */
+  claimed: number;
+  /** Сколько ступеней достигнуто по счётчику (забранные и ждущие награды) */
+  reached: number;
+  /** Следующая незабранная ступень; null — все забраны */
+  next: AchievementTier | null;
+  canClaim: boolean;
+}
+
+export function getAchievementProgress(state: GameState, achievement: Achievement): AchievementProgress {
+  const value = state.stats?.[achievement.stat] ?? 0;
+  const claimed = Math.min(state.achievements?.[achievement.id] ?? 0, achievement.tiers.length);
+  const reached = achievement.tiers.filter((tier) => value >= tier.target).length;
+  const next = achievement.tiers[claimed] ?? null;
+  return { value, claimed, reached, next, canClaim: !!next && value >= next.target };
+}
+
+/** Забрать награду за следующую ступень достижения. */
+export function claimAchievement(state: GameState, id: string): GameState {
+  const achievement = getAchievements().find((a) => a.id === id);
+  if (!achievement) return state;
+  const { claimed, next, canClaim } = getAchievementProgress(state, achievement);
+  if (!next || !canClaim) return state;
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins + next.coins, gems: state.resources.gems + next.gems },
+    achievements: { ...state.achievements, [id]: claimed + 1 }
+  };
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './initialState';
+import { getSellPreview } from './gameLogic';
+import { getXpForNextLevel } from './progression';
+import { applyFarmActions, parseFarmAction, rebaseActions, type FarmActionEnvelope } from './actions';
+
+// Протокол действий: сервер принимает только известные действия и сам проверяет условия наград
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+describe('parseFarmAction', () => {
+  it('пропускает известные действия с верными параметрами', () => {
+    expect(parseFarmAction({ type: 'feedAnimal', slotId: 'a1' })).toEqual({ type: 'feedAnimal', slotId: 'a1' });
+    expect(parseFarmAction({ type: 'buySeeds', crop: 'tomato', amount: 10 })).toEqual({ type: 'buySeeds', crop: 'tomato', amount: 10 });
+  });
+
+  it('отклоняет неизвестные типы и кривые параметры', () => {
+    expect(parseFarmAction({ type: 'claimGoalReward' })).toBeNull();
+    expect(parseFarmAction({ type: 'feedAnimal' })).toBeNull();
+    expect(parseFarmAction({ type: 'buySeeds', crop: 'tomato', amount: -1 })).toBeNull();
+    expect(parseFarmAction({ type: 'sellResources', basket: { coins: 10 } })).toBeNull();
+    expect(parseFarmAction(null)).toBeNull();
+  });
+});
+
+describe('applyFarmActions', () => {
+  it('повтор награды без выполненного условия отклоняется', () => {
+    const claims: FarmActionEnvelope[] = [1, 2, 3].map((n) => ({ id: `claim-${n}`, action: { type: 'claimAchievement', id: 'harvests' } }));
+    const { state, results } = applyFarmActions(createInitialState(), claims, NOW);
+    expect(results.every((r) => !r.ok)).toBe(true);
+    expect(state.resources.coins).toBe(100);
+  });
+
+  it('награда за ступень выдаётся один раз', () => {
+    const base = { ...createInitialState(), stats: { harvests: 10 } };
+    const claims: FarmActionEnvelope[] = [1, 2].map((n) => ({ id: `claim-${n}`, action: { type: 'claimAchievement', id: 'harvests' } }));
+    const { state, results } = applyFarmActions(base, claims, NOW);
+    expect(results.map((r) => r.ok)).toEqual([true, false]);
+    expect(state.resources.coins).toBe(200);
+  });
+
+  it('в заработанные монеты идёт только выручка, без награды за новый уровень', () => {
+    const initial = createInitialState();
+    const base = { ...initial, xp: getXpForNextLevel(1) - 1, resources: { ...initial.resources, tomato: 40 } };
+    const income = getSellPreview(base, { tomato: 40 }, NOW).total;
+    const { state } = applyFarmActions(base, [{ id: 'sell', action: { type: 'sellResources', basket: { tomato: 40 } } }], NOW);
+    expect(state.level).toBe(2);
+    expect(state.resources.coins).toBeGreaterThan(base.resources.coins + income);
+    expect(state.stats?.coinsEarned).toBe(income);
+  });
+
+  it('кормление в закрытом загоне отклоняется', () => {
+    const { results } = applyFarmActions(createInitialState(), [{ id: 'f', action: { type: 'feedAnimal', slotId: 'a3' } }], NOW);
+    expect(results).toEqual([{ id: 'f', ok: false, error: 'rejected' }]);
+  });
+});
+
+describe('rebaseActions', () => {
+  it('переприменяет возможные действия и отбрасывает невозможные', () => {
+    const envelopes: FarmActionEnvelope[] = [
+      { id: 'plant', action: { type: 'plantCrop', slotId: 'c1' } },
+      { id: 'again', action: { type: 'plantCrop', slotId: 'c1' } }
+    ];
+    const { state, kept, dropped } = rebaseActions({ ...createInitialState(), revision: 7 }, envelopes, NOW);
+    expect(kept.map((e) => e.id)).toEqual(['plant']);
+    expect(dropped.map((e) => e.id)).toEqual(['again']);
+    expect(state.revision).toBe(8);
+  });
+});
@@ -0,0 +1,335 @@
+import type { GameState } from './gameTypes';
+import type { AnimalType, CropType } from './gameTypes';
+import { ANIMAL_TYPES, CROP_TYPES, PRODUCT_IDS, type ProductId } from './economy';
+import {
+  boostAnimal,
+  boostCrop,
+  buyAutoCollectPerk,
+  buyFeed,
+  buyPen,
+  buyPlot,
+  buySeeds,
+  collectAll,
+  collectAnimalProduct,
+  exchangeCoinsToGems,
+  exchangeGemsToCoins,
+  feedAll,
+  feedAnimal,
+  gemUpgradeAnimal,
+  gemUpgradeCrop,
+  harvestAll,
+  harvestCrop,
+  plantAll,
+  plantCrop,
+  sellProduce,
+  sellResources,
+  setSellReserve,
+  unlockAnimal,
+  unlockCrop,
+  unlockSeeds,
+  upgradeAnimal,
+  upgradeCrop,
+  type SellBasket
+} from './gameLogic';
+import { claimAchievement } from './achievements';
+import { claimQuest, claimQuestChest, rerollQuest, trackDailyQuests } from './dailyQuests';
+import { collectProduction, startRecipe, unlockBuilding } from './production';
+import { getStatIncrements, recordStats } from './stats';
+import { claimWeeklyReward, setUtcOffset, trackWeeklyGoals } from './weeklyGoals';
+
+// Протокол действий: клиент отправляет не состояние целиком, а команды.
+// Один и тот же applyFarmAction применяет их оптимистично на клиенте и авторитетно на сервере (server/).
+
+export type FarmAction =
+  /** crop — какую культуру посадить; без него — ту же, что росла на грядке */
+  | { type: 'plantCrop'; slotId: string; crop?: CropType }
+  | { type: 'harvestCrop'; slotId: string }
+  | { type: 'boostCrop'; slotId: string }
+  | { type: 'upgradeCrop'; slotId: string }
+  | { type: 'gemUpgradeCrop'; slotId: string }
+  /** Купить закрытую грядку */
+  | { type: 'unlockCrop'; slotId: string }
+  | { type: 'unlockSeeds'; crop: CropType }
+  | { type: 'buySeeds'; crop: CropType; amount: number }
+  /** Расширение фермы: новая грядка или загон для животного открытого вида */
+  | { type: 'buyPlot' }
+  | { type: 'buyPen'; animal: AnimalType }
+  | { type: 'feedAnimal'; slotId: string }
+  | { type: 'collectAnimalProduct'; slotId: string }
+  | { type: 'boostAnimal'; slotId: string }
+  | { type: 'upgradeAnimal'; slotId: string }
+  | { type: 'gemUpgradeAnimal'; slotId: string }
+  | { type: 'unlockAnimal'; slotId: string }
+  | { type: 'plantAll'; crop?: CropType }
+  | { type: 'harvestAll' }
+  | { type: 'feedAll' }
+  | { type: 'collectAll' }
+  | { type: 'sellResources'; basket: SellBasket }
+  | { type: 'sellProduce' }
+  | { type: 'setSellReserve'; product: ProductId; amount: number }
+  | { type: 'buyFeed'; packId: string }
+  | { type: 'unlockBuilding'; buildingId: string }
+  | { type: 'startRecipe'; buildingId: string; recipeId: string }
+  | { type: 'collectProduction'; buildingId: string }
+  | { type: 'exchangeGemsToCoins' }
+  | { type: 'exchangeCoinsToGems' }
+  | { type: 'buyAutoCollectPerk' }
+  /** Забрать следующую ступень достижения (id из src/achievements.ts) */
+  | { type: 'claimAchievement'; id: string }
+  /** tier — номер ступени награды в economy.weeklyGoals.tiers */
+  | { type: 'claimWeeklyReward'; tier: number }
+  /** index — номер задания на доске дня */
+  | { type: 'claimQuest'; index: number }
+  | { type: 'rerollQuest'; index: number }
+  | { type: 'claimQuestChest' }
+  /** Часовой пояс устройства (минуты к UTC) для сброса недельных целей */
+  | { type: 'setUtcOffset'; minutes: number };
+
+export type FarmActionType = FarmAction['type'];
+
+/** Действие с id от клиента: по id сервер отбрасывает повторы (ретраи, sendBeacon). */
+export interface FarmActionEnvelope {
+  id: string;
+  action: FarmAction;
+}
+
+export interface FarmActionResult {
+  id: string;
+  ok: boolean;
+  error?: string;
+}
+
+/** now — время применения: клиент передаёт момент клика, сервер — момент получения пачки. */
+export function applyFarmAction(state: GameState, action: FarmAction, now: number = Date.now()): GameState {
+  const next = reduceFarmAction(state, action, now);
+  if (next === state) return state;
+  const increments = getStatIncrements(action, state, next);
+  const tracked = trackWeeklyGoals(state, recordStats(next, increments), increments, now);
+  return trackDailyQuests(state, tracked, increments, now);
+}
+
+function reduceFarmAction(state: GameState, action: FarmAction, now: number): GameState {
+  switch (action.type) {
+    case 'plantCrop':
+      return plantCrop(state, action.slotId, action.crop, now);
+    case 'harvestCrop':
+      return harvestCrop(state, action.slotId, now);
+    case 'boostCrop':
+      return boostCrop(state, action.slotId, now);
+    case 'upgradeCrop':
+      return upgradeCrop(state, action.slotId);
+    case 'gemUpgradeCrop':
+      return gemUpgradeCrop(state, action.slotId);
+    case 'unlockCrop':
+      return unlockCrop(state, action.slotId);
+    case 'unlockSeeds':
+      return unlockSeeds(state, action.crop);
+    case 'buySeeds':
+      return buySeeds(state, action.crop, action.amount);
+    case 'buyPlot':
+      return buyPlot(state);
+    case 'buyPen':
+      return buyPen(state, action.animal);
+    case 'feedAnimal':
+      return feedAnimal(state, action.slotId, now);
+    case 'collectAnimalProduct':
+      return collectAnimalProduct(state, action.slotId, now);
+    case 'boostAnimal':
+      return boostAnimal(state, action.slotId, now);
+    case 'upgradeAnimal':
+      return upgradeAnimal(state, action.slotId);
+    case 'gemUpgradeAnimal':
+      return gemUpgradeAnimal(state, action.slotId);
+    case 'unlockAnimal':
+      return unlockAnimal(state, action.slotId);
+    case 'plantAll':
+      return plantAll(state, action.crop, now).state;
+    case 'harvestAll':
+      return harvestAll(state, now).state;
+    case 'feedAll':
+      return feedAll(state, now).state;
+    case 'collectAll':
+      return collectAll(state, now).state;
+    case 'sellResources':
+      return sellResources(state, action.basket, now);
+    case 'sellProduce':
+      return sellProduce(state, now);
+    case 'setSellReserve':
+      return setSellReserve(state, action.product, action.amount);
+    case 'buyFeed':
+      return buyFeed(state, action.packId);
+    case 'unlockBuilding':
+      return unlockBuilding(state, action.buildingId);
+    case 'startRecipe':
+      return startRecipe(state, action.buildingId, action.recipeId, now);
+    case 'collectProduction':
+      return collectProduction(state, action.buildingId, now);
+    case 'exchangeGemsToCoins':
+      return exchangeGemsToCoins(state);
+    case 'exchangeCoinsToGems':
+      return exchangeCoinsToGems(state);
+    case 'buyAutoCollectPerk':
+      return buyAutoCollectPerk(state);
+    case 'claimAchievement':
+      return claimAchievement(state, action.id);
+    case 'claimWeeklyReward':
+      return claimWeeklyReward(state, action.tier, now);
+    case 'claimQuest':
+      return claimQuest(state, action.index, now);
+    case 'rerollQuest':
+      return rerollQuest(state, action.index, now);
+    case 'claimQuestChest':
+      return claimQuestChest(state, now);
+    case 'setUtcOffset':
+      return setUtcOffset(state, action.minutes, now);
+  }
+}
+
+const SLOT_ACTIONS: FarmActionType[] = [
+  'harvestCrop',
+  'boostCrop',
+  'upgradeCrop',
+  'gemUpgradeCrop',
+  'unlockCrop',
+  'feedAnimal',
+  'collectAnimalProduct',
+  'boostAnimal',
+  'upgradeAnimal',
+  'gemUpgradeAnimal',
+  'unlockAnimal'
+];
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isProductId = (value: unknown): value is ProductId => PRODUCT_IDS.includes(value as ProductId);
+const isCropType = (value: unknown): value is CropType => CROP_TYPES.includes(value as CropType);
+const isAnimalType = (value: unknown): value is AnimalType => ANIMAL_TYPES.includes(value as AnimalType);
+
+function parseBasket(value: unknown): SellBasket | null {
+  if (!value || typeof value !== 'object') return null;
+  const basket: SellBasket = {};
+  for (const [id, amount] of Object.entries(value)) {
+    if (!isProductId(id) || !isAmount(amount)) return null;
+    basket[id] = amount;
+  }
+  return basket;
+}
+
+/** Проверить действие из запроса: неизвестный тип или неверные параметры → null. */
+export function parseFarmAction(value: unknown): FarmAction | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  const type = raw.type as FarmActionType;
+
+  if (SLOT_ACTIONS.includes(type)) {
+    return isString(raw.slotId) ? ({ type, slotId: raw.slotId } as FarmAction) : null;
+  }
+  switch (type) {
+    case 'plantCrop':
+      if (!isString(raw.slotId)) return null;
+      if (raw.crop === undefined) return { type, slotId: raw.slotId };
+      return isCropType(raw.crop) ? { type, slotId: raw.slotId, crop: raw.crop } : null;
+    case 'plantAll':
+      if (raw.crop === undefined) return { type };
+      return isCropType(raw.crop) ? { type, crop: raw.crop } : null;
+    case 'unlockSeeds':
+      return isCropType(raw.crop) ? { type, crop: raw.crop } : null;
+    case 'buySeeds':
+      return isCropType(raw.crop) && isAmount(raw.amount) && Number.isInteger(raw.amount) && raw.amount > 0
+        ? { type, crop: raw.crop, amount: raw.amount }
+        : null;
+    case 'buyPen':
+      return isAnimalType(raw.animal) ? { type, animal: raw.animal } : null;
+    case 'sellResources': {
+      const basket = parseBasket(raw.basket);
+      return basket ? { type, basket } : null;
+    }
+    case 'setSellReserve':
+      return isProductId(raw.product) && isAmount(raw.amount) ? { type, product: raw.product, amount: raw.amount } : null;
+    case 'buyFeed':
+      return isString(raw.packId) ? { type, packId: raw.packId } : null;
+    case 'unlockBuilding':
+    case 'collectProduction':
+      return isString(raw.buildingId) ? { type, buildingId: raw.buildingId } : null;
+    case 'startRecipe':
+      return isString(raw.buildingId) && isString(raw.recipeId)
+        ? { type, buildingId: raw.buildingId, recipeId: raw.recipeId }
+        : null;
+    case 'claimAchievement':
+      return isString(raw.id) ? { type, id: raw.id } : null;
+    case 'claimWeeklyReward':
+      return isAmount(raw.tier) && Number.isInteger(raw.tier) ? { type, tier: raw.tier } : null;
+    case 'claimQuest':
+    case 'rerollQuest':
+      return isAmount(raw.index) && Number.isInteger(raw.index) ? { type, index: raw.index } : null;
+    case 'setUtcOffset':
+      return typeof raw.minutes === 'number' && Number.isInteger(raw.minutes) ? { type, minutes: raw.minutes } : null;
+    case 'buyPlot':
+    case 'claimQuestChest':
+    case 'harvestAll':
+    case 'feedAll':
+    case 'collectAll':
+    case 'sellProduce':
+    case 'exchangeGemsToCoins':
+    case 'exchangeCoinsToGems':
+    case 'buyAutoCollectPerk':
+      return { type };
+    default:
+      return null;
+  }
+}
+
+let actionCounter = 0;
+
+export function createActionId(): string {
+  actionCounter += 1;
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}-${actionCounter}`;
+}
+
+/**
+ * Переприменить неподтверждённые действия поверх нового состояния сервера.
+ * Действия, которые на новом состоянии невозможны (слот уже собран, не хватает монет), отбрасываются.
+ * Ревизия растёт на 1 за каждое действие — так же, как её увеличит сервер, применив их.
+ */
+export function rebaseActions(
+  base: GameState,
+  envelopes: FarmActionEnvelope[],
+  now: number = Date.now()
+): { state: GameState; kept: FarmActionEnvelope[]; dropped: FarmActionEnvelope[] } {
+  let state = base;
+  const kept: FarmActionEnvelope[] = [];
+  const dropped: FarmActionEnvelope[] = [];
+  for (const envelope of envelopes) {
+    const next = applyFarmAction(state, envelope.action, now);
+    if (next === state) {
+      dropped.push(envelope);
+      continue;
+    }
+    state = { ...next, revision: (state.revision ?? 0) + 1 };
+    kept.push(envelope);
+  }
+  return { state, kept, dropped };
+}
+
+/**
+ * Применить пачку действий по порядку. Редьюсеры возвращают тот же объект, если действие невозможно
+ * (не хватает монет, таймер не готов) — такое действие отклоняется, остальные продолжают применяться.
+ */
+export function applyFarmActions(
+  state: GameState,
+  envelopes: FarmActionEnvelope[],
+  now: number = Date.now()
+): { state: GameState; results: FarmActionResult[] } {
+  let current = state;
+  const results: FarmActionResult[] = [];
+  for (const { id, action } of envelopes) {
+    const next = applyFarmAction(current, action, now);
+    if (next === current) {
+      results.push({ id, ok: false, error: 'rejected' });
+      continue;
+    }
+    current = next;
+    results.push({ id, ok: true });
+  }
+  return { state: current, results };
+}
@@ -1,26 +1,63 @@
 import type { GameState } from './gameTypes';
+import type { EconomyOverride } from './economy';
+import type { FarmActionEnvelope, FarmActionResult } from './actions';
+import type { ReminderItem, ReminderSettings } from './reminders';
+import type { LegacyAchievements } from './legacyAchievements';
+import { getTelegramInitData } from './telegram';
 
 const BASE = import.meta.env.VITE_API_URL || '';
 
+/** Адрес backend из VITE_API_URL; пустая строка — игра работает без сервера */
+export const API_BASE = BASE;
+
+/**
+ * Заголовки авторизации: подписанный Telegram initData. Сервер проверяет подпись и сам определяет игрока,
+ * userId в запросах учитывается только в dev-режиме backend.
+ */
+export function getAuthHeaders(extra: Record<string, string> = {}): Record<string, string> {
+  const initData = getTelegramInitData();
+  return initData ? { ...extra, 'X-Telegram-Init-Data': initData } : extra;
+}
+
 /** Ответ GET /api/me — единственный источник истины для game state (гемы, монеты, слоты). */
 export interface MeResponse {
   id: string;
   level: number;
+  xp?: number;
   resources: GameState['resources'];
   crops: GameState['crops'];
+  seeds?: GameState['seeds'];
+  unlockedCrops?: GameState['unlockedCrops'];
   animals: GameState['animals'];
+  buildings?: GameState['buildings'];
   revision?: number;
   referrerId?: string | null;
   referrerUsername?: string | null;
   username?: string | null;
+  sellReserve?: GameState['sellReserve'];
+  marketPressure?: GameState['marketPressure'];
+  perks?: GameState['perks'];
+  utcOffsetMinutes?: number;
+  utcOffsetChangedAt?: number;
+  weeklyGoals?: GameState['weeklyGoals'];
+  dailyQuests?: GameState['dailyQuests'];
+  stats?: GameState['stats'];
+  achievements?: GameState['achievements'];
 }
 
 export interface FarmStateResponse {
   state: GameState & { referrerId?: string | null; referrerUsername?: string | null; username?: string | null };
 }
 
-export interface SyncResponse {
-  state: Pick<GameState, 'level' | 'resources' | 'crops' | 'animals'>;
+/**
+ * Ответ POST /api/farm/action: состояние после применения действий сервером и итог по каждому действию.
+ * conflict — ревизия клиента устарела (ферму изменили на другом устройстве), действия не применены,
+ * в state — текущее состояние сервера.
+ */
+export interface FarmActionResponse {
+  state: GameState;
+  results: FarmActionResult[];
+  conflict?: boolean;
 }
 
 /** Запросить актуальное состояние игрока с сервера. Без этого фронт не узнает об изменении баланса после оплаты. */
@@ -28,6 +65,7 @@ export async function getMe(userId: string): Promise<MeResponse | null> {
   if (!BASE) return null;
   try {
     const res = await fetch(`${BASE}/api/me?userId=${encodeURIComponent(userId)}`, {
+      headers: getAuthHeaders(),
       credentials: 'include'
     });
     if (!res.ok) return null;
@@ -41,6 +79,7 @@ export async function getFarm(userId: string): Promise<FarmStateResponse | null>
   if (!BASE) return null;
   try {
     const res = await fetch(`${BASE}/api/farm?userId=${encodeURIComponent(userId)}`, {
+      headers: getAuthHeaders(),
       credentials: 'include'
     });
     if (!res.ok) return null;
@@ -51,15 +90,29 @@ export async function getFarm(userId: string): Promise<FarmStateResponse | null>
   }
 }
 
-export async function syncFarm(userId: string, state: GameState, username?: string | null): Promise<SyncResponse | null> {
+export function getFarmActionUrl(): string {
+  return `${BASE}/api/farm/action`;
+}
+
+/**
+ * Отправить действия игрока. Сервер сам применяет их теми же редьюсерами — клиентскому состоянию он не доверяет.
+ * baseRevision — ревизия серверного состояния, поверх которого клиент применил действия.
+ */
+export async function postFarmActions(
+  userId: string,
+  actions: FarmActionEnvelope[],
+  baseRevision: number,
+  username?: string | null
+): Promise<FarmActionResponse | null> {
   if (!BASE) return null;
   try {
-    const res = await fetch(`${BASE}/api/farm/sync`, {
+    const res = await fetch(getFarmActionUrl(), {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
-      body: JSON.stringify({ userId, state, username: username ?? undefined })
+      body: JSON.stringify({ userId, actions, baseRevision, username: username ?? undefined })
     });
+    if (res.status === 409) return { ...(await res.json()), conflict: true };
     if (!res.ok) return null;
     const data = await res.json();
     return data;
@@ -68,12 +121,56 @@ export async function syncFarm(userId: string, state: GameState, username?: stri
   }
 }
 
+/** Подписанный сервером код резервной копии фермы. */
+export async function exportFarm(userId: string): Promise<{ code: string } | null> {
+  if (!BASE) return null;
+  try {
+    const res = await fetch(`${BASE}/api/farm/export`, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ userId })
+    });
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+export interface FarmImportResponse {
+  ok: boolean;
+  /** Чья ферма восстановлена (админ может восстановить чужую) */
+  userId?: string;
+  state?: GameState;
+  error?: string;
+}
+
+/** Восстановить ферму из кода или файла копии. Сервер проверяет подпись и права. */
+export async function importFarm(userId: string, code: string): Promise<FarmImportResponse | null> {
+  if (!BASE) return null;
+  try {
+    const res = await fetch(`${BASE}/api/farm/import`, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ userId, code })
+    });
+    // Текст ошибки (чужая копия, неверная подпись) показываем игроку
+    const data = await res.json().catch(() => null);
+    if (!res.ok) return (data as FarmImportResponse) || { ok: false, error: `HTTP ${res.status}` };
+    return data as FarmImportResponse;
+  } catch {
+    return null;
+  }
+}
+
 export async function bindReferral(userId: string, referrerId: string): Promise<boolean> {
   if (!BASE) return false;
   try {
     const res = await fetch(`${BASE}/api/referral/bind`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ userId, referrerId })
     });
@@ -83,6 +180,22 @@ export async function bindReferral(userId: string, referrerId: string): Promise<
   }
 }
 
+/** Перенести прогресс прежней «Цели» на сервер; true — сервер его принял (или перенёс раньше). */
+export async function importLegacyAchievements(userId: string, legacy: LegacyAchievements): Promise<boolean> {
+  if (!BASE) return false;
+  try {
+    const res = await fetch(`${BASE}/api/achievements/legacy`, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ userId, ...legacy })
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
 export interface ReferralStats {
   referredCount: number;
   rewardsGems: number;
@@ -92,6 +205,7 @@ export async function getReferralStats(userId: string): Promise<ReferralStats |
   if (!BASE) return null;
   try {
     const res = await fetch(`${BASE}/api/referral/stats?userId=${encodeURIComponent(userId)}`, {
+      headers: getAuthHeaders(),
       credentials: 'include'
     });
     if (!res.ok) return null;
@@ -124,7 +238,7 @@ export async function claimDailyReward(userId: string): Promise<DailyClaimResult
   try {
     const res = await fetch(`${BASE}/api/daily/claim`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ userId })
     });
@@ -135,6 +249,71 @@ export async function claimDailyReward(userId: string): Promise<DailyClaimResult
   }
 }
 
+/** Override каталога экономики (цены, таймеры, апгрейды) — дизайнеры правят баланс без редеплоя. */
+export async function getEconomyConfig(): Promise<EconomyOverride | null> {
+  if (!BASE) return null;
+  try {
+    const res = await fetch(`${BASE}/api/economy`, { credentials: 'include' });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data && typeof data === 'object' ? (data as EconomyOverride) : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface RemindersResponse {
+  settings: ReminderSettings;
+  /** Сколько событий сейчас запланировано */
+  scheduled?: number;
+}
+
+export async function getReminderSettings(userId: string): Promise<RemindersResponse | null> {
+  if (!BASE) return null;
+  try {
+    const res = await fetch(`${BASE}/api/reminders?userId=${encodeURIComponent(userId)}`, {
+      headers: getAuthHeaders(),
+      credentials: 'include'
+    });
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+export async function saveReminderSettings(userId: string, settings: Partial<ReminderSettings>): Promise<RemindersResponse | null> {
+  if (!BASE) return null;
+  try {
+    const res = await fetch(`${BASE}/api/reminders/settings`, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ userId, ...settings })
+    });
+    if (!res.ok) return null;
+    return await res.json();
+  } catch {
+    return null;
+  }
+}
+
+/** Предстоящие события фермы для напоминаний бота; заменяет прежний список на сервере. */
+export async function scheduleReminders(userId: string, items: ReminderItem[]): Promise<boolean> {
+  if (!BASE) return false;
+  try {
+    const res = await fetch(`${BASE}/api/reminders/schedule`, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ userId, items })
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
 export interface GemPackage {
   id: string;
   gems: number;
@@ -177,7 +356,7 @@ export async function createInvoice(userId: string, packageId: string): Promise<
   try {
     const res = await fetch(`${BASE}/api/payments/create-invoice`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ userId, packageId })
     });
@@ -193,7 +372,7 @@ export async function createCustomInvoice(userId: string, gems: number): Promise
   try {
     const res = await fetch(`${BASE}/api/payments/create-custom-invoice`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ userId, gems })
     });
@@ -218,7 +397,7 @@ export async function confirmPaid(
   try {
     const res = await fetch(`${BASE}/api/payments/confirm-paid`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ userId, ...payload })
     });
@@ -261,7 +440,7 @@ export async function adminReward(
   try {
     const res = await fetch(`${BASE}/api/admin/reward`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
       credentials: 'include',
       body: JSON.stringify({ adminId, targetUserId, resource, amount })
     });
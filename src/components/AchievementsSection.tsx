@@ -0,0 +1,69 @@
+import React from 'react';
+import { getAchievementProgress, getAchievements } from '../achievements';
+import { useGameSession, useGameState } from '../useGameSession';
+
+// Галерея достижений: звёзды — забранные ступени, у достигнутой ступени кнопка награды.
+export const AchievementsSection: React.FC = () => {
+  const session = useGameSession();
+  const state = useGameState();
+  const achievements = getAchievements().map((achievement) => ({ achievement, progress: getAchievementProgress(state, achievement) }));
+  const ready = achievements.filter(({ progress }) => progress.canClaim).length;
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        borderRadius: 14,
+        background: 'var(--app-card)',
+        border: '1px solid rgba(34,197,94,0.4)',
+        fontSize: 13,
+        marginBottom: 10
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 8 }}>
+        <span style={{ fontWeight: 600 }}>🏅 Достижения</span>
+        {ready > 0 && <span style={{ color: '#22c55e', fontSize: 11 }}>наград ждут: {ready}</span>}
+      </div>
+      <div className="badge-grid">
+        {achievements.map(({ achievement, progress }) => {
+          const { value, claimed, reached, next, canClaim } = progress;
+          return (
+            <div
+              key={achievement.id}
+              className={`badge ${reached === 0 ? 'locked' : ''} ${canClaim ? 'ready' : ''}`}
+              title={achievement.description}
+            >
+              <span className="badge-icon">{achievement.icon}</span>
+              <span style={{ fontWeight: 600 }}>{achievement.title}</span>
+              <span className="badge-tiers">
+                {'★'.repeat(claimed)}
+                {'☆'.repeat(achievement.tiers.length - claimed)}
+              </span>
+              {next ? (
+                <>
+                  <span style={{ color: 'var(--app-hint)' }}>
+                    {Math.min(value, next.target).toLocaleString('ru-RU')}/{next.target.toLocaleString('ru-RU')}
+                  </span>
+                  {canClaim && (
+                    <button
+                      type="button"
+                      className="btn btn-primary"
+                      onClick={() => session.dispatch({ type: 'claimAchievement', id: achievement.id })}
+                      style={{ marginTop: 2, padding: '4px 0', fontSize: 10 }}
+                    >
+                      {next.coins > 0 && `${next.coins} 🪙`}
+                      {next.coins > 0 && next.gems > 0 && ' + '}
+                      {next.gems > 0 && `${next.gems} 💎`}
+                    </button>
+                  )}
+                </>
+              ) : (
+                <span style={{ color: '#22c55e' }}>Все ступени</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React from 'react';
+import type { AnimalType, CropType, DailyQuest } from '../gameTypes';
+import { getEconomy, type ProductId } from '../economy';
+import { formatAway } from '../format';
+import { canClaimQuestChest, getDailyQuests, isQuestDone } from '../dailyQuests';
+import { useGameSession, useGameState, useNow } from '../useGameSession';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function describeQuest(quest: DailyQuest): string {
+  const economy = getEconomy();
+  switch (quest.kind) {
+    case 'harvest': {
+      const crop = economy.crops[quest.subject as CropType];
+      return `Собери ${quest.target} ${crop?.icon ?? ''}`;
+    }
+    case 'collect': {
+      const animal = economy.animals[quest.subject as AnimalType];
+      const product = animal ? economy.products[animal.product] : null;
+      return `Забери ${product?.icon ?? ''} у ${animal?.icon ?? ''} ${quest.target} раз`;
+    }
+    case 'feed':
+      return `Покорми ${economy.animals[quest.subject as AnimalType]?.icon ?? ''} ${quest.target} раз`;
+    case 'sell':
+      return `Продай ${quest.target} ${economy.products[quest.subject as ProductId]?.icon ?? ''}`;
+    case 'boost':
+      return quest.target > 1 ? `Ускорь таймеры ${quest.target} раз` : 'Ускорь любой таймер';
+    case 'craft':
+      return `Забери продукцию из цеха ${quest.target} раз`;
+    default:
+      return quest.kind;
+  }
+}
+
+// Доска заданий дня: награда за каждое задание, замена за гемы и сундук за неделю закрытых дней.
+export const DailyQuestsSection: React.FC = () => {
+  const session = useGameSession();
+  const state = useGameState();
+  const now = useNow(60_000);
+  const { rerollGems, chest } = getEconomy().dailyQuests;
+  const daily = getDailyQuests(state, now);
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        borderRadius: 14,
+        background: 'var(--app-card)',
+        border: '1px solid rgba(148,163,184,0.4)',
+        fontSize: 13,
+        marginBottom: 10
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 8 }}>
+        <span style={{ fontWeight: 600 }}>📋 Задания дня</span>
+        <span style={{ color: 'var(--app-hint)', fontSize: 11 }}>новые через {formatAway(daily.dayStart + DAY - now)}</span>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {daily.quests.map((quest, index) => {
+          const done = isQuestDone(quest);
+          return (
+            <div key={`${quest.kind}-${quest.subject ?? ''}`}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
+                <span style={{ flex: 1, opacity: quest.claimed ? 0.6 : 1 }}>{describeQuest(quest)}</span>
+                {quest.claimed ? (
+                  <span>✅</span>
+                ) : done ? (
+                  <button
+                    type="button"
+                    className="btn btn-primary"
+                    onClick={() => session.dispatch({ type: 'claimQuest', index })}
+                    style={{ width: 'auto', marginTop: 0, padding: '4px 10px', fontSize: 10 }}
+                  >
+                    +{quest.coins} 🪙
+                  </button>
+                ) : (
+                  <>
+                    <span style={{ color: 'var(--app-hint)', fontSize: 11 }}>
+                      {quest.progress}/{quest.target}
+                    </span>
+                    <button
+                      type="button"
+                      className="btn btn-secondary"
+                      onClick={() => session.dispatch({ type: 'rerollQuest', index })}
+                      disabled={state.resources.gems < rerollGems}
+                      title={`Заменить задание за ${rerollGems} 💎`}
+                      style={{ width: 'auto', marginTop: 0, padding: '4px 8px', fontSize: 10 }}
+                    >
+                      🔄 {rerollGems}💎
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="progress-bar">
+                <div className="progress-fill" style={{ width: `${Math.min(1, quest.progress / quest.target) * 100}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ marginTop: 10, fontSize: 12 }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span>🎁 Сундук недели: дни со всеми заданиями</span>
+          <span style={{ fontWeight: 600 }}>{daily.chestClaimed ? '✅' : `${Math.min(daily.fullDays, chest.days)}/${chest.days}`}</span>
+        </div>
+        <div className="progress-bar">
+          <div className="progress-fill" style={{ width: `${Math.min(1, daily.fullDays / chest.days) * 100}%` }} />
+        </div>
+        {canClaimQuestChest(daily, now) && (
+          <button type="button" className="btn btn-primary" onClick={() => session.dispatch({ type: 'claimQuestChest' })}>
+            Открыть: {chest.coins} 🪙 + {chest.gems} 💎
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
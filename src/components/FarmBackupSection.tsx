@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { API_BASE, exportFarm, importFarm } from '../api';
+import {
+  createFarmExportPayload,
+  decodeFarmExport,
+  diffFarmStates,
+  encodeFarmExport,
+  farmExportCodeToFile,
+  FarmExportError,
+  LOCAL_EXPORT_KEY,
+  restoreFarmState,
+  type FarmDiffLine,
+  type FarmExportPayload
+} from '../farmExport';
+import { useGameSession } from '../useGameSession';
+import { useBackButton } from '../useTelegramUi';
+
+interface FarmBackupSectionProps {
+  isAdmin: boolean;
+}
+
+interface ImportPreview {
+  text: string;
+  payload: FarmExportPayload;
+  /** null — копия другого игрока (восстанавливает админ), сравнивать не с чем */
+  lines: FarmDiffLine[] | null;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid rgba(148,163,184,0.6)',
+  fontSize: 11,
+  background: 'var(--app-card)',
+  color: 'var(--app-text-soft)',
+  fontFamily: 'monospace',
+  resize: 'vertical'
+};
+
+// Резервная копия фермы: код для чата или JSON-файл, восстановление — с предпросмотром изменений.
+export const FarmBackupSection: React.FC<FarmBackupSectionProps> = ({ isAdmin }) => {
+  const session = useGameSession();
+  const [exportCode, setExportCode] = useState<string | null>(null);
+  const [importText, setImportText] = useState('');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  useBackButton(preview ? () => setPreview(null) : null);
+
+  const errorText = (err: unknown) => (err instanceof FarmExportError ? err.message : 'Не получилось, попробуй ещё раз');
+
+  const handleExport = async () => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      if (API_BASE) {
+        // Код подписывает сервер — сначала отправляем неподтверждённые действия, чтобы они попали в копию
+        await session.flush();
+        const res = await exportFarm(session.userId);
+        if (!res?.code) throw new FarmExportError('Сервер не выдал копию, попробуй позже');
+        setExportCode(res.code);
+      } else {
+        const payload = createFarmExportPayload(session.userId, session.getState(), Date.now());
+        setExportCode(await encodeFarmExport(payload, LOCAL_EXPORT_KEY));
+      }
+    } catch (err) {
+      setMessage(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!exportCode) return;
+    try {
+      await navigator.clipboard.writeText(exportCode);
+      setMessage('Код скопирован');
+    } catch {
+      setMessage('Скопируй код из поля вручную');
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!exportCode) return;
+    try {
+      const file = await farmExportCodeToFile(exportCode);
+      const url = URL.createObjectURL(new Blob([file], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `farm-${session.userId}-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (err) {
+      setMessage(errorText(err));
+    }
+  };
+
+  const openPreview = async (text: string) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      // С сервером подпись проверяет он сам, здесь — только разбор для предпросмотра
+      const payload = await decodeFarmExport(text, API_BASE ? null : LOCAL_EXPORT_KEY);
+      const own = payload.userId === session.userId;
+      if (!own && !isAdmin) throw new FarmExportError('Это копия другого игрока');
+      const current = session.getState();
+      const next = restoreFarmState(current, payload.state, { keepGems: !!API_BASE && !isAdmin });
+      setPreview({ text, payload, lines: own ? diffFarmStates(current, next) : null });
+    } catch (err) {
+      setMessage(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) openPreview(await file.text());
+  };
+
+  const handleRestore = async () => {
+    if (!preview) return;
+    const { payload, text } = preview;
+    const own = payload.userId === session.userId;
+    setBusy(true);
+    try {
+      if (API_BASE) {
+        await session.flush();
+        const res = await importFarm(session.userId, text);
+        if (!res?.ok) throw new FarmExportError(res?.error ?? 'Сервер не принял копию, попробуй позже');
+        await session.refresh();
+      } else {
+        session.patchState((current) => restoreFarmState(current, payload.state, { keepGems: false }));
+      }
+      setMessage(own ? 'Ферма восстановлена' : `Ферма игрока ${payload.userId} восстановлена`);
+      setPreview(null);
+      setImportText('');
+    } catch (err) {
+      setMessage(errorText(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        borderRadius: 14,
+        background: 'var(--app-card)',
+        border: '1px solid rgba(148,163,184,0.4)',
+        fontSize: 12,
+        marginBottom: 10
+      }}
+    >
+      <div style={{ marginBottom: 4, fontWeight: 600 }}>Резервная копия</div>
+      <div style={{ color: 'var(--app-hint)', fontSize: 11, marginBottom: 8 }}>
+        Сохрани ферму кодом или файлом, чтобы восстановить её или перенести на другое устройство.
+      </div>
+
+      <button type="button" className="btn btn-secondary" onClick={handleExport} disabled={busy}>
+        Сделать копию
+      </button>
+      {exportCode && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 8 }}>
+          <textarea readOnly value={exportCode} rows={3} style={inputStyle} onFocus={(e) => e.target.select()} />
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button type="button" className="btn btn-secondary" onClick={handleCopy} style={{ flex: 1 }}>
+              Скопировать код
+            </button>
+            <button type="button" className="btn btn-secondary" onClick={handleDownload} style={{ flex: 1 }}>
+              Скачать файл
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 12 }}>
+        <textarea
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          rows={3}
+          placeholder="Вставь код копии FARM1…"
+          style={inputStyle}
+        />
+        <div style={{ display: 'flex', gap: 6 }}>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => openPreview(importText)}
+            disabled={busy || !importText.trim()}
+            style={{ flex: 1 }}
+          >
+            Восстановить из кода
+          </button>
+          <label className="btn btn-secondary" style={{ flex: 1, textAlign: 'center', cursor: 'pointer' }}>
+            Из файла
+            <input type="file" accept=".json,application/json" onChange={handleFile} style={{ display: 'none' }} />
+          </label>
+        </div>
+      </div>
+
+      {message && <div style={{ fontSize: 11, color: 'var(--app-hint)', marginTop: 8 }}>{message}</div>}
+
+      {preview && (
+        <div className="modal-backdrop" onClick={() => setPreview(null)}>
+          <div className="modal" onClick={(e) => e.stopPropagation()}>
+            <div className="section-title" style={{ marginBottom: 4 }}>Восстановить ферму?</div>
+            <div className="section-caption" style={{ marginBottom: 8 }}>
+              Копия от {new Date(preview.payload.exportedAt).toLocaleString('ru-RU')}
+              {preview.lines === null && ` · игрок ${preview.payload.userId}`}
+            </div>
+            {preview.lines === null ? (
+              <div style={{ fontSize: 12 }}>Ферма игрока будет заменена копией целиком.</div>
+            ) : preview.lines.length === 0 ? (
+              <div style={{ fontSize: 12 }}>Ферма совпадает с копией — ничего не изменится.</div>
+            ) : (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12, maxHeight: 240, overflowY: 'auto' }}>
+                {preview.lines.map((line) => (
+                  <div key={line.label} style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                    <span>{line.label}</span>
+                    <span>
+                      <span style={{ color: 'var(--app-hint)' }}>{line.before}</span> → <strong>{line.after}</strong>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {API_BASE && !isAdmin && (
+              <div style={{ fontSize: 11, color: 'var(--app-hint)', marginTop: 8 }}>
+                Гемы не откатываются — остаётся текущий баланс. Копия восстанавливается один раз и только если после неё гемы не
+                тратились и не обменивались.
+              </div>
+            )}
+            <div style={{ display: 'flex', gap: 6, marginTop: 10 }}>
+              <button type="button" className="btn btn-secondary" onClick={() => setPreview(null)} style={{ flex: 1 }}>
+                Отмена
+              </button>
+              <button type="button" className="btn btn-primary" onClick={handleRestore} disabled={busy} style={{ flex: 1 }}>
+                Восстановить
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
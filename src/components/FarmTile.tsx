@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import type { AnimalSlot, AnimalType, CropSlot, CropType } from '../gameTypes';
+import { getSlotDurationMinutes, getSlotYield, getTimerProgress, isSlotMaxLevel, isTimerReady } from '../gameLogic';
+import { getEconomy } from '../economy';
+import { formatTimer, getRemainingMs } from '../format';
+
+export interface FarmTileProps {
+  slot: CropSlot | AnimalSlot;
+  kind: 'crop' | 'animal';
+  onAction: () => void;
+  onBoost: () => void;
+  onUpgrade: () => void;
+  onGemUpgrade: () => void;
+  canBoost: boolean;
+  canUpgrade: boolean;
+  canGemUpgrade: boolean;
+  boostCost: number;
+  upgradeCost: number;
+  gemUpgradeLevel: number;
+  maxGemUpgradeLevel: number;
+  gemUpgradePrice: number;
+}
+
+export const FarmTile: React.FC<FarmTileProps> = ({
+  slot,
+  kind,
+  onAction,
+  onBoost,
+  onUpgrade,
+  onGemUpgrade,
+  canBoost,
+  canUpgrade,
+  canGemUpgrade,
+  boostCost,
+  upgradeCost,
+  gemUpgradeLevel,
+  maxGemUpgradeLevel,
+  gemUpgradePrice
+}) => {
+  const [showHint, setShowHint] = useState(false);
+  const ready = isTimerReady(slot.timer);
+  const progress = slot.timer ? getTimerProgress(slot.timer) : 0;
+  const remaining = slot.timer ? getRemainingMs(slot.timer) : 0;
+
+  const isCrop = kind === 'crop';
+  const hintText = isCrop
+    ? 'Семена новых растений открываются с ростом уровня фермы — опыт дают посадка, сбор и продажа урожая.'
+    : 'Новые животные открываются с ростом уровня фермы — опыт дают кормление, сбор продукции и продажа.';
+
+  const { title, icon, yieldText } = isCrop
+    ? getEconomy().crops[slot.type as CropType]
+    : getEconomy().animals[slot.type as AnimalType];
+
+  const actionLabel = !slot.timer
+    ? isCrop
+      ? 'Посадить'
+      : 'Покормить'
+    : ready
+      ? 'Собрать'
+      : 'Идёт рост';
+
+  const showBoost = slot.timer && !ready && boostCost > 0;
+  const harvestsSinceLevel = slot.harvestsSinceLevel ?? 0;
+  const { harvestsPerLevel } = getEconomy().slotLevels;
+  const atMaxLevel = isSlotMaxLevel(slot);
+  const slotYield = getSlotYield(slot);
+  const durationMinutes = getSlotDurationMinutes(kind, slot);
+
+  return (
+    <div className={`tile ${isCrop ? 'vegetable' : 'animal'}`}>
+      <div className={`tile-inner ${showHint ? 'is-flipped' : ''}`}>
+        {/* Передняя сторона — исходная карточка, как на скрине */}
+        <div className="tile-face tile-face-front">
+          <div className="tile-header">
+            <span className="tile-name">
+              {title}
+            </span>
+            <span className="tile-level">Ур. {slot.level}</span>
+          </div>
+          <div className="tile-main">
+            <span className="tile-icon">{icon}</span>
+            <div className="tile-yield">
+              <div>Выход: ×{slotYield} {yieldText}</div>
+              <div style={{ fontSize: 11, color: 'var(--app-hint)' }}>
+                Время: {formatTimer(durationMinutes * 60 * 1000)}
+              </div>
+              <div style={{ fontSize: 11, color: 'var(--app-hint)' }}>
+                {atMaxLevel ? 'Максимальный уровень' : `До след. уровня: ${harvestsSinceLevel}/${harvestsPerLevel} сборов`}
+              </div>
+              {slot.timer && (
+                <div className="tile-timer">
+                  {ready ? 'Готово к сбору' : `Осталось: ${formatTimer(remaining)}`}
+                  <div className="progress-bar">
+                    <div className="progress-fill" style={{ width: `${progress * 100}%` }} />
+                  </div>
+                </div>
+              )}
+              {!slot.timer && <div className="tile-timer">Ожидает действия</div>}
+            </div>
+          </div>
+          <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+            <button
+              className="btn btn-secondary"
+              type="button"
+              onClick={onAction}
+              style={{ flex: 1 }}
+            >
+              {actionLabel}
+            </button>
+            {showBoost && (
+              <button
+                className="btn btn-primary"
+                type="button"
+                onClick={onBoost}
+                disabled={!canBoost}
+                style={{ fontSize: 10, padding: '6px 8px' }}
+                title={canBoost ? `Ускорить за ${boostCost} 💎` : 'Не хватает гемов'}
+              >
+                ⚡ {boostCost}💎
+              </button>
+            )}
+            <button
+              className="btn btn-secondary"
+              type="button"
+              onClick={onUpgrade}
+              disabled={!canUpgrade || atMaxLevel}
+              style={{ fontSize: 10, padding: '6px 8px', width: 'auto', opacity: canUpgrade && !atMaxLevel ? 1 : 0.5 }}
+              title={atMaxLevel ? 'Максимальный уровень' : `Улучшить до ур. ${slot.level + 1} за ${upgradeCost} 🪙`}
+            >
+              {atMaxLevel ? '⬆ Макс.' : `⬆ ${upgradeCost}🪙`}
+            </button>
+          </div>
+          <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+            {maxGemUpgradeLevel > 0 && (
+              <button
+                className="btn btn-secondary"
+                type="button"
+                onClick={onGemUpgrade}
+                disabled={!canGemUpgrade || gemUpgradeLevel >= maxGemUpgradeLevel}
+                style={{ fontSize: 10, opacity: canGemUpgrade && gemUpgradeLevel < maxGemUpgradeLevel ? 1 : 0.5 }}
+              >
+                💎 Ур.{gemUpgradeLevel}/{maxGemUpgradeLevel} — {gemUpgradePrice} 💎
+              </button>
+            )}
+            {maxGemUpgradeLevel > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowHint(true)}
+                style={{
+                  fontSize: 10,
+                  color: 'var(--app-hint)',
+                  marginLeft: 4,
+                  alignSelf: 'center',
+                  width: 20,
+                  height: 20,
+                  minWidth: 20,
+                  padding: 0,
+                  borderRadius: '50%',
+                  border: '1px solid rgba(148,163,184,0.5)',
+                  background: 'rgba(15,23,42,0.8)',
+                  cursor: 'pointer',
+                  lineHeight: 1,
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  justifyContent: 'center'
+                }}
+                title="Подсказка"
+              >
+                ?
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Обратная сторона — синий фон + текст подсказки и стрелка назад */}
+        <div className="tile-face tile-face-back">
+          <div
+            style={{
+              flex: 1,
+              display: 'flex',
+              flexDirection: 'column',
+              justifyContent: 'center',
+              alignItems: 'center',
+              textAlign: 'center',
+              fontSize: 11,
+              color: '#e2e8f0',
+              padding: '0 8px'
+            }}
+          >
+            <div>{hintText}</div>
+          </div>
+          <div style={{ display: 'flex', justifyContent: 'flex-end', padding: '0 6px 6px' }}>
+            <button
+              type="button"
+              onClick={() => setShowHint(false)}
+              style={{
+                fontSize: 10,
+                color: 'var(--app-hint)',
+                width: 22,
+                height: 22,
+                minWidth: 22,
+                padding: 0,
+                borderRadius: '50%',
+                border: '1px solid rgba(148,163,184,0.5)',
+                background: 'var(--app-card)',
+                cursor: 'pointer',
+                lineHeight: 1,
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center'
+              }}
+              title="Назад"
+            >
+              ↩
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { getEconomy } from '../economy';
+import { getLevelReward, getLevelUnlocks } from '../progression';
+import { useBackButton } from '../useTelegramUi';
+
+interface LevelUpModalProps {
+  level: number;
+  onClose: () => void;
+}
+
+export const LevelUpModal: React.FC<LevelUpModalProps> = ({ level, onClose }) => {
+  const economy = getEconomy();
+  const reward = getLevelReward(level);
+  const unlocks = getLevelUnlocks(level);
+  const unlockTitles = [
+    ...unlocks.crops.map((t) => `${economy.crops[t].icon} Семена «${economy.crops[t].title}»`),
+    ...unlocks.animals.map((t) => `${economy.animals[t].icon} ${economy.animals[t].title}`),
+    ...unlocks.buildings.map((t) => `${economy.buildings[t].icon} ${economy.buildings[t].title}`),
+    ...unlocks.recipes.map((id) => `📜 Рецепт «${economy.recipes[id].title}»`),
+    ...economy.feedPacks
+      .filter((p) => unlocks.feedPacks.includes(p.id))
+      .map((p) => `🥣 Корм по ${p.amount} шт.`)
+  ];
+  useBackButton(onClose);
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="section-title" style={{ marginBottom: 6 }}>🎉 Уровень фермы {level}!</div>
+        <div style={{ fontSize: 12, marginBottom: 6 }}>
+          Награда: {reward.coins} 🪙{reward.gems > 0 ? ` и ${reward.gems} 💎` : ''}
+        </div>
+        {unlockTitles.length > 0 && (
+          <div style={{ fontSize: 12, color: 'var(--app-hint)' }}>Открыто: {unlockTitles.join(', ')}</div>
+        )}
+        <button type="button" className="btn btn-primary" onClick={onClose} style={{ marginTop: 10 }}>
+          Продолжить
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { getEconomy, type ProductId } from '../economy';
+
+export interface MarketLineProps {
+  id: ProductId;
+  have: number;
+  reserve: number;
+  price: number;
+  selected: number;
+  income: number;
+  onSelect: (amount: number) => void;
+  onReserveChange: (amount: number) => void;
+}
+
+// Строка рынка: быстрый выбор количества (1 / 10 / всё / своё), резерв и превью дохода
+export const MarketLine: React.FC<MarketLineProps> = ({ id, have, reserve, price, selected, income, onSelect, onReserveChange }) => {
+  const { icon, title } = getEconomy().products[id];
+  const sellable = Math.max(0, have - reserve);
+  const inputStyle: React.CSSProperties = {
+    width: 52,
+    padding: '4px 6px',
+    borderRadius: 8,
+    border: '1px solid rgba(148,163,184,0.5)',
+    background: 'var(--app-card)',
+    color: 'var(--app-text-soft)',
+    fontSize: 11
+  };
+  const quickButton = (label: string, amount: number) => (
+    <button
+      type="button"
+      className="btn btn-secondary"
+      onClick={() => onSelect(Math.min(amount, sellable))}
+      disabled={sellable === 0}
+      style={{ width: 'auto', marginTop: 0, padding: '4px 8px', fontSize: 10 }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="market-line">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <span>
+          {icon} {title} <span style={{ color: 'var(--app-hint)' }}>· {price} 🪙/шт.</span>
+        </span>
+        <span style={{ color: 'var(--app-hint)', fontSize: 11 }}>
+          есть {have.toLocaleString('ru-RU')}{reserve > 0 ? ` · резерв ${reserve}` : ''}
+        </span>
+      </div>
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center', flexWrap: 'wrap', marginTop: 4 }}>
+        {quickButton('1', 1)}
+        {quickButton('10', 10)}
+        {quickButton('Всё', sellable)}
+        <input
+          type="number"
+          min={0}
+          max={sellable}
+          value={selected || ''}
+          placeholder="кол-во"
+          onChange={(e) => onSelect(Math.min(sellable, Math.max(0, Number(e.target.value) || 0)))}
+          style={inputStyle}
+        />
+        <span style={{ marginLeft: 'auto', fontSize: 11, fontWeight: 600 }}>
+          {selected > 0 ? `= ${income.toLocaleString('ru-RU')} 🪙` : ''}
+        </span>
+      </div>
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginTop: 4, fontSize: 10, color: 'var(--app-hint)' }}>
+        <span>Не продавать меньше:</span>
+        <input
+          type="number"
+          min={0}
+          value={reserve || ''}
+          placeholder="0"
+          onChange={(e) => onReserveChange(Number(e.target.value) || 0)}
+          style={inputStyle}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { getEconomy, type ProductId } from '../economy';
+import { formatAway } from '../format';
+import type { OfflineSummary } from '../offlineProgress';
+import { useBackButton } from '../useTelegramUi';
+
+interface OfflineSummaryModalProps {
+  summary: OfflineSummary;
+  onClose: () => void;
+}
+
+export const OfflineSummaryModal: React.FC<OfflineSummaryModalProps> = ({ summary, onClose }) => {
+  const economy = getEconomy();
+  useBackButton(onClose);
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" onClick={(e) => e.stopPropagation()}>
+        <div className="section-title" style={{ marginBottom: 4 }}>Пока тебя не было</div>
+        {summary.awayMs > 0 && (
+          <div className="section-caption" style={{ marginBottom: 8 }}>
+            Тебя не было {formatAway(summary.awayMs)}
+          </div>
+        )}
+        <div style={{ fontSize: 12, marginBottom: 6 }}>
+          {summary.autoCollected ? 'Автосбор собрал:' : 'Готово к сбору:'}
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+          {(Object.keys(summary.totals) as ProductId[]).map((id) => (
+            <div key={id} style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span>{economy.products[id].icon} {economy.products[id].title}</span>
+              <strong>×{summary.totals[id]}</strong>
+            </div>
+          ))}
+        </div>
+        <div style={{ fontSize: 11, color: 'var(--app-hint)', marginTop: 8 }}>
+          Грядок: {summary.items.filter((i) => i.kind === 'crop').length} · животных: {summary.items.filter((i) => i.kind === 'animal').length}
+        </div>
+        <button type="button" className="btn btn-primary" onClick={onClose} style={{ marginTop: 10 }}>
+          {summary.autoCollected ? 'Отлично' : 'К ферме'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { BOT_LINK } from '../telegram';
+import type { Reminders } from '../useReminders';
+
+interface ReminderSettingsSectionProps {
+  reminders: Reminders;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const selectStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  borderRadius: 6,
+  border: '1px solid rgba(148,163,184,0.6)',
+  fontSize: 12,
+  background: 'var(--app-card)',
+  color: 'var(--app-text-soft)'
+};
+
+// Настройки напоминаний от бота: включение и тихие часы.
+export const ReminderSettingsSection: React.FC<ReminderSettingsSectionProps> = ({ reminders }) => {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { settings } = reminders;
+  if (!settings) return null;
+
+  const save = async (patch: Parameters<Reminders['update']>[0]) => {
+    setSaving(true);
+    setError(null);
+    if (!(await reminders.update(patch))) setError('Не удалось сохранить, попробуй ещё раз');
+    setSaving(false);
+  };
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        borderRadius: 14,
+        background: 'var(--app-card)',
+        border: '1px solid rgba(148,163,184,0.4)',
+        fontSize: 12,
+        marginBottom: 10
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 4 }}>
+        <span style={{ fontWeight: 600 }}>🔔 Напоминания</span>
+        <button
+          type="button"
+          className={`btn ${settings.enabled ? 'btn-secondary' : 'btn-primary'}`}
+          onClick={() => save({ enabled: !settings.enabled })}
+          disabled={saving}
+          style={{ fontSize: 11 }}
+        >
+          {settings.enabled ? 'Выключить' : 'Включить'}
+        </button>
+      </div>
+      <div style={{ color: 'var(--app-hint)', fontSize: 11 }}>
+        Бот напишет, когда созреет урожай, животные дадут продукцию или цех закончит работу. Близкие события
+        придут одним сообщением. Если ещё не запускал бота — открой{' '}
+        <a href={BOT_LINK} target="_blank" rel="noreferrer" style={{ color: '#93c5fd' }}>
+          его
+        </a>{' '}
+        и нажми «Старт».
+      </div>
+      {settings.enabled && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 8 }}>
+          <span>Тихие часы с</span>
+          <select
+            value={settings.quietFromHour}
+            onChange={(e) => save({ quietFromHour: Number(e.target.value) })}
+            disabled={saving}
+            style={selectStyle}
+          >
+            {HOURS.map((hour) => (
+              <option key={hour} value={hour}>{`${hour}:00`}</option>
+            ))}
+          </select>
+          <span>до</span>
+          <select
+            value={settings.quietToHour}
+            onChange={(e) => save({ quietToHour: Number(e.target.value) })}
+            disabled={saving}
+            style={selectStyle}
+          >
+            {HOURS.map((hour) => (
+              <option key={hour} value={hour}>{`${hour}:00`}</option>
+            ))}
+          </select>
+        </div>
+      )}
+      {error && <div style={{ fontSize: 11, color: 'var(--app-destructive)', marginTop: 6 }}>{error}</div>}
+    </div>
+  );
+};
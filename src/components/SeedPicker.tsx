@@ -0,0 +1,72 @@
+import React from 'react';
+import type { CropType } from '../gameTypes';
+import { canUnlockCrop, getUnlockGemCost, getUnlockLevel, isCropUnlocked } from '../gameLogic';
+import { CROP_TYPES, getEconomy } from '../economy';
+import { useGameSession, useGameState } from '../useGameSession';
+
+interface SeedPickerProps {
+  selected: CropType;
+  onSelect: (crop: CropType) => void;
+}
+
+// Семена над грядками: выбор культуры для посадки, запас семян, открытие новых культур за гемы.
+export const SeedPicker: React.FC<SeedPickerProps> = ({ selected, onSelect }) => {
+  const session = useGameSession();
+  const state = useGameState();
+  const economy = getEconomy();
+  const { seedPackSize } = economy;
+  const packCost = economy.crops[selected].plantCost * seedPackSize;
+
+  return (
+    <div style={{ marginBottom: 8 }}>
+      <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+        {CROP_TYPES.map((type) => {
+          const { icon, title } = economy.crops[type];
+          if (isCropUnlocked(state, type)) {
+            return (
+              <button
+                key={type}
+                type="button"
+                className={`tab ${type === selected ? 'active' : ''}`}
+                onClick={() => onSelect(type)}
+                title={title}
+                style={{ flex: '0 0 auto', padding: '6px 10px' }}
+              >
+                {icon} {state.seeds?.[type] ?? 0}
+              </button>
+            );
+          }
+          const gems = getUnlockGemCost('crop', type);
+          const canUnlock = canUnlockCrop(type, state);
+          return (
+            <button
+              key={type}
+              type="button"
+              className="tab"
+              onClick={() => session.dispatch({ type: 'unlockSeeds', crop: type })}
+              disabled={!canUnlock || state.resources.gems < gems}
+              title={canUnlock ? `Открыть семена «${title}» за ${gems} 💎` : `Семена «${title}» — с ур. ${getUnlockLevel('crop', type)} фермы`}
+              style={{ flex: '0 0 auto', padding: '6px 10px', opacity: canUnlock ? 1 : 0.5 }}
+            >
+              {icon} 🔒 {canUnlock ? `${gems}💎` : `ур. ${getUnlockLevel('crop', type)}`}
+            </button>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11, color: 'var(--app-hint)', marginTop: 4 }}>
+        <span style={{ flex: 1 }}>
+          Без семян в запасе посадка стоит {economy.crops[selected].plantCost} 🪙
+        </span>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => session.dispatch({ type: 'buySeeds', crop: selected, amount: seedPackSize })}
+          disabled={state.resources.coins < packCost}
+          style={{ width: 'auto', marginTop: 0, padding: '4px 10px', fontSize: 10 }}
+        >
+          +{seedPackSize} {economy.crops[selected].icon} за {packCost} 🪙
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import type { AnimalType, CropType, WeeklyGoal } from '../gameTypes';
+import { getEconomy } from '../economy';
+import { formatDaysLeft } from '../format';
+import { useGameSession, useGameState, useNow } from '../useGameSession';
+import { canClaimWeeklyTier, getCompletedGoals, getWeeklyGoals, WEEK } from '../weeklyGoals';
+
+function describeGoal(goal: WeeklyGoal): string {
+  const economy = getEconomy();
+  switch (goal.kind) {
+    case 'harvest': {
+      const crop = economy.crops[goal.subject as CropType];
+      return crop ? `${crop.icon} Собрать урожай: ${crop.title}` : 'Собрать урожай';
+    }
+    case 'feed': {
+      const animal = economy.animals[goal.subject as AnimalType];
+      return animal ? `${animal.icon} Покормить: ${animal.title}` : 'Покормить животных';
+    }
+    case 'earn':
+      return '🪙 Заработать монет на рынке';
+    case 'craft':
+      return '🏭 Забрать продукцию из цеха';
+    default:
+      return goal.id;
+  }
+}
+
+// Недельные цели: прогресс хранится в ферме (и на сервере), неделя сбрасывается в день сброса по времени игрока.
+export const WeeklyGoalsSection: React.FC = () => {
+  const session = useGameSession();
+  const state = useGameState();
+  const now = useNow(60_000);
+  const weekly = getWeeklyGoals(state, now);
+  const completed = getCompletedGoals(weekly);
+  const { tiers } = getEconomy().weeklyGoals;
+
+  return (
+    <div
+      style={{
+        padding: 12,
+        borderRadius: 14,
+        background: 'var(--app-card)',
+        border: '1px solid rgba(148,163,184,0.4)',
+        fontSize: 13,
+        marginBottom: 10
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', marginBottom: 8 }}>
+        <span style={{ fontWeight: 600 }}>🗓 Цели недели</span>
+        <span style={{ color: 'var(--app-hint)', fontSize: 11 }}>
+          новые через {formatDaysLeft(weekly.weekStart + WEEK - now)}
+        </span>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {weekly.goals.map((goal) => (
+          <div key={goal.id}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 12 }}>
+              <span>{describeGoal(goal)}</span>
+              <span style={{ fontWeight: 600 }}>
+                {goal.progress >= goal.target ? '✅' : `${goal.progress.toLocaleString('ru-RU')}/${goal.target.toLocaleString('ru-RU')}`}
+              </span>
+            </div>
+            <div className="progress-bar">
+              <div className="progress-fill" style={{ width: `${Math.min(1, goal.progress / goal.target) * 100}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 6, marginTop: 10 }}>
+        {tiers.map((tier, index) => {
+          const claimed = weekly.claimedTiers.includes(index);
+          return (
+            <button
+              key={index}
+              type="button"
+              className={`btn ${canClaimWeeklyTier(weekly, index) ? 'btn-primary' : 'btn-secondary'}`}
+              disabled={!canClaimWeeklyTier(weekly, index)}
+              onClick={() => session.dispatch({ type: 'claimWeeklyReward', tier: index })}
+              style={{ flex: 1, marginTop: 0, padding: '6px 4px', fontSize: 10 }}
+            >
+              {claimed ? '✅ Забрано' : `${Math.min(completed, tier.goals)}/${tier.goals}`}
+              <br />
+              {tier.coins > 0 && `${tier.coins} 🪙`}
+              {tier.coins > 0 && tier.gems > 0 && ' + '}
+              {tier.gems > 0 && `${tier.gems} 💎`}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './initialState';
+import { applyFarmAction } from './actions';
+import { canClaimQuestChest } from './dailyQuests';
+import { WEEK } from './weeklyGoals';
+
+// Сундук недели заданий: неделя берётся из сохранённой, а не из часового пояса
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const HOUR = 60 * 60 * 1000;
+
+describe('сундук недели', () => {
+  it('смена пояса не сбрасывает неделю сундука и не даёт второй сундук', () => {
+    const base = { ...createInitialState(), utcOffsetMinutes: 0 };
+    const started = applyFarmAction(base, { type: 'feedAnimal', slotId: 'a1' }, NOW);
+    const chestWeekStart = started.dailyQuests!.chestWeekStart;
+    const claimed = { ...started, dailyQuests: { ...started.dailyQuests!, fullDays: 5, chestClaimed: true } };
+
+    const shifted = applyFarmAction(claimed, { type: 'setUtcOffset', minutes: -600 }, NOW);
+    expect(shifted.utcOffsetMinutes).toBe(-600);
+    const nextDay = applyFarmAction(shifted, { type: 'plantCrop', slotId: 'c1' }, NOW + 23 * HOUR);
+    const quests = nextDay.dailyQuests!;
+    expect(quests.dayStart).not.toBe(started.dailyQuests!.dayStart);
+    expect(quests).toMatchObject({ chestWeekStart, fullDays: 5, chestClaimed: true });
+    expect(canClaimQuestChest(quests, NOW + 23 * HOUR)).toBe(false);
+  });
+
+  it('следующая неделя сундука начинается не раньше конца текущей', () => {
+    const base = { ...createInitialState(), utcOffsetMinutes: 0 };
+    const started = applyFarmAction(base, { type: 'feedAnimal', slotId: 'a1' }, NOW);
+    const chestWeekStart = started.dailyQuests!.chestWeekStart;
+    const shifted = { ...started, utcOffsetMinutes: 14 * 60 };
+    const nextWeek = applyFarmAction(shifted, { type: 'plantCrop', slotId: 'c1' }, chestWeekStart + WEEK + HOUR);
+    expect(nextWeek.dailyQuests?.chestWeekStart).toBe(chestWeekStart + WEEK);
+  });
+});
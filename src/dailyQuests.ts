@@ -0,0 +1,187 @@
+import type { AnimalType, CropType, DailyQuest, DailyQuestsState, GameState, StatKey } from './gameTypes';
+import { getEconomy, type DailyQuestKind, type ProductId } from './economy';
+import { getUnlockedCrops } from './gameLogic';
+import { hashString, seededRandom } from './market';
+import type { StatIncrements } from './stats';
+import { getWeekStart, WEEK } from './weeklyGoals';
+
+// Доска заданий дня: каждый день в полночь по времени игрока выпадает 3–5 заданий из того, что у него
+// уже открыто. Прогресс идёт из счётчиков действий (src/stats.ts) в applyFarmAction — как у недельных целей,
+// поэтому задания хранятся в ферме и одинаково считаются на клиенте и сервере. Невыполненное задание можно
+// заменить за гемы, а за неделю полностью закрытых дней открывается сундук.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** Полночь по времени игрока, с которой начался день now (UTC, мс). */
+export function getDayStart(now: number, utcOffsetMinutes: number): number {
+  const offset = utcOffsetMinutes * MINUTE;
+  return Math.floor((now + offset) / DAY) * DAY - offset;
+}
+
+/** Ключ дня — местная дата ('2026-10-19'): в один день у игроков с одинаковой фермой одинаковые задания. */
+function getLocalDayKey(dayStart: number, utcOffsetMinutes: number): string {
+  return new Date(dayStart + utcOffsetMinutes * MINUTE).toISOString().slice(0, 10);
+}
+
+type QuestOption = { kind: DailyQuestKind; subject?: DailyQuest['subject'] };
+
+// Что может выпасть игроку: только открытые культуры, животные и здания; ускорение — если есть гемы
+function getQuestOptions(state: GameState): QuestOption[] {
+  const economy = getEconomy();
+  const crops = getUnlockedCrops(state).filter((type) => state.crops.some((c) => c.unlocked !== false && c.type === type));
+  const animals = [...new Set(state.animals.filter((a) => a.unlocked !== false).map((a) => a.type))];
+  const products: ProductId[] = [...crops.map((type) => economy.crops[type].product), ...animals.map((type) => economy.animals[type].product)];
+  const options: QuestOption[] = [
+    ...crops.map((subject): QuestOption => ({ kind: 'harvest', subject })),
+    ...animals.map((subject): QuestOption => ({ kind: 'collect', subject })),
+    ...animals.map((subject): QuestOption => ({ kind: 'feed', subject })),
+    ...products.map((subject): QuestOption => ({ kind: 'sell', subject }))
+  ];
+  if (state.resources.gems > 0) options.push({ kind: 'boost' });
+  if (state.buildings?.some((b) => b.unlocked)) options.push({ kind: 'craft' });
+  const kinds = new Set(economy.dailyQuests.templates.map((t) => t.kind));
+  return options.filter((option) => kinds.has(option.kind));
+}
+
+const sameQuest = (a: QuestOption, b: QuestOption) => a.kind === b.kind && a.subject === b.subject;
+
+/**
+ * count новых заданий, не совпадающих с exclude: варианты перемешиваются по seed, сначала берётся
+ * по одному заданию каждого вида, цель — случайная в пределах шаблона.
+ */
+function pickQuests(state: GameState, seed: string, count: number, exclude: QuestOption[]): DailyQuest[] {
+  const { templates } = getEconomy().dailyQuests;
+  const random = (key: string) => seededRandom(hashString(`${seed}:${key}`));
+  const shuffled = getQuestOptions(state)
+    .filter((option) => !exclude.some((e) => sameQuest(e, option)))
+    .map((option) => ({ option, order: random(`${option.kind}:${option.subject ?? ''}`) }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ option }) => option);
+  const picked = shuffled.filter((option, i) => shuffled.findIndex((o) => o.kind === option.kind) === i).slice(0, count);
+  for (const option of shuffled) {
+    if (picked.length >= count) break;
+    if (!picked.includes(option)) picked.push(option);
+  }
+  return picked.flatMap((option) => {
+    const template = templates.find((t) => t.kind === option.kind);
+    if (!template) return [];
+    const target = template.min + Math.floor(random(`target:${option.kind}:${option.subject ?? ''}`) * (template.max - template.min + 1));
+    return [{ ...option, target, progress: 0, coins: template.coins, claimed: false }];
+  });
+}
+
+function getQuestCount(level: number): number {
+  const { minQuests, maxQuests, levelsPerExtraQuest } = getEconomy().dailyQuests;
+  return Math.min(maxQuests, minQuests + Math.floor((level - 1) / levelsPerExtraQuest));
+}
+
+function createDailyQuests(state: GameState, now: number): DailyQuestsState {
+  const offset = state.utcOffsetMinutes ?? 0;
+  const dayStart = getDayStart(now, offset);
+  const previous = state.dailyQuests;
+  // Сундук копится всю неделю: новый день той же недели сохраняет закрытые дни. Неделя сундука идёт
+  // от сохранённой, а не пересчитывается по поясу: сменой пояса её нельзя ни сбросить, ни укоротить
+  const sameWeek = !!previous && now < previous.chestWeekStart + WEEK;
+  const weekStart = sameWeek
+    ? previous.chestWeekStart
+    : Math.max(getWeekStart(now, offset), previous ? previous.chestWeekStart + WEEK : -Infinity);
+  return {
+    dayStart,
+    quests: pickQuests(state, getLocalDayKey(dayStart, offset), getQuestCount(state.level), []),
+    rerolls: 0,
+    chestWeekStart: weekStart,
+    fullDays: sameWeek ? previous.fullDays : 0,
+    chestClaimed: sameWeek ? previous.chestClaimed : false
+  };
+}
+
+function isCurrentDay(quests: DailyQuestsState | undefined, now: number): quests is DailyQuestsState {
+  return !!quests && now >= quests.dayStart && now < quests.dayStart + DAY;
+}
+
+/** Задания на сегодня: сохранённые или, если день сменился, новые. */
+export function getDailyQuests(state: GameState, now: number): DailyQuestsState {
+  return isCurrentDay(state.dailyQuests, now) ? state.dailyQuests : createDailyQuests(state, now);
+}
+
+export function isQuestDone(quest: DailyQuest): boolean {
+  return quest.progress >= quest.target;
+}
+
+/** Сундук можно открыть: набрано дней и неделя сундука — текущая. */
+export function canClaimQuestChest(quests: DailyQuestsState, now: number): boolean {
+  const { chest } = getEconomy().dailyQuests;
+  return !quests.chestClaimed && quests.fullDays >= chest.days && now < quests.chestWeekStart + WEEK;
+}
+
+function getQuestStat(quest: DailyQuest): StatKey {
+  switch (quest.kind) {
+    case 'harvest':
+      return `harvest:${quest.subject as CropType}`;
+    case 'collect':
+      return `collect:${quest.subject as AnimalType}`;
+    case 'feed':
+      return `feed:${quest.subject as AnimalType}`;
+    case 'sell':
+      return `sold:${quest.subject as ProductId}`;
+    case 'boost':
+      return 'boosts';
+    case 'craft':
+      return 'crafts';
+  }
+}
+
+/** Учесть счётчики применённого действия в заданиях дня (вызывает applyFarmAction). День создаётся по ферме до действия. */
+export function trackDailyQuests(before: GameState, after: GameState, increments: StatIncrements, now: number): GameState {
+  const day = isCurrentDay(after.dailyQuests, now) ? after.dailyQuests : createDailyQuests(before, now);
+  let changed = day !== after.dailyQuests;
+  const quests = day.quests.map((quest) => {
+    const increment = increments[getQuestStat(quest)] ?? 0;
+    if (increment <= 0 || isQuestDone(quest)) return quest;
+    changed = true;
+    return { ...quest, progress: Math.min(quest.target, quest.progress + increment) };
+  });
+  return changed ? { ...after, dailyQuests: { ...day, quests } } : after;
+}
+
+/** Забрать награду за выполненное задание; последнее забранное задание дня засчитывает день в сундук. */
+export function claimQuest(state: GameState, index: number, now: number): GameState {
+  const day = getDailyQuests(state, now);
+  const quest = day.quests[index];
+  if (!quest || quest.claimed || !isQuestDone(quest)) return state;
+  const quests = day.quests.map((q, i) => (i === index ? { ...q, claimed: true } : q));
+  const fullDays = quests.every((q) => q.claimed) ? day.fullDays + 1 : day.fullDays;
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins + quest.coins },
+    dailyQuests: { ...day, quests, fullDays }
+  };
+}
+
+/** Заменить невыполненное задание другим за гемы. */
+export function rerollQuest(state: GameState, index: number, now: number): GameState {
+  const { rerollGems } = getEconomy().dailyQuests;
+  const day = getDailyQuests(state, now);
+  const quest = day.quests[index];
+  if (!quest || isQuestDone(quest) || state.resources.gems < rerollGems) return state;
+  const dayKey = getLocalDayKey(day.dayStart, state.utcOffsetMinutes ?? 0);
+  const [replacement] = pickQuests(state, `${dayKey}:reroll:${day.rerolls}`, 1, day.quests);
+  if (!replacement) return state;
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - rerollGems },
+    dailyQuests: { ...day, quests: day.quests.map((q, i) => (i === index ? replacement : q)), rerolls: day.rerolls + 1 }
+  };
+}
+
+export function claimQuestChest(state: GameState, now: number): GameState {
+  const day = getDailyQuests(state, now);
+  if (!canClaimQuestChest(day, now)) return state;
+  const { coins, gems } = getEconomy().dailyQuests.chest;
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins + coins, gems: state.resources.gems + gems },
+    dailyQuests: { ...day, chestClaimed: true }
+  };
+}
@@ -0,0 +1,424 @@
+import type { AnimalType, BuildingType, CropType, Resources } from './gameTypes';
+
+// Единый каталог экономики: цены, таймеры, продукция, гем-апгрейды, условия открытия и кривая уровней фермы.
+// gameLogic.ts и UI читают значения только отсюда, а backend может переопределить их JSON-документом.
+
+/** Продукция, которую можно продать на рынке (всё, кроме валют и корма). */
+export type ProductId = Exclude<keyof Resources, 'coins' | 'gems' | 'feed'>;
+/** Всё, что может быть сырьём или результатом переработки (включая корм). */
+export type GoodsId = Exclude<keyof Resources, 'coins' | 'gems'>;
+
+export interface UnlockRule {
+  /** Минимальный уровень фермы */
+  level: number;
+  gems: number;
+}
+
+export interface FeedPack {
+  id: string;
+  /** Уровень фермы, с которого пак продаётся в лавке */
+  minLevel: number;
+  cost: number;
+  amount: number;
+}
+
+export interface LevelReward {
+  coins: number;
+  gems: number;
+}
+
+export interface ProgressionConfig {
+  /** Опыт за действия; за продажу — xpPerSoldCoin за каждую заработанную монету */
+  xp: {
+    plant: number;
+    harvest: number;
+    feed: number;
+    collect: number;
+    craft: number;
+    xpPerSoldCoin: number;
+  };
+  /** Опыт до следующего уровня: round(base * growth^(level-1)) */
+  curve: { base: number; growth: number };
+  /** Награда за каждый новый уровень: coinsPerLevel * level, плюс гемы каждые gemsEveryLevels уровней */
+  rewards: { coinsPerLevel: number; gems: number; gemsEveryLevels: number };
+}
+
+export interface CropEconomy {
+  title: string;
+  icon: string;
+  yieldText: string;
+  product: ProductId;
+  plantCost: number;
+  durationMinutes: number;
+  gemUpgradePrice: number;
+  maxGemLevel: number;
+  /** Открытие семян культуры; null — семена доступны с начала */
+  unlock: UnlockRule | null;
+}
+
+export interface AnimalEconomy {
+  title: string;
+  icon: string;
+  yieldText: string;
+  product: ProductId;
+  feedCost: number;
+  durationMinutes: number;
+  gemUpgradePrice: number;
+  maxGemLevel: number;
+  unlock: UnlockRule | null;
+}
+
+export interface ProductEconomy {
+  title: string;
+  icon: string;
+  sellPrice: number;
+}
+
+export interface BuildingEconomy {
+  title: string;
+  icon: string;
+  /** Уровень фермы и цена в монетах для постройки */
+  unlockLevel: number;
+  unlockCoins: number;
+  /** Сколько заданий можно поставить в очередь */
+  queueSize: number;
+}
+
+export interface RecipeEconomy {
+  title: string;
+  building: BuildingType;
+  /** Уровень фермы, с которого рецепт доступен */
+  minLevel: number;
+  inputs: Partial<Record<GoodsId, number>>;
+  output: { resource: GoodsId; amount: number };
+  durationMinutes: number;
+}
+
+/** Расширение фермы: новые грядки и загоны сверх стартового шаблона */
+export interface ExpansionConfig {
+  /** Сколько слотов можно докупить */
+  maxExtra: number;
+  /** Уровень фермы, с которого продаётся расширение */
+  minLevel: number;
+  /** Цена первого дополнительного слота; каждый следующий дороже в growth раз */
+  coins: number;
+  gems: number;
+  growth: number;
+  /** Базовый выход нового слота */
+  baseYield: number;
+}
+
+export type WeeklyGoalKind = 'harvest' | 'feed' | 'earn' | 'craft';
+
+/** Недельная цель из пула: собрать урожай культуры, покормить животных вида, заработать монет, забрать из цеха */
+export interface WeeklyGoalConfig {
+  id: string;
+  kind: WeeklyGoalKind;
+  /** Культура для harvest, вид животного для feed */
+  subject?: CropType | AnimalType;
+  target: number;
+  /** Цель попадает в неделю, только если ферма уже этого уровня */
+  minLevel: number;
+}
+
+/** Награда за неделю: выдаётся, когда выполнено goals целей */
+export interface WeeklyRewardTier {
+  goals: number;
+  coins: number;
+  gems: number;
+}
+
+export interface WeeklyGoalsConfig {
+  /** День сброса по времени игрока: 0 — воскресенье, 1 — понедельник, … */
+  resetWeekday: number;
+  goalsPerWeek: number;
+  pool: WeeklyGoalConfig[];
+  tiers: WeeklyRewardTier[];
+}
+
+export type DailyQuestKind = 'harvest' | 'collect' | 'feed' | 'sell' | 'boost' | 'craft';
+
+/** Шаблон задания дня: цель выбирается случайно в [min, max], предмет — из открытого у игрока */
+export interface DailyQuestTemplate {
+  kind: DailyQuestKind;
+  min: number;
+  max: number;
+  coins: number;
+}
+
+export interface DailyQuestsConfig {
+  /** Заданий в день: minQuests и ещё одно за каждые levelsPerExtraQuest уровней, не больше maxQuests */
+  minQuests: number;
+  maxQuests: number;
+  levelsPerExtraQuest: number;
+  /** Цена замены невыполненного задания */
+  rerollGems: number;
+  templates: DailyQuestTemplate[];
+  /** Сундук недели: за days дней, в которые забраны награды всех заданий */
+  chest: { days: number; coins: number; gems: number };
+}
+
+export interface MarketConfig {
+  /** Дневное колебание цены: ±доля от базовой */
+  dailyAmplitude: number;
+  /** Падение цены за каждую недавно проданную единицу (доля) */
+  penaltyPerUnit: number;
+  maxPenalty: number;
+  /** За сколько минут давление продаж игрока уменьшается вдвое */
+  pressureHalfLifeMinutes: number;
+}
+
+export interface SlotLevelConfig {
+  /** Каждые harvestsPerLevel сборов слот получает +1 уровень */
+  harvestsPerLevel: number;
+  maxLevel: number;
+  /** Прибавка к выходу за каждый уровень выше первого (доля от базового выхода) */
+  yieldPerLevel: number;
+  /** Сокращение времени за каждый уровень выше первого (доля от базового времени) */
+  durationCutPerLevel: number;
+  /** Время не опускается ниже этой доли от базового */
+  minDurationFactor: number;
+}
+
+export interface EconomyConfig {
+  crops: Record<CropType, CropEconomy>;
+  animals: Record<AnimalType, AnimalEconomy>;
+  products: Record<ProductId, ProductEconomy>;
+  buildings: Record<BuildingType, BuildingEconomy>;
+  recipes: Record<string, RecipeEconomy>;
+  feedPacks: FeedPack[];
+  /** Сколько семян в одной покупке (цена семени = цена посадки культуры) */
+  seedPackSize: number;
+  /** Докупка грядок сверх стартовых: правило для первой купленной, второй и т. д. */
+  plotUnlocks: UnlockRule[];
+  expansion: { crop: ExpansionConfig; animal: ExpansionConfig };
+  /** Стоимость ускорения в гемах (1 гем = 1 минута) */
+  boostGemPerMinute: number;
+  /** Стоимость улучшения слота за монеты: уровень * upgradeCoinsPerLevel */
+  upgradeCoinsPerLevel: number;
+  slotLevels: SlotLevelConfig;
+  market: MarketConfig;
+  exchange: {
+    gemsToCoins: { gems: number; coins: number };
+    coinsToGems: { coins: number; gems: number };
+  };
+  perks: {
+    autoCollect: { gems: number };
+  };
+  weeklyGoals: WeeklyGoalsConfig;
+  dailyQuests: DailyQuestsConfig;
+  progression: ProgressionConfig;
+}
+
+export const DEFAULT_ECONOMY: EconomyConfig = {
+  crops: {
+    tomato: { title: 'Помидоры', icon: '🍅', yieldText: 'томаты', product: 'tomato', plantCost: 5, durationMinutes: 3, gemUpgradePrice: 20, maxGemLevel: 2, unlock: null },
+    cucumber: { title: 'Огурцы', icon: '🥒', yieldText: 'огурцы', product: 'cucumber', plantCost: 5, durationMinutes: 5, gemUpgradePrice: 20, maxGemLevel: 2, unlock: null },
+    corn: {
+      title: 'Кукуруза', icon: '🌽', yieldText: 'кукуруза', product: 'corn', plantCost: 10, durationMinutes: 6, gemUpgradePrice: 20, maxGemLevel: 2,
+      unlock: { level: 3, gems: 30 }
+    },
+    watermelon: {
+      title: 'Арбуз', icon: '🍉', yieldText: 'арбуз', product: 'watermelon', plantCost: 15, durationMinutes: 8, gemUpgradePrice: 20, maxGemLevel: 2,
+      unlock: { level: 5, gems: 30 }
+    },
+    apple: {
+      title: 'Яблоко', icon: '🍎', yieldText: 'яблоки', product: 'apple', plantCost: 20, durationMinutes: 10, gemUpgradePrice: 20, maxGemLevel: 2,
+      unlock: { level: 8, gems: 30 }
+    }
+  },
+  animals: {
+    cow: { title: 'Корова', icon: '🐄', yieldText: 'молоко', product: 'milk', feedCost: 1, durationMinutes: 10, gemUpgradePrice: 30, maxGemLevel: 1, unlock: null },
+    chicken: { title: 'Курица', icon: '🐔', yieldText: 'яйца', product: 'egg', feedCost: 1, durationMinutes: 8, gemUpgradePrice: 20, maxGemLevel: 1, unlock: null },
+    goat: {
+      title: 'Коза', icon: '🐐', yieldText: 'сыр', product: 'cheese', feedCost: 1, durationMinutes: 9, gemUpgradePrice: 60, maxGemLevel: 2,
+      unlock: { level: 4, gems: 30 }
+    },
+    sheep: {
+      title: 'Овца', icon: '🐑', yieldText: 'шерсть', product: 'wool', feedCost: 1, durationMinutes: 9, gemUpgradePrice: 60, maxGemLevel: 2,
+      unlock: { level: 6, gems: 30 }
+    },
+    pig: {
+      title: 'Поросёнок', icon: '🐖', yieldText: 'мясо', product: 'meat', feedCost: 1, durationMinutes: 12, gemUpgradePrice: 60, maxGemLevel: 2,
+      unlock: { level: 9, gems: 30 }
+    },
+    goose: {
+      title: 'Гусь', icon: '🦢', yieldText: 'перья', product: 'feathers', feedCost: 1, durationMinutes: 7, gemUpgradePrice: 60, maxGemLevel: 2,
+      unlock: { level: 11, gems: 30 }
+    }
+  },
+  // Базовые цены продажи (прежняя база +25%, округлённая до целого); от них считается цена дня в market.ts
+  products: {
+    tomato: { title: 'Помидоры', icon: '🍅', sellPrice: 4 },
+    cucumber: { title: 'Огурцы', icon: '🥒', sellPrice: 5 },
+    corn: { title: 'Кукуруза', icon: '🌽', sellPrice: 6 },
+    watermelon: { title: 'Арбуз', icon: '🍉', sellPrice: 8 },
+    apple: { title: 'Яблоки', icon: '🍎', sellPrice: 8 },
+    milk: { title: 'Молоко', icon: '🥛', sellPrice: 11 },
+    egg: { title: 'Яйца', icon: '🥚', sellPrice: 8 },
+    cheese: { title: 'Сыр', icon: '🧀', sellPrice: 14 },
+    meat: { title: 'Мясо', icon: '🥩', sellPrice: 16 },
+    feathers: { title: 'Перья', icon: '🪶', sellPrice: 5 },
+    wool: { title: 'Шерсть', icon: '🧶', sellPrice: 9 },
+    butter: { title: 'Масло', icon: '🧈', sellPrice: 40 },
+    cloth: { title: 'Ткань', icon: '🧵', sellPrice: 35 },
+    cornbread: { title: 'Кукурузный хлеб', icon: '🍞', sellPrice: 36 }
+  },
+  // Переработка: сырьё дороже продавать через цех, чем сдавать на рынок как есть
+  buildings: {
+    dairy: { title: 'Сыроварня', icon: '🏭', unlockLevel: 2, unlockCoins: 200, queueSize: 3 },
+    mill: { title: 'Мельница', icon: '🌾', unlockLevel: 3, unlockCoins: 250, queueSize: 3 },
+    bakery: { title: 'Пекарня', icon: '🥖', unlockLevel: 5, unlockCoins: 400, queueSize: 3 },
+    loom: { title: 'Ткацкий станок', icon: '🪡', unlockLevel: 6, unlockCoins: 500, queueSize: 2 }
+  },
+  recipes: {
+    cheese: { title: 'Сыр', building: 'dairy', minLevel: 2, inputs: { milk: 2 }, output: { resource: 'cheese', amount: 2 }, durationMinutes: 5 },
+    butter: { title: 'Масло', building: 'dairy', minLevel: 4, inputs: { milk: 3 }, output: { resource: 'butter', amount: 1 }, durationMinutes: 8 },
+    feed: { title: 'Корм', building: 'mill', minLevel: 3, inputs: { corn: 2 }, output: { resource: 'feed', amount: 5 }, durationMinutes: 4 },
+    cornbread: { title: 'Кукурузный хлеб', building: 'bakery', minLevel: 5, inputs: { egg: 2, corn: 2 }, output: { resource: 'cornbread', amount: 1 }, durationMinutes: 6 },
+    cloth: { title: 'Ткань', building: 'loom', minLevel: 6, inputs: { wool: 3 }, output: { resource: 'cloth', amount: 1 }, durationMinutes: 10 }
+  },
+  feedPacks: [
+    { id: 'small', minLevel: 1, cost: 20, amount: 5 },
+    { id: 'medium', minLevel: 5, cost: 70, amount: 20 },
+    { id: 'large', minLevel: 10, cost: 160, amount: 50 }
+  ],
+  seedPackSize: 10,
+  plotUnlocks: [
+    { level: 3, gems: 30 },
+    { level: 5, gems: 30 },
+    { level: 8, gems: 30 }
+  ],
+  expansion: {
+    crop: { maxExtra: 6, minLevel: 4, coins: 300, gems: 10, growth: 1.6, baseYield: 2 },
+    animal: { maxExtra: 4, minLevel: 6, coins: 500, gems: 20, growth: 1.8, baseYield: 1 }
+  },
+  boostGemPerMinute: 1,
+  upgradeCoinsPerLevel: 50,
+  slotLevels: {
+    harvestsPerLevel: 5,
+    maxLevel: 20,
+    yieldPerLevel: 0.5,
+    durationCutPerLevel: 0.04,
+    minDurationFactor: 0.5
+  },
+  market: {
+    dailyAmplitude: 0.25,
+    penaltyPerUnit: 0.004,
+    maxPenalty: 0.4,
+    pressureHalfLifeMinutes: 60
+  },
+  exchange: {
+    gemsToCoins: { gems: 10, coins: 100 },
+    coinsToGems: { coins: 100_000, gems: 10_000 }
+  },
+  perks: {
+    autoCollect: { gems: 150 }
+  },
+  weeklyGoals: {
+    resetWeekday: 1,
+    goalsPerWeek: 3,
+    pool: [
+      { id: 'harvest-tomato', kind: 'harvest', subject: 'tomato', target: 150, minLevel: 1 },
+      { id: 'harvest-cucumber', kind: 'harvest', subject: 'cucumber', target: 120, minLevel: 1 },
+      { id: 'harvest-corn', kind: 'harvest', subject: 'corn', target: 100, minLevel: 3 },
+      { id: 'harvest-watermelon', kind: 'harvest', subject: 'watermelon', target: 80, minLevel: 5 },
+      { id: 'feed-cow', kind: 'feed', subject: 'cow', target: 25, minLevel: 1 },
+      { id: 'feed-chicken', kind: 'feed', subject: 'chicken', target: 30, minLevel: 1 },
+      { id: 'feed-goat', kind: 'feed', subject: 'goat', target: 20, minLevel: 4 },
+      { id: 'feed-sheep', kind: 'feed', subject: 'sheep', target: 20, minLevel: 6 },
+      { id: 'earn-small', kind: 'earn', target: 1000, minLevel: 1 },
+      { id: 'earn-big', kind: 'earn', target: 5000, minLevel: 6 },
+      { id: 'craft', kind: 'craft', target: 10, minLevel: 2 }
+    ],
+    tiers: [
+      { goals: 1, coins: 100, gems: 0 },
+      { goals: 2, coins: 250, gems: 5 },
+      { goals: 3, coins: 500, gems: 15 }
+    ]
+  },
+  dailyQuests: {
+    minQuests: 3,
+    maxQuests: 5,
+    levelsPerExtraQuest: 5,
+    rerollGems: 5,
+    templates: [
+      { kind: 'harvest', min: 10, max: 30, coins: 40 },
+      { kind: 'collect', min: 3, max: 8, coins: 40 },
+      { kind: 'feed', min: 3, max: 8, coins: 30 },
+      { kind: 'sell', min: 10, max: 40, coins: 50 },
+      { kind: 'boost', min: 1, max: 1, coins: 30 },
+      { kind: 'craft', min: 1, max: 3, coins: 60 }
+    ],
+    chest: { days: 5, coins: 1000, gems: 30 }
+  },
+  progression: {
+    xp: { plant: 2, harvest: 3, feed: 2, collect: 3, craft: 4, xpPerSoldCoin: 0.1 },
+    curve: { base: 50, growth: 1.35 },
+    rewards: { coinsPerLevel: 20, gems: 10, gemsEveryLevels: 5 }
+  }
+};
+
+export const CROP_TYPES = Object.keys(DEFAULT_ECONOMY.crops) as CropType[];
+export const ANIMAL_TYPES = Object.keys(DEFAULT_ECONOMY.animals) as AnimalType[];
+export const PRODUCT_IDS = Object.keys(DEFAULT_ECONOMY.products) as ProductId[];
+export const BUILDING_TYPES = Object.keys(DEFAULT_ECONOMY.buildings) as BuildingType[];
+
+/** Иконка и название любого товара, включая корм. */
+export function getGoodsInfo(id: GoodsId): { title: string; icon: string } {
+  if (id === 'feed') return { title: 'Корм', icon: '🥣' };
+  return getEconomy().products[id];
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> | null : T[K] };
+
+/** JSON-документ с backend: любые поля каталога можно не указывать. */
+export type EconomyOverride = DeepPartial<EconomyConfig>;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Рекурсивно накладываем override на эталон. Берём только ключи, которые есть в эталоне,
+// и только значения того же типа — кривой документ с backend не ломает игру.
+function mergeInto<T>(base: T, override: unknown): T {
+  if (!isPlainObject(override) || !isPlainObject(base)) return base;
+  const result: Record<string, unknown> = { ...base };
+  for (const key of Object.keys(base)) {
+    if (!(key in override)) continue;
+    const current = (base as Record<string, unknown>)[key];
+    const next = override[key];
+    if (key === 'unlock') {
+      // unlock: null (открыто с начала) ↔ правило открытия
+      if (next === null) result[key] = null;
+      else if (isPlainObject(next)) result[key] = current === null ? next : mergeInto(current, next);
+    } else if (typeof current === 'number') {
+      if (typeof next === 'number' && Number.isFinite(next) && next >= 0) result[key] = next;
+    } else if (typeof current === 'string') {
+      if (typeof next === 'string') result[key] = next;
+    } else if (Array.isArray(current)) {
+      if (Array.isArray(next)) result[key] = next;
+    } else if (isPlainObject(current)) {
+      result[key] = mergeInto(current, next);
+    }
+  }
+  return result as T;
+}
+
+export function mergeEconomy(base: EconomyConfig, override: EconomyOverride | null | undefined): EconomyConfig {
+  if (!override) return base;
+  return mergeInto(base, override);
+}
+
+let activeEconomy: EconomyConfig = DEFAULT_ECONOMY;
+
+/** Текущий каталог (эталон + override с backend, если он был загружен). */
+export function getEconomy(): EconomyConfig {
+  return activeEconomy;
+}
+
+/** Применить override с backend. null — вернуться к эталонному каталогу. */
+export function applyEconomyOverride(override: EconomyOverride | null): EconomyConfig {
+  activeEconomy = mergeEconomy(DEFAULT_ECONOMY, override);
+  return activeEconomy;
+}
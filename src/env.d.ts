@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_BOT_USERNAME?: string;
   readonly VITE_API_URL?: string;
+  readonly VITE_STORAGE_URL?: string;
 }
 
 interface ImportMeta {
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState } from './gameTypes';
+import { createInitialState } from './initialState';
+import { applyFarmAction } from './actions';
+import { createFarmExportPayload, decodeFarmExport, encodeFarmExport, FarmExportError, restoreFarmState } from './farmExport';
+
+// Код копии: подпись, nonce сервера и восстановление поверх текущей фермы
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const KEY = 'test-key';
+
+describe('копия фермы', () => {
+  it('код переживает кодирование вместе с nonce', async () => {
+    const code = await encodeFarmExport(createFarmExportPayload('u1', createInitialState(), NOW, 'n1'), KEY);
+    const payload = await decodeFarmExport(code, KEY);
+    expect(payload).toMatchObject({ userId: 'u1', exportedAt: NOW, nonce: 'n1' });
+  });
+
+  it('у локальной копии nonce нет', async () => {
+    const code = await encodeFarmExport(createFarmExportPayload('u1', createInitialState(), NOW), KEY);
+    expect((await decodeFarmExport(code, KEY)).nonce).toBeUndefined();
+  });
+
+  it('чужой ключ не подходит', async () => {
+    const code = await encodeFarmExport(createFarmExportPayload('u1', createInitialState(), NOW, 'n1'), KEY);
+    await expect(decodeFarmExport(code, 'other')).rejects.toBeInstanceOf(FarmExportError);
+  });
+
+  it('keepGems оставляет текущие гемы, остальное берётся из копии', () => {
+    const initial = createInitialState();
+    const current = { ...initial, revision: 4, resources: { ...initial.resources, coins: 1, gems: 50 } };
+    const restored = restoreFarmState(current, { ...initial, resources: { ...initial.resources, coins: 900, gems: 2 } }, { keepGems: true });
+    expect(restored.resources).toMatchObject({ coins: 900, gems: 50 });
+    expect(restored.revision).toBe(5);
+  });
+
+  it('продать — восстановить — продать: счётчики и прогресс целей не растут, забранные награды остаются', () => {
+    const initial = createInitialState();
+    const copy = { ...initial, resources: { ...initial.resources, tomato: 30 } };
+    const sell = (state: GameState) => applyFarmAction(state, { type: 'sellProduce' }, NOW);
+    const sold = { ...sell(copy), achievements: { harvests: 1 } };
+
+    expect(sold.stats?.coinsEarned).toBeGreaterThan(0);
+
+    const again = sell(restoreFarmState(sold, copy, { keepGems: true }));
+    expect(again.stats).toEqual(sold.stats);
+    expect(again.weeklyGoals).toEqual(sold.weeklyGoals);
+    expect(again.dailyQuests?.quests.map((q) => q.progress)).toEqual(sold.dailyQuests?.quests.map((q) => q.progress));
+    expect(again.achievements).toEqual({ harvests: 1 });
+  });
+
+  it('серверные счётчики при восстановлении не уменьшаются', () => {
+    const initial = createInitialState();
+    const current = { ...initial, stats: { referrals: 3, coinsEarned: 500 } };
+    expect(restoreFarmState(current, initial, { keepGems: true }).stats).toEqual({ referrals: 3 });
+  });
+});
@@ -0,0 +1,256 @@
+import type { AnimalSlot, CropSlot, DailyQuestsState, GameState, Resources, StatKey, WeeklyGoalsState } from './gameTypes';
+import { getEconomy, type ProductId } from './economy';
+import { ensureExtendedState } from './gameLogic';
+import { migrateSave, SaveFormatError } from './saveFormat';
+
+// Экспорт и импорт фермы: резервная копия или перенос на другое устройство без backend.
+// Одна и та же копия бывает в двух видах:
+//   код  — FARM1.<deflate(JSON) в base64url>.<подпись>, удобно вставить в чат;
+//   файл — { format: 'farm-export', payload, signature }, читаемый JSON.
+// Подпись — HMAC-SHA256 от JSON payload. В режиме с сервером ключ знает только сервер (он и подписывает,
+// и проверяет при импорте); без сервера ключ зашит в клиент и защищает лишь от случайной порчи кода.
+// Модуль общий для клиента и сервера: только Web API (CompressionStream, crypto.subtle), есть и в Node 20.
+
+export const FARM_EXPORT_VERSION = 1;
+const CODE_PREFIX = 'FARM1';
+const FILE_FORMAT = 'farm-export';
+
+/** Ключ подписи локальных копий (режим без backend) */
+export const LOCAL_EXPORT_KEY = 'farm-miniapp-local-export-v1';
+
+export interface FarmExportPayload {
+  version: number;
+  userId: string;
+  exportedAt: number;
+  /** Одноразовый номер копии, выданный сервером (у локальных копий его нет) */
+  nonce?: string;
+  state: GameState;
+}
+
+/** Копию не удалось прочитать: сообщение можно показывать игроку. */
+export class FarmExportError extends Error {}
+
+export function createFarmExportPayload(
+  userId: string,
+  state: GameState,
+  now: number = Date.now(),
+  nonce?: string
+): FarmExportPayload {
+  // Пригласивший — данные сервера, а не фермы: в копию не попадает
+  const { referrerId: _referrerId, referrerUsername: _referrerUsername, ...farm } = state;
+  return { version: FARM_EXPORT_VERSION, userId, exportedAt: now, ...(nonce ? { nonce } : {}), state: farm };
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function sign(body: string, key: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey('raw', encoder.encode(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(body)));
+  return Array.from(signature, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Подписанный сжатый код копии. */
+export async function encodeFarmExport(payload: FarmExportPayload, key: string): Promise<string> {
+  if (typeof CompressionStream === 'undefined') throw new FarmExportError('Браузер не умеет сжимать данные — скачай копию файлом');
+  const body = JSON.stringify(payload);
+  const compressed = await transform(encoder.encode(body), new CompressionStream('deflate'));
+  return `${CODE_PREFIX}.${toBase64Url(compressed)}.${await sign(body, key)}`;
+}
+
+/** Код или файл → JSON payload и подпись, без проверки подписи. */
+async function unpack(text: string): Promise<{ body: string; signature: string }> {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let file: { format?: unknown; payload?: unknown; signature?: unknown };
+    try {
+      file = JSON.parse(trimmed);
+    } catch {
+      throw new FarmExportError('Файл копии повреждён: это не JSON');
+    }
+    if (file.format !== FILE_FORMAT || typeof file.signature !== 'string') throw new FarmExportError('Это не файл копии фермы');
+    return { body: JSON.stringify(file.payload), signature: file.signature };
+  }
+
+  const [prefix, data, signature, ...rest] = trimmed.replace(/\s+/g, '').split('.');
+  if (prefix !== CODE_PREFIX || !data || !signature || rest.length > 0) throw new FarmExportError('Это не код копии фермы');
+  if (typeof DecompressionStream === 'undefined') throw new FarmExportError('Браузер не умеет распаковывать код — загрузи копию файлом');
+  try {
+    return { body: decoder.decode(await transform(fromBase64Url(data), new DecompressionStream('deflate'))), signature };
+  } catch {
+    throw new FarmExportError('Код копии повреждён — скопируй его целиком');
+  }
+}
+
+/** Файл копии из кода: та же подпись, payload в читаемом виде. */
+export async function farmExportCodeToFile(code: string): Promise<string> {
+  const { body, signature } = await unpack(code);
+  return JSON.stringify({ format: FILE_FORMAT, payload: JSON.parse(body), signature }, null, 2);
+}
+
+/**
+ * Прочитать копию (код или файл) и привести ферму к текущему формату через migrateSave и ensureExtendedState.
+ * key = null — без проверки подписи: клиент в режиме с сервером показывает предпросмотр, проверяет сервер.
+ */
+export async function decodeFarmExport(text: string, key: string | null): Promise<FarmExportPayload> {
+  const { body, signature } = await unpack(text);
+  if (key !== null && (await sign(body, key)) !== signature) {
+    throw new FarmExportError('Подпись копии не сходится: копия изменена или сделана в другой версии игры');
+  }
+
+  let payload: Partial<FarmExportPayload>;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    throw new FarmExportError('Копия повреждена');
+  }
+  if (payload.version !== FARM_EXPORT_VERSION) {
+    throw new FarmExportError(`Копия версии ${String(payload.version)} не поддерживается — обнови приложение`);
+  }
+  if (typeof payload.userId !== 'string' || !payload.userId || typeof payload.exportedAt !== 'number') {
+    throw new FarmExportError('В копии нет игрока или даты');
+  }
+  if (payload.nonce !== undefined && typeof payload.nonce !== 'string') throw new FarmExportError('Копия повреждена');
+
+  let state: GameState;
+  try {
+    state = ensureExtendedState(migrateSave(payload.state));
+  } catch (err) {
+    if (err instanceof SaveFormatError) throw new FarmExportError(`Ферма в копии не читается: ${err.message}`);
+    throw err;
+  }
+  const { version, userId, exportedAt, nonce } = payload;
+  return { version, userId, exportedAt, ...(nonce ? { nonce } : {}), state };
+}
+
+// Счётчики, которые дописывает сервер (приглашённые, марафон ежедневных наград), а не действия фермы
+const SERVER_STATS: StatKey[] = ['referrals', 'dailyStreak'];
+
+/** Счётчики копии; серверные — не меньше текущих. */
+function restoreStats(current: GameState, imported: GameState): GameState['stats'] {
+  const stats = { ...imported.stats };
+  for (const key of SERVER_STATS) {
+    const value = Math.max(current.stats?.[key] ?? 0, imported.stats?.[key] ?? 0);
+    if (value > 0) stats[key] = value;
+  }
+  return stats;
+}
+
+/** Текущие цели недели (и забранные награды) с прогрессом из копии; копия прошлой недели — прогресс с нуля. */
+function restoreWeeklyGoals(current: GameState, imported: GameState): WeeklyGoalsState | undefined {
+  const week = current.weeklyGoals;
+  if (!week) return undefined;
+  const saved = imported.weeklyGoals?.weekStart === week.weekStart ? imported.weeklyGoals.goals : [];
+  return {
+    ...week,
+    goals: week.goals.map((goal) => ({ ...goal, progress: saved.find((g) => g.id === goal.id)?.progress ?? 0 }))
+  };
+}
+
+/** Текущие задания дня (забранные, замены, сундук) с прогрессом из копии; копия другого дня — прогресс с нуля. */
+function restoreDailyQuests(current: GameState, imported: GameState): DailyQuestsState | undefined {
+  const day = current.dailyQuests;
+  if (!day) return undefined;
+  const saved = imported.dailyQuests?.dayStart === day.dayStart ? imported.dailyQuests.quests : [];
+  return {
+    ...day,
+    quests: day.quests.map((quest) => ({
+      ...quest,
+      progress: saved.find((q) => q.kind === quest.kind && q.subject === quest.subject)?.progress ?? 0
+    }))
+  };
+}
+
+/**
+ * Состояние после восстановления копии поверх текущего. Ревизия растёт, чтобы другие устройства
+ * получили конфликт и подтянули восстановленную ферму. keepGems — гемы (покупки, рефералы) не откатываются:
+ * так восстанавливает сервер для самого игрока, и только копии, после которых гемы не менялись действиями
+ * (см. exportNonces в server/farm.ts) — иначе откат монет при текущих гемах повторял бы обмен.
+ * Счётчики и прогресс целей откатываются вместе с фермой, а отметки о забранных наградах остаются текущими:
+ * иначе «продать — восстановить — продать» накручивало бы счётчики, а награды забирались бы повторно.
+ */
+export function restoreFarmState(current: GameState, imported: GameState, { keepGems }: { keepGems: boolean }): GameState {
+  return {
+    ...imported,
+    resources: keepGems ? { ...imported.resources, gems: current.resources.gems } : imported.resources,
+    revision: (current.revision ?? 0) + 1,
+    referrerId: current.referrerId,
+    referrerUsername: current.referrerUsername,
+    utcOffsetMinutes: current.utcOffsetMinutes,
+    utcOffsetChangedAt: current.utcOffsetChangedAt,
+    weeklyGoals: restoreWeeklyGoals(current, imported),
+    dailyQuests: restoreDailyQuests(current, imported),
+    stats: restoreStats(current, imported),
+    achievements: current.achievements
+  };
+}
+
+export interface FarmDiffLine {
+  label: string;
+  before: string;
+  after: string;
+}
+
+const RESOURCE_LABELS: Partial<Record<keyof Resources, string>> = { coins: '🪙 Монеты', gems: '💎 Гемы', feed: '🥣 Корм' };
+
+/** Что изменится при восстановлении: уровень, ресурсы, открытые слоты и их уровни, перки. */
+export function diffFarmStates(before: GameState, after: GameState): FarmDiffLine[] {
+  const economy = getEconomy();
+  const lines: FarmDiffLine[] = [];
+  const push = (label: string, a: string | number, b: string | number) => {
+    if (a !== b) lines.push({ label, before: String(a), after: String(b) });
+  };
+
+  push('Уровень фермы', before.level, after.level);
+  push('Опыт', before.xp ?? 0, after.xp ?? 0);
+
+  const resourceKeys = new Set([...Object.keys(before.resources), ...Object.keys(after.resources)] as (keyof Resources)[]);
+  resourceKeys.forEach((key) => {
+    const product = economy.products[key as ProductId];
+    const label = RESOURCE_LABELS[key] ?? (product ? `${product.icon} ${product.title}` : key);
+    push(label, before.resources[key] ?? 0, after.resources[key] ?? 0);
+  });
+
+  const describeSlots = (kind: 'crops' | 'animals') => {
+    const beforeById = new Map<string, CropSlot | AnimalSlot>(before[kind].map((slot) => [slot.id, slot]));
+    const status = (slot: CropSlot | AnimalSlot | undefined) => (!slot || slot.unlocked === false ? 'закрыт' : `ур. ${slot.level}`);
+    const afterIds = new Set(after[kind].map((slot: CropSlot | AnimalSlot) => slot.id));
+    const label = (slot: CropSlot | AnimalSlot) => {
+      const config = kind === 'crops' ? economy.crops[(slot as CropSlot).type] : economy.animals[(slot as AnimalSlot).type];
+      return `${config.icon} ${config.title} (${slot.id})`;
+    };
+    after[kind].forEach((slot: CropSlot | AnimalSlot) => push(label(slot), status(beforeById.get(slot.id)), status(slot)));
+    // Докупленные слоты, которых нет в копии, пропадут
+    before[kind]
+      .filter((slot: CropSlot | AnimalSlot) => !afterIds.has(slot.id))
+      .forEach((slot: CropSlot | AnimalSlot) => push(label(slot), status(slot), 'нет'));
+  };
+  describeSlots('crops');
+  describeSlots('animals');
+
+  const beforeBuildings = new Map((before.buildings ?? []).map((b) => [b.id, b]));
+  (after.buildings ?? []).forEach((building) => {
+    const config = economy.buildings[building.type];
+    const open = (unlocked: boolean | undefined) => (unlocked ? 'открыто' : 'закрыто');
+    push(`${config.icon} ${config.title}`, open(beforeBuildings.get(building.id)?.unlocked), open(building.unlocked));
+  });
+
+  push('Автосбор', before.perks?.autoCollect ? 'есть' : 'нет', after.perks?.autoCollect ? 'есть' : 'нет');
+  return lines;
+}
@@ -0,0 +1,31 @@
+import type { TimerState } from './gameTypes';
+
+// Форматирование времени для интерфейса.
+
+export function formatTimer(timerMs: number): string {
+  const totalSec = Math.max(0, Math.round(timerMs / 1000));
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  if (m === 0) return `${s}s`;
+  return `${m}m ${s.toString().padStart(2, '0')}s`;
+}
+
+export function formatAway(ms: number): string {
+  const totalMin = Math.floor(ms / 60000);
+  const h = Math.floor(totalMin / 60);
+  const m = totalMin % 60;
+  if (h === 0) return `${m} мин`;
+  return `${h} ч ${m.toString().padStart(2, '0')} мин`;
+}
+
+export function getRemainingMs(timer: TimerState | null, now = Date.now()): number {
+  if (!timer) return 0;
+  return Math.max(0, timer.durationMs - (now - timer.startedAt));
+}
+
+export function formatDaysLeft(ms: number): string {
+  const totalHours = Math.floor(ms / 3600000);
+  const d = Math.floor(totalHours / 24);
+  if (d === 0) return formatAway(ms);
+  return `${d} д ${totalHours % 24} ч`;
+}
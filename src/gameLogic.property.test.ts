@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import fc from 'fast-check';
+import type { GameState } from './gameTypes';
+import { createInitialState } from './initialState';
+import { CROP_TYPES, getEconomy, PRODUCT_IDS } from './economy';
+import { applyFarmAction, type FarmAction } from './actions';
+import { createTimer, getBoostCost, harvestCrop, isTimerReady, plantCrop } from './gameLogic';
+import { getLevelReward } from './progression';
+
+// Инварианты экономики на случайных последовательностях действий
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const MINUTE = 60 * 1000;
+
+const cropSlotIds = createInitialState().crops.map((c) => c.id);
+const animalSlotIds = createInitialState().animals.map((a) => a.id);
+
+const actionArb: fc.Arbitrary<FarmAction> = fc.oneof(
+  fc.record({ type: fc.constant('plantCrop' as const), slotId: fc.constantFrom(...cropSlotIds), crop: fc.constantFrom(...CROP_TYPES) }),
+  fc.record({ type: fc.constantFrom('harvestCrop' as const, 'boostCrop' as const, 'upgradeCrop' as const, 'gemUpgradeCrop' as const, 'unlockCrop' as const), slotId: fc.constantFrom(...cropSlotIds) }),
+  fc.record({
+    type: fc.constantFrom('feedAnimal' as const, 'collectAnimalProduct' as const, 'boostAnimal' as const, 'upgradeAnimal' as const, 'unlockAnimal' as const),
+    slotId: fc.constantFrom(...animalSlotIds)
+  }),
+  fc.record({ type: fc.constant('buySeeds' as const), crop: fc.constantFrom(...CROP_TYPES), amount: fc.integer({ min: 1, max: 30 }) }),
+  fc.record({ type: fc.constant('sellResources' as const), basket: fc.dictionary(fc.constantFrom(...PRODUCT_IDS), fc.integer({ min: 0, max: 50 })) }),
+  fc.record({ type: fc.constant('buyFeed' as const), packId: fc.constantFrom('small', 'medium', 'large') }),
+  fc.constantFrom<FarmAction>(
+    { type: 'plantAll' },
+    { type: 'harvestAll' },
+    { type: 'feedAll' },
+    { type: 'collectAll' },
+    { type: 'sellProduce' },
+    { type: 'buyPlot' },
+    { type: 'exchangeGemsToCoins' },
+    { type: 'exchangeCoinsToGems' },
+    { type: 'buyAutoCollectPerk' }
+  )
+);
+
+/** Действие и сколько минут прошло перед ним. */
+const stepsArb = fc.array(fc.tuple(actionArb, fc.integer({ min: 0, max: 30 })), { maxLength: 60 });
+
+const startArb = fc.record({
+  coins: fc.integer({ min: 0, max: 2000 }),
+  gems: fc.integer({ min: 0, max: 200 }),
+  feed: fc.integer({ min: 0, max: 30 }),
+  level: fc.integer({ min: 1, max: 12 })
+});
+
+function startState({ coins, gems, feed, level }: { coins: number; gems: number; feed: number; level: number }): GameState {
+  const state = createInitialState();
+  return { ...state, level, resources: { ...state.resources, coins, gems, feed } };
+}
+
+function levelRewardCoins(from: number, to: number): number {
+  let coins = 0;
+  for (let level = from + 1; level <= to; level++) coins += getLevelReward(level).coins;
+  return coins;
+}
+
+describe('инварианты экономики', () => {
+  it('ресурсы и семена никогда не уходят в минус', () => {
+    fc.assert(
+      fc.property(startArb, stepsArb, (start, steps) => {
+        let state = startState(start);
+        let now = NOW;
+        for (const [action, minutes] of steps) {
+          now += minutes * MINUTE;
+          state = applyFarmAction(state, action, now);
+          for (const value of Object.values(state.resources)) expect(value).toBeGreaterThanOrEqual(0);
+          for (const value of Object.values(state.seeds ?? {})) expect(value).toBeGreaterThanOrEqual(0);
+        }
+      })
+    );
+  });
+
+  it('посадка и сбор не создают монет сверх наград за уровень', () => {
+    const cycleArb = fc.array(
+      fc.tuple(fc.constantFrom(...cropSlotIds.slice(0, 3)), fc.constantFrom('tomato' as const, 'cucumber' as const), fc.integer({ min: 0, max: 15 })),
+      { maxLength: 80 }
+    );
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 500 }), cycleArb, (coins, steps) => {
+        const { crops } = getEconomy();
+        let state = startState({ coins, gems: 0, feed: 0, level: 1 });
+        let now = NOW;
+        let plantCosts = 0;
+        for (const [slotId, type, minutes] of steps) {
+          now += minutes * MINUTE;
+          const harvested = harvestCrop(state, slotId, now);
+          if (harvested !== state) {
+            state = harvested;
+            continue;
+          }
+          const planted = plantCrop(state, slotId, type, now);
+          if (planted !== state) plantCosts += crops[type].plantCost;
+          state = planted;
+        }
+        // Монеты меняются только на цену посадки и награды за новые уровни
+        expect(state.resources.coins).toBe(coins - plantCosts + levelRewardCoins(1, state.level));
+      })
+    );
+  });
+
+  it('продажа приносит не больше цены из каталога с дневным колебанием', () => {
+    const { dailyAmplitude } = getEconomy().market;
+    fc.assert(
+      fc.property(fc.constantFrom(...PRODUCT_IDS), fc.integer({ min: 1, max: 500 }), fc.integer({ min: 0, max: 365 }), (id, amount, day) => {
+        const state = startState({ coins: 0, gems: 0, feed: 0, level: 1 });
+        const stocked = { ...state, resources: { ...state.resources, [id]: amount } };
+        const sold = applyFarmAction(stocked, { type: 'sellResources', basket: { [id]: amount } }, NOW + day * 24 * 60 * MINUTE);
+        const maxPrice = Math.round(getEconomy().products[id].sellPrice * (1 + dailyAmplitude));
+        expect(sold.resources.coins).toBeLessThanOrEqual(amount * maxPrice + levelRewardCoins(1, sold.level));
+      })
+    );
+  });
+
+  it('каждые harvestsPerLevel сборов грядка получает уровень', () => {
+    const { harvestsPerLevel, maxLevel } = getEconomy().slotLevels;
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 60 }), (harvests) => {
+        let state = startState({ coins: 100_000, gems: 0, feed: 0, level: 1 });
+        let now = NOW;
+        for (let i = 0; i < harvests; i++) {
+          state = plantCrop(state, 'c1', 'tomato', now);
+          now += 60 * MINUTE;
+          state = harvestCrop(state, 'c1', now);
+        }
+        const slot = state.crops.find((c) => c.id === 'c1')!;
+        expect(slot.level).toBe(Math.min(maxLevel, 1 + Math.floor(harvests / harvestsPerLevel)));
+        expect(slot.harvestsSinceLevel).toBe(harvests % harvestsPerLevel);
+      })
+    );
+  });
+
+  it('ускорение идущего таймера никогда не бесплатно', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 0.01, max: 24 * 60, noNaN: true }), fc.double({ min: 0, max: 1, noNaN: true }), (minutes, share) => {
+        const timer = createTimer(minutes, NOW);
+        const now = NOW + Math.floor(timer.durationMs * share);
+        if (isTimerReady(timer, now)) expect(getBoostCost(timer, now)).toBe(0);
+        else expect(getBoostCost(timer, now)).toBeGreaterThan(0);
+      })
+    );
+  });
+});
@@ -0,0 +1,381 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState } from './gameTypes';
+import { createInitialState } from './initialState';
+import { getEconomy } from './economy';
+import {
+  boostAnimal,
+  boostCrop,
+  buyAutoCollectPerk,
+  buyFeed,
+  buyPen,
+  buyPlot,
+  buySeeds,
+  collectAll,
+  collectAnimalProduct,
+  createTimer,
+  ensureExtendedState,
+  exchangeCoinsToGems,
+  exchangeGemsToCoins,
+  feedAll,
+  feedAnimal,
+  gemUpgradeAnimal,
+  gemUpgradeCrop,
+  getBoostCost,
+  getExpansionCost,
+  getPlotUnlockRule,
+  getSellPreview,
+  getSlotDurationMinutes,
+  getSlotYield,
+  getTimerProgress,
+  harvestAll,
+  harvestCrop,
+  isTimerReady,
+  plantAll,
+  plantCrop,
+  sellProduce,
+  sellResources,
+  setSellReserve,
+  unlockAnimal,
+  unlockCrop,
+  unlockSeeds,
+  upgradeAnimal,
+  upgradeCrop
+} from './gameLogic';
+import { getMarketPrice } from './market';
+
+// Редьюсеры gameLogic.ts на эталонном каталоге и фиксированных часах
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const MINUTE = 60 * 1000;
+
+function withResources(resources: Partial<GameState['resources']>, state: GameState = createInitialState()): GameState {
+  return { ...state, resources: { ...state.resources, ...resources } };
+}
+
+const crop = (state: GameState, id: string) => state.crops.find((c) => c.id === id)!;
+const animal = (state: GameState, id: string) => state.animals.find((a) => a.id === id)!;
+
+/** Ферма с созревшей грядкой c1 и готовой продукцией у a1. */
+function readyFarm(): GameState {
+  return feedAnimal(plantCrop(createInitialState(), 'c1', undefined, NOW), 'a1', NOW);
+}
+const LATER = NOW + 60 * MINUTE;
+
+describe('таймеры', () => {
+  it('createTimer берёт время из now', () => {
+    expect(createTimer(3, NOW)).toEqual({ startedAt: NOW, durationMs: 3 * MINUTE });
+  });
+
+  it('прогресс и готовность считаются по переданному времени', () => {
+    const timer = createTimer(10, NOW);
+    expect(getTimerProgress(timer, NOW + 5 * MINUTE)).toBe(0.5);
+    expect(getTimerProgress(timer, NOW + 20 * MINUTE)).toBe(1);
+    expect(getTimerProgress(null, NOW)).toBe(0);
+    expect(isTimerReady(timer, NOW + 10 * MINUTE - 1)).toBe(false);
+    expect(isTimerReady(timer, NOW + 10 * MINUTE)).toBe(true);
+    expect(isTimerReady(null, NOW)).toBe(false);
+  });
+
+  it('цена ускорения — гем за каждую начатую минуту, готовый таймер бесплатен', () => {
+    const timer = createTimer(10, NOW);
+    expect(getBoostCost(timer, NOW)).toBe(10);
+    expect(getBoostCost(timer, NOW + 9 * MINUTE + 1)).toBe(1);
+    expect(getBoostCost(timer, NOW + 10 * MINUTE)).toBe(0);
+    expect(getBoostCost(null, NOW)).toBe(0);
+  });
+});
+
+describe('ensureExtendedState', () => {
+  it('достраивает недостающие слоты, здания и ресурсы из шаблона', () => {
+    const base = createInitialState();
+    const partial = { level: 0, resources: { coins: 42 }, crops: [base.crops[0]], animals: [] } as unknown as GameState;
+    const state = ensureExtendedState(partial);
+    expect(state.level).toBe(1);
+    expect(state.resources.coins).toBe(42);
+    expect(state.resources.feed).toBe(base.resources.feed);
+    expect(state.crops.map((c) => c.id)).toEqual(base.crops.map((c) => c.id));
+    expect(state.animals).toHaveLength(base.animals.length);
+    expect(state.buildings).toHaveLength(base.buildings!.length);
+  });
+
+  it('сохраняет докупленные сверх шаблона слоты', () => {
+    const base = createInitialState();
+    const extra = { ...base.crops[0], id: 'c7' };
+    const state = ensureExtendedState({ ...base, crops: [...base.crops, extra] });
+    expect(state.crops.at(-1)?.id).toBe('c7');
+  });
+});
+
+describe('прогрессия слота', () => {
+  it('уровень добавляет выход и сокращает время, гем-апгрейд удваивает', () => {
+    const slot = crop(createInitialState(), 'c1');
+    expect(getSlotYield(slot)).toBe(3);
+    expect(getSlotYield({ ...slot, level: 3 })).toBe(6);
+    expect(getSlotYield({ ...slot, gemUpgradeLevel: 1 })).toBe(6);
+    expect(getSlotDurationMinutes('crop', slot)).toBe(3);
+    expect(getSlotDurationMinutes('crop', { ...slot, gemUpgradeLevel: 1 })).toBe(1.5);
+    expect(getSlotDurationMinutes('crop', { ...slot, level: 20 })).toBe(3 * getEconomy().slotLevels.minDurationFactor);
+  });
+});
+
+describe('грядки', () => {
+  it('посадка без семян стоит цену посадки и даёт опыт', () => {
+    const state = plantCrop(createInitialState(), 'c1', undefined, NOW);
+    expect(state.resources.coins).toBe(95);
+    expect(state.xp).toBe(2);
+    expect(crop(state, 'c1').timer).toEqual(createTimer(3, NOW));
+  });
+
+  it('посадка тратит семя из запаса вместо монет и меняет культуру', () => {
+    const state = plantCrop({ ...createInitialState(), seeds: { cucumber: 2 } }, 'c1', 'cucumber', NOW);
+    expect(state.resources.coins).toBe(100);
+    expect(state.seeds?.cucumber).toBe(1);
+    expect(crop(state, 'c1').type).toBe('cucumber');
+  });
+
+  it('не сажает на занятую, закрытую грядку, неоткрытую культуру и без монет', () => {
+    const planted = plantCrop(createInitialState(), 'c1', undefined, NOW);
+    expect(plantCrop(planted, 'c1', undefined, NOW)).toBe(planted);
+    const initial = createInitialState();
+    expect(plantCrop(initial, 'c4', undefined, NOW)).toBe(initial);
+    expect(plantCrop(initial, 'c1', 'corn', NOW)).toBe(initial);
+    const poor = withResources({ coins: 4 });
+    expect(plantCrop(poor, 'c1', undefined, NOW)).toBe(poor);
+  });
+
+  it('урожай собирается только с созревшей грядки', () => {
+    const planted = plantCrop(createInitialState(), 'c1', undefined, NOW);
+    expect(harvestCrop(planted, 'c1', NOW + MINUTE)).toBe(planted);
+    const harvested = harvestCrop(planted, 'c1', NOW + 3 * MINUTE);
+    expect(harvested.resources.tomato).toBe(3);
+    expect(crop(harvested, 'c1').timer).toBeNull();
+    expect(crop(harvested, 'c1').harvestsSinceLevel).toBe(1);
+  });
+
+  it('ускорение списывает гемы и завершает таймер', () => {
+    const planted = plantCrop(createInitialState(), 'c1', undefined, NOW);
+    const boosted = boostCrop(planted, 'c1', NOW + MINUTE);
+    expect(boosted.resources.gems).toBe(3);
+    expect(isTimerReady(crop(boosted, 'c1').timer, NOW + MINUTE)).toBe(true);
+    expect(boostCrop(boosted, 'c1', NOW + MINUTE)).toBe(boosted);
+    const broke = withResources({ gems: 0 }, planted);
+    expect(boostCrop(broke, 'c1', NOW)).toBe(broke);
+  });
+
+  it('улучшение за монеты стоит уровень × цену уровня', () => {
+    const state = upgradeCrop(createInitialState(), 'c1');
+    expect(state.resources.coins).toBe(50);
+    expect(crop(state, 'c1').level).toBe(2);
+    const poor = withResources({ coins: 49 });
+    expect(upgradeCrop(poor, 'c1')).toBe(poor);
+    const maxed = { ...createInitialState(), crops: createInitialState().crops.map((c) => ({ ...c, level: 20 })) };
+    expect(upgradeCrop(withResources({ coins: 10_000 }, maxed), 'c1').crops[0].level).toBe(20);
+  });
+
+  it('гем-апгрейд ограничен максимальным уровнем', () => {
+    let state = withResources({ gems: 100 });
+    state = gemUpgradeCrop(gemUpgradeCrop(state, 'c1'), 'c1');
+    expect(crop(state, 'c1').gemUpgradeLevel).toBe(2);
+    expect(state.resources.gems).toBe(60);
+    expect(gemUpgradeCrop(state, 'c1')).toBe(state);
+  });
+});
+
+describe('семена и грядки за гемы', () => {
+  it('семена культуры открываются с уровнем фермы', () => {
+    const rich = withResources({ gems: 100 });
+    expect(unlockSeeds(rich, 'corn')).toBe(rich);
+    const state = unlockSeeds({ ...rich, level: 3 }, 'corn');
+    expect(state.unlockedCrops).toEqual(['corn']);
+    expect(state.resources.gems).toBe(70);
+    expect(unlockSeeds(state, 'corn')).toBe(state);
+  });
+
+  it('семена покупаются по цене посадки за штуку', () => {
+    const state = buySeeds(createInitialState(), 'tomato', 10);
+    expect(state.seeds?.tomato).toBe(10);
+    expect(state.resources.coins).toBe(50);
+    const initial = createInitialState();
+    expect(buySeeds(initial, 'corn', 1)).toBe(initial);
+    expect(buySeeds(initial, 'tomato', 0)).toBe(initial);
+    expect(buySeeds(initial, 'tomato', 21)).toBe(initial);
+  });
+
+  it('закрытые грядки покупаются по очереди правил plotUnlocks', () => {
+    const rich = { ...withResources({ gems: 100 }), level: 5 };
+    expect(getPlotUnlockRule(rich)).toEqual(getEconomy().plotUnlocks[0]);
+    const first = unlockCrop(rich, 'c4');
+    expect(crop(first, 'c4').unlocked).toBe(true);
+    expect(first.resources.gems).toBe(70);
+    expect(getPlotUnlockRule(first)).toEqual(getEconomy().plotUnlocks[1]);
+    expect(unlockCrop(first, 'c4')).toBe(first);
+    const lowLevel = { ...rich, level: 1 };
+    expect(unlockCrop(lowLevel, 'c4')).toBe(lowLevel);
+  });
+
+  it('грядки из расширения не двигают очередь plotUnlocks', () => {
+    const rich = { ...withResources({ coins: 5000, gems: 500 }), level: 5 };
+    const expanded = buyPlot(buyPlot(rich));
+    expect(expanded.crops).toHaveLength(rich.crops.length + 2);
+    expect(getPlotUnlockRule(expanded)).toEqual(getEconomy().plotUnlocks[0]);
+    expect(unlockCrop(expanded, 'c4').resources.gems).toBe(expanded.resources.gems - getEconomy().plotUnlocks[0].gems);
+  });
+});
+
+describe('животные', () => {
+  it('кормление тратит корм и запускает таймер', () => {
+    const state = feedAnimal(createInitialState(), 'a1', NOW);
+    expect(state.resources.feed).toBe(4);
+    expect(animal(state, 'a1').timer).toEqual(createTimer(10, NOW));
+    expect(feedAnimal(state, 'a1', NOW)).toBe(state);
+    const hungry = withResources({ feed: 0 });
+    expect(feedAnimal(hungry, 'a1', NOW)).toBe(hungry);
+  });
+
+  it('животное в закрытом загоне не кормится', () => {
+    const initial = createInitialState();
+    expect(feedAnimal(initial, 'a3', NOW)).toBe(initial);
+  });
+
+  it('продукция забирается после таймера', () => {
+    const fed = feedAnimal(createInitialState(), 'a1', NOW);
+    expect(collectAnimalProduct(fed, 'a1', NOW + MINUTE)).toBe(fed);
+    const collected = collectAnimalProduct(fed, 'a1', NOW + 10 * MINUTE);
+    expect(collected.resources.milk).toBe(1);
+    expect(animal(collected, 'a1').timer).toBeNull();
+  });
+
+  it('ускорение животного списывает гемы', () => {
+    const fed = feedAnimal(createInitialState(), 'a2', NOW);
+    const boosted = boostAnimal(fed, 'a2', NOW + 4 * MINUTE);
+    expect(boosted.resources.gems).toBe(1);
+    expect(isTimerReady(animal(boosted, 'a2').timer, NOW + 4 * MINUTE)).toBe(true);
+    expect(boostAnimal(fed, 'a2', NOW)).toBe(fed);
+  });
+
+  it('загон открывается за гемы с уровнем фермы', () => {
+    const rich = withResources({ gems: 100 });
+    expect(unlockAnimal(rich, 'a3')).toBe(rich);
+    const state = unlockAnimal({ ...rich, level: 4 }, 'a3');
+    expect(animal(state, 'a3').unlocked).toBe(true);
+    expect(state.resources.gems).toBe(70);
+    expect(unlockAnimal(state, 'a3')).toBe(state);
+    // Слот без флага считается открытым, как и во всех остальных редьюсерах
+    const legacy = { ...rich, level: 4, animals: rich.animals.map((a) => (a.id === 'a1' ? { ...a, unlocked: undefined } : a)) };
+    expect(unlockAnimal(legacy, 'a1')).toBe(legacy);
+  });
+
+  it('улучшения животного за монеты и гемы', () => {
+    const upgraded = upgradeAnimal(createInitialState(), 'a1');
+    expect(animal(upgraded, 'a1').level).toBe(2);
+    const gem = gemUpgradeAnimal(withResources({ gems: 100 }), 'a1');
+    expect(animal(gem, 'a1').gemUpgradeLevel).toBe(1);
+    expect(gemUpgradeAnimal(gem, 'a1')).toBe(gem);
+  });
+});
+
+describe('массовые действия', () => {
+  it('plantAll сажает, пока хватает монет, и сообщает о пропусках', () => {
+    const result = plantAll(withResources({ coins: 10 }), undefined, NOW);
+    expect(result.done).toEqual(['c1', 'c2']);
+    expect(result.skipped).toEqual([{ slotId: 'c3', reason: 'coins' }]);
+    expect(result.state.resources.coins).toBe(0);
+  });
+
+  it('plantAll сначала сажает на прокачанные грядки', () => {
+    const base = createInitialState();
+    const state = withResources({ coins: 5 }, { ...base, crops: base.crops.map((c) => (c.id === 'c3' ? { ...c, level: 4 } : c)) });
+    expect(plantAll(state, undefined, NOW).done).toEqual(['c3']);
+  });
+
+  it('harvestAll и collectAll собирают только готовое', () => {
+    const farm = readyFarm();
+    expect(harvestAll(farm, NOW).done).toEqual([]);
+    expect(harvestAll(farm, LATER).done).toEqual(['c1']);
+    expect(collectAll(farm, LATER).state.resources.milk).toBe(1);
+  });
+
+  it('feedAll кормит, пока хватает корма', () => {
+    const result = feedAll(withResources({ feed: 1 }), NOW);
+    expect(result.done).toEqual(['a1']);
+    expect(result.skipped).toEqual([{ slotId: 'a2', reason: 'feed' }]);
+  });
+});
+
+describe('рынок', () => {
+  const stocked = withResources({ tomato: 10, milk: 4 });
+
+  it('превью обрезает количество до доступного без резерва', () => {
+    const reserved = setSellReserve(stocked, 'tomato', 6);
+    const preview = getSellPreview(reserved, { tomato: 10, milk: 1 }, NOW);
+    expect(preview.lines.map((l) => [l.id, l.amount])).toEqual([
+      ['tomato', 4],
+      ['milk', 1]
+    ]);
+    expect(preview.total).toBe(4 * getMarketPrice(reserved, 'tomato', NOW) + getMarketPrice(reserved, 'milk', NOW));
+  });
+
+  it('продажа зачисляет выручку и давит на цену', () => {
+    const price = getMarketPrice(stocked, 'tomato', NOW);
+    const sold = sellResources(stocked, { tomato: 10 }, NOW);
+    expect(sold.resources.tomato).toBe(0);
+    expect(sold.resources.coins).toBe(100 + 10 * price);
+    expect(getMarketPrice(sold, 'tomato', NOW)).toBeLessThanOrEqual(price);
+    expect(sellResources(createInitialState(), { tomato: 1 }, NOW).resources.coins).toBe(100);
+  });
+
+  it('sellProduce продаёт всё сверх резерва', () => {
+    const sold = sellProduce(setSellReserve(stocked, 'milk', 4), NOW);
+    expect(sold.resources.tomato).toBe(0);
+    expect(sold.resources.milk).toBe(4);
+  });
+
+  it('резерв не меняет состояние, если значение то же', () => {
+    const reserved = setSellReserve(stocked, 'tomato', 3.7);
+    expect(reserved.sellReserve?.tomato).toBe(3);
+    expect(setSellReserve(reserved, 'tomato', 3)).toBe(reserved);
+  });
+});
+
+describe('лавка и обмен', () => {
+  it('корм продаётся паками с уровнем фермы', () => {
+    const state = buyFeed(createInitialState(), 'small');
+    expect(state.resources.feed).toBe(10);
+    expect(state.resources.coins).toBe(80);
+    const initial = createInitialState();
+    expect(buyFeed(initial, 'medium')).toBe(initial);
+  });
+
+  it('обмен валют по курсу каталога', () => {
+    const coins = exchangeGemsToCoins(withResources({ gems: 10 }));
+    expect(coins.resources).toMatchObject({ gems: 0, coins: 200 });
+    const gems = exchangeCoinsToGems(withResources({ coins: 100_000 }));
+    expect(gems.resources).toMatchObject({ coins: 0, gems: 10_005 });
+    const initial = createInitialState();
+    expect(exchangeCoinsToGems(initial)).toBe(initial);
+  });
+
+  it('перк автосбора покупается один раз', () => {
+    const state = buyAutoCollectPerk(withResources({ gems: 200 }));
+    expect(state.perks?.autoCollect).toBe(true);
+    expect(state.resources.gems).toBe(50);
+    expect(buyAutoCollectPerk(state)).toBe(state);
+  });
+});
+
+describe('расширение фермы', () => {
+  const rich = { ...withResources({ coins: 10_000, gems: 1000 }), level: 6 };
+
+  it('новая грядка получает следующий id и дорожает', () => {
+    const first = buyPlot(rich);
+    expect(first.crops.at(-1)?.id).toBe('c7');
+    expect(first.resources).toMatchObject({ coins: 9700, gems: 990 });
+    expect(getExpansionCost(first, 'crop')).toEqual({ coins: 480, gems: 16 });
+    expect(buyPlot({ ...rich, level: 3 }).crops).toHaveLength(rich.crops.length);
+  });
+
+  it('загон покупается только для открытого вида', () => {
+    expect(buyPen(rich, 'cow').animals.at(-1)).toMatchObject({ id: 'a7', type: 'cow' });
+    expect(buyPen(rich, 'goat')).toBe(rich);
+  });
+});
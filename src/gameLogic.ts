@@ -1,25 +1,31 @@
-import type { GameState, CropType, AnimalType, TimerState } from './gameTypes';
+import type { GameState, CropType, AnimalType, TimerState, CropSlot, AnimalSlot } from './gameTypes';
 import { createInitialState } from './initialState';
+import { CROP_TYPES, getEconomy, PRODUCT_IDS, type FeedPack, type ProductId, type UnlockRule } from './economy';
+import { getActionXp, getSaleXp, grantXp } from './progression';
+import { getMarketPrice, recordSale } from './market';
 
 const MINUTE = 60 * 1000;
 
-function createTimer(durationMinutes: number): TimerState {
+// Всё, что зависит от времени, принимает now последним параметром (по умолчанию Date.now()):
+// сервер и тесты передают свои часы, UI — текущее время.
+
+export function createTimer(durationMinutes: number, now: number = Date.now()): TimerState {
   return {
-    startedAt: Date.now(),
+    startedAt: now,
     durationMs: durationMinutes * MINUTE
   };
 }
 
-export function getTimerProgress(timer: TimerState | null): number {
+export function getTimerProgress(timer: TimerState | null, now: number = Date.now()): number {
   if (!timer) return 0;
-  const elapsed = Date.now() - timer.startedAt;
+  const elapsed = now - timer.startedAt;
   const p = Math.min(1, Math.max(0, elapsed / timer.durationMs));
   return p;
 }
 
-export function isTimerReady(timer: TimerState | null): boolean {
+export function isTimerReady(timer: TimerState | null, now: number = Date.now()): boolean {
   if (!timer) return false;
-  return Date.now() - timer.startedAt >= timer.durationMs;
+  return now - timer.startedAt >= timer.durationMs;
 }
 
 // Нормализуем ресурсы: все поля из эталона присутствуют, отсутствующие = 0
@@ -42,6 +48,9 @@ function normalizeResources(resources: GameState['resources'] | undefined): Game
     meat: typeof resources.meat === 'number' ? resources.meat : 0,
     feathers: typeof resources.feathers === 'number' ? resources.feathers : 0,
     wool: typeof resources.wool === 'number' ? resources.wool : 0,
+    butter: typeof resources.butter === 'number' ? resources.butter : 0,
+    cloth: typeof resources.cloth === 'number' ? resources.cloth : 0,
+    cornbread: typeof resources.cornbread === 'number' ? resources.cornbread : 0,
     feed: typeof resources.feed === 'number' ? resources.feed : (base.feed ?? 5)
   };
 }
@@ -54,22 +63,46 @@ export function ensureExtendedState(state: GameState): GameState {
 
   const cropsById = new Map(safeCrops.map((c) => [c.id, c]));
   const animalsById = new Map(safeAnimals.map((a) => [a.id, a]));
-
-  const crops = base.crops.map((tpl) => {
-    const existing = cropsById.get(tpl.id);
+  // Купленные сверх шаблона слоты (расширение фермы) сохраняются как есть, после шаблонных
+  const cropTemplateIds = new Set(base.crops.map((c) => c.id));
+  const animalTemplateIds = new Set(base.animals.map((a) => a.id));
+
+  const crops = [
+    ...base.crops.map((tpl) => {
+      const existing = cropsById.get(tpl.id);
+      return {
+        ...tpl,
+        ...existing,
+        harvestsSinceLevel: existing?.harvestsSinceLevel ?? 0
+      };
+    }),
+    ...safeCrops
+      .filter((c) => !cropTemplateIds.has(c.id))
+      .map((c) => ({ ...c, harvestsSinceLevel: c.harvestsSinceLevel ?? 0 }))
+  ];
+
+  const animals = [
+    ...base.animals.map((tpl) => {
+      const existing = animalsById.get(tpl.id);
+      return {
+        ...tpl,
+        ...existing,
+        harvestsSinceLevel: existing?.harvestsSinceLevel ?? 0
+      };
+    }),
+    ...safeAnimals
+      .filter((a) => !animalTemplateIds.has(a.id))
+      .map((a) => ({ ...a, harvestsSinceLevel: a.harvestsSinceLevel ?? 0 }))
+  ];
+
+  const safeBuildings = Array.isArray(state.buildings) ? state.buildings.filter((b) => b != null && typeof b === 'object' && b.id != null) : [];
+  const buildingsById = new Map(safeBuildings.map((b) => [b.id, b]));
+  const buildings = (base.buildings ?? []).map((tpl) => {
+    const existing = buildingsById.get(tpl.id);
     return {
       ...tpl,
       ...existing,
-      harvestsSinceLevel: existing?.harvestsSinceLevel ?? 0
-    };
-  });
-
-  const animals = base.animals.map((tpl) => {
-    const existing = animalsById.get(tpl.id);
-    return {
-      ...tpl,
-      ...existing,
-      harvestsSinceLevel: existing?.harvestsSinceLevel ?? 0
+      queue: Array.isArray(existing?.queue) ? existing.queue : []
     };
   });
 
@@ -77,49 +110,84 @@ export function ensureExtendedState(state: GameState): GameState {
 
   return {
     ...state,
+    buildings,
+    level: typeof state.level === 'number' && state.level >= 1 ? state.level : base.level,
+    xp: typeof state.xp === 'number' && state.xp >= 0 ? state.xp : 0,
     resources,
     crops,
     animals
   };
 }
 
-export function plantCrop(state: GameState, slotId: string): GameState {
-  const slot = state.crops.find((c) => c.id === slotId);
-  if (!slot) return state;
-
-  // Стоимость посадки зависит от типа культуры
-  let cost = 5;
-  if (slot.type === 'corn') cost = 10;
-  if (slot.type === 'watermelon') cost = 15;
-  if (slot.type === 'apple') cost = 20;
+// Прогрессия слота. Одни и те же функции считают выход и время и в редьюсерах, и в карточках UI.
+// Уровень слота (сборы + апгрейд за монеты) даёт +yieldPerLevel к выходу и -durationCutPerLevel к времени,
+// гем-апгрейд — ×2 к выходу и в 2 раза быстрее за каждый уровень.
 
-  if (state.resources.coins < cost) return state;
-  if (slot.timer) return state;
+function getSlotLevelSteps(slot: CropSlot | AnimalSlot): number {
+  const { maxLevel } = getEconomy().slotLevels;
+  return Math.max(0, Math.min(slot.level, maxLevel) - 1);
+}
 
-  let durationMinutes: number;
-  switch (slot.type) {
-    case 'tomato':
-      durationMinutes = 3;
-      break;
-    case 'cucumber':
-      durationMinutes = 5;
-      break;
-    case 'corn':
-      durationMinutes = 6;
-      break;
-    case 'watermelon':
-      durationMinutes = 8;
-      break;
-    case 'apple':
-      durationMinutes = 10;
-      break;
-    default:
-      durationMinutes = 5;
-  }
+// Выход с одного сбора: базовый выход × (1 + yieldPerLevel * (уровень - 1)) × 2^гем-уровень
+export function getSlotYield(slot: CropSlot | AnimalSlot): number {
+  const { yieldPerLevel } = getEconomy().slotLevels;
+  const gemLevel = slot.gemUpgradeLevel ?? 0;
+  const levelYield = Math.floor(slot.baseYield * (1 + yieldPerLevel * getSlotLevelSteps(slot)));
+  return Math.max(1, levelYield) * Math.pow(2, gemLevel);
+}
 
-  // Учитываем гем-апгрейд (каждый уровень в 2 раза быстрее)
+// Время роста/производства в минутах с учётом уровня слота и гем-апгрейда
+export function getSlotDurationMinutes(kind: 'crop' | 'animal', slot: CropSlot | AnimalSlot): number {
+  const economy = getEconomy();
+  const { durationCutPerLevel, minDurationFactor } = economy.slotLevels;
+  const base =
+    kind === 'crop'
+      ? economy.crops[slot.type as CropType].durationMinutes
+      : economy.animals[slot.type as AnimalType].durationMinutes;
+  const levelFactor = Math.max(minDurationFactor, 1 - durationCutPerLevel * getSlotLevelSteps(slot));
   const gemLevel = slot.gemUpgradeLevel ?? 0;
-  durationMinutes = durationMinutes / Math.pow(2, gemLevel);
+  return (base * levelFactor) / Math.pow(2, gemLevel);
+}
+
+// Прогресс уровня слота после сбора: каждые harvestsPerLevel сборов +1 уровень (не выше maxLevel)
+function advanceSlotLevel<T extends CropSlot | AnimalSlot>(slot: T): T {
+  const { harvestsPerLevel, maxLevel } = getEconomy().slotLevels;
+  const totalHarvests = (slot.harvestsSinceLevel ?? 0) + 1;
+  const levelUps = Math.floor(totalHarvests / harvestsPerLevel);
+  const level = Math.min(maxLevel, slot.level + levelUps);
+  return {
+    ...slot,
+    timer: null,
+    level: Math.max(slot.level, level),
+    harvestsSinceLevel: level >= maxLevel ? 0 : totalHarvests % harvestsPerLevel
+  };
+}
+
+/** Культуры, которые можно сажать: без правила открытия в каталоге и открытые игроком. */
+export function getUnlockedCrops(state: GameState): CropType[] {
+  const economy = getEconomy();
+  return CROP_TYPES.filter((type) => economy.crops[type].unlock === null || (state.unlockedCrops ?? []).includes(type));
+}
+
+export function isCropUnlocked(state: GameState, type: CropType): boolean {
+  return getUnlockedCrops(state).includes(type);
+}
+
+/** Посадить на грядку выбранную культуру (по умолчанию — ту же, что росла). */
+export function plantCrop(state: GameState, slotId: string, crop?: CropType, now: number = Date.now()): GameState {
+  const slot = state.crops.find((c) => c.id === slotId);
+  if (!slot || slot.unlocked === false || slot.timer) return state;
+  const type = crop ?? slot.type;
+  if (!isCropUnlocked(state, type)) return state;
+
+  // Сначала тратим семя из запаса, без запаса платим цену посадки из каталога
+  const seeds = state.seeds?.[type] ?? 0;
+  const cost = seeds > 0 ? 0 : getEconomy().crops[type].plantCost;
+  if (state.resources.coins < cost) return state;
+
+  // Время роста — культуры, с учётом уровня грядки
+  const planted: CropSlot = { ...slot, type };
+  const durationMinutes = getSlotDurationMinutes('crop', planted);
 
   const newState: GameState = {
     ...state,
@@ -127,49 +195,24 @@ export function plantCrop(state: GameState, slotId: string): GameState {
       ...state.resources,
       coins: state.resources.coins - cost
     },
+    seeds: seeds > 0 ? { ...state.seeds, [type]: seeds - 1 } : state.seeds,
     crops: state.crops.map((c) =>
-      c.id === slotId ? { ...c, timer: createTimer(durationMinutes) } : c
+      c.id === slotId ? { ...planted, timer: createTimer(durationMinutes, now) } : c
     )
   };
 
-  return newState;
+  return grantXp(newState, getActionXp('plant'));
 }
 
-export function feedAnimal(state: GameState, slotId: string): GameState {
+export function feedAnimal(state: GameState, slotId: string, now: number = Date.now()): GameState {
   const slot = state.animals.find((a) => a.id === slotId);
-  if (!slot) return state;
+  if (!slot || slot.unlocked === false) return state;
 
-  const feedCost = 1;
+  const feedCost = getEconomy().animals[slot.type].feedCost;
   if (state.resources.feed < feedCost) return state;
   if (slot.timer) return state;
 
-  let durationMinutes: number;
-  switch (slot.type) {
-    case 'cow':
-      durationMinutes = 10;
-      break;
-    case 'chicken':
-      durationMinutes = 8;
-      break;
-    case 'goat':
-      durationMinutes = 9;
-      break;
-    case 'sheep':
-      durationMinutes = 9;
-      break;
-    case 'pig':
-      durationMinutes = 12;
-      break;
-    case 'goose':
-      durationMinutes = 7;
-      break;
-    default:
-      durationMinutes = 10;
-  }
-
-  // Учитываем гем-апгрейд (каждый уровень в 2 раза быстрее)
-  const gemLevel = slot.gemUpgradeLevel ?? 0;
-  durationMinutes = durationMinutes / Math.pow(2, gemLevel);
+  const durationMinutes = getSlotDurationMinutes('animal', slot);
 
   const newState: GameState = {
     ...state,
@@ -178,160 +221,194 @@ export function feedAnimal(state: GameState, slotId: string): GameState {
       feed: state.resources.feed - feedCost
     },
     animals: state.animals.map((a) =>
-      a.id === slotId ? { ...a, timer: createTimer(durationMinutes) } : a
+      a.id === slotId ? { ...a, timer: createTimer(durationMinutes, now) } : a
     )
   };
 
-  return newState;
+  return grantXp(newState, getActionXp('feed'));
 }
 
-export function harvestCrop(state: GameState, slotId: string): GameState {
+export function harvestCrop(state: GameState, slotId: string, now: number = Date.now()): GameState {
   const slot = state.crops.find((c) => c.id === slotId);
   if (!slot || !slot.timer) return state;
-  if (!isTimerReady(slot.timer)) return state;
+  if (!isTimerReady(slot.timer, now)) return state;
 
-  const gemLevel = slot.gemUpgradeLevel ?? 0;
-  const yieldMultiplier = Math.pow(2, gemLevel);
-  const yieldAmount = slot.baseYield * yieldMultiplier;
+  const yieldAmount = getSlotYield(slot);
 
+  const product = getEconomy().crops[slot.type].product;
   const newResources = { ...state.resources };
-  if (slot.type === 'tomato') {
-    newResources.tomato += yieldAmount;
-  } else if (slot.type === 'cucumber') {
-    newResources.cucumber += yieldAmount;
-  } else if (slot.type === 'corn') {
-    newResources.corn += yieldAmount;
-  } else if (slot.type === 'watermelon') {
-    newResources.watermelon += yieldAmount;
-  } else if (slot.type === 'apple') {
-    newResources.apple += yieldAmount;
-  }
-
-  // Обновляем прогресс уровня: каждые 5 сборов +1 уровень
-  const currentHarvests = slot.harvestsSinceLevel ?? 0;
-  const totalHarvests = currentHarvests + 1;
-  const levelUps = Math.floor(totalHarvests / 5);
-  const newHarvestsSinceLevel = totalHarvests % 5;
+  newResources[product] += yieldAmount;
 
+  // Обновляем прогресс уровня слота
   const newState: GameState = {
     ...state,
     resources: newResources,
-    crops: state.crops.map((c) =>
-      c.id === slotId
-        ? {
-            ...c,
-            timer: null,
-            level: c.level + levelUps,
-            harvestsSinceLevel: newHarvestsSinceLevel
-          }
-        : c
-    )
+    crops: state.crops.map((c) => (c.id === slotId ? advanceSlotLevel(c) : c))
   };
 
-  return newState;
+  return grantXp(newState, getActionXp('harvest'));
 }
 
-export function collectAnimalProduct(state: GameState, slotId: string): GameState {
+export function collectAnimalProduct(state: GameState, slotId: string, now: number = Date.now()): GameState {
   const slot = state.animals.find((a) => a.id === slotId);
   if (!slot || !slot.timer) return state;
-  if (!isTimerReady(slot.timer)) return state;
+  if (!isTimerReady(slot.timer, now)) return state;
 
-  const gemLevel = slot.gemUpgradeLevel ?? 0;
-  const yieldMultiplier = Math.pow(2, gemLevel);
-  const yieldAmount = slot.baseYield * yieldMultiplier;
+  const yieldAmount = getSlotYield(slot);
 
+  const product = getEconomy().animals[slot.type].product;
   const newResources = { ...state.resources };
-  if (slot.type === 'cow') {
-    newResources.milk += yieldAmount;
-  } else if (slot.type === 'chicken') {
-    newResources.egg += yieldAmount;
-  } else if (slot.type === 'goat') {
-    newResources.cheese += yieldAmount;
-  } else if (slot.type === 'sheep') {
-    newResources.wool += yieldAmount;
-  } else if (slot.type === 'pig') {
-    newResources.meat += yieldAmount;
-  } else if (slot.type === 'goose') {
-    newResources.feathers += yieldAmount;
-  }
-
-  const currentHarvests = slot.harvestsSinceLevel ?? 0;
-  const totalHarvests = currentHarvests + 1;
-  const levelUps = Math.floor(totalHarvests / 5);
-  const newHarvestsSinceLevel = totalHarvests % 5;
+  newResources[product] += yieldAmount;
 
   const newState: GameState = {
     ...state,
     resources: newResources,
-    animals: state.animals.map((a) =>
-      a.id === slotId
-        ? {
-            ...a,
-            timer: null,
-            level: a.level + levelUps,
-            harvestsSinceLevel: newHarvestsSinceLevel
-          }
-        : a
-    )
+    animals: state.animals.map((a) => (a.id === slotId ? advanceSlotLevel(a) : a))
   };
 
-  return newState;
-}
-
-export function sellProduce(state: GameState): GameState {
-  const {
-    tomato,
-    cucumber,
-    corn,
-    watermelon,
-    apple,
-    milk,
-    egg,
-    cheese,
-    meat,
-    feathers,
-    wool
-  } = state.resources;
-  // Цены продажи урожая: база +25% (ранее было +15%, теперь ещё +10%), округление до целого
-  const price = (base: number) => Math.round(base * 1.25);
-  const income =
-    tomato * price(3) +
-    cucumber * price(4) +
-    corn * price(5) +
-    watermelon * price(6) +
-    apple * price(6) +
-    milk * price(9) +
-    egg * price(6) +
-    cheese * price(11) +
-    meat * price(13) +
-    feathers * price(4) +
-    wool * price(7);
-
-  if (income === 0) return state;
+  return grantXp(newState, getActionXp('collect'));
+}
 
-  return {
-    ...state,
-    resources: {
-      ...state.resources,
-      coins: state.resources.coins + income,
-      tomato: 0,
-      cucumber: 0,
-      corn: 0,
-      watermelon: 0,
-      apple: 0,
-      milk: 0,
-      egg: 0,
-      cheese: 0,
-      meat: 0,
-      feathers: 0,
-      wool: 0
+// Массовые действия: «посадить всё», «собрать всё», «покормить всех», «собрать продукцию».
+// Слоты обрабатываются одиночными редьюсерами по очереди, поэтому лимиты монет и корма те же.
+
+/** Почему слот пропущен: не хватило монет или корма */
+export type BulkSkipReason = 'coins' | 'feed';
+
+export interface BulkResult {
+  state: GameState;
+  /** id обработанных слотов по порядку */
+  done: string[];
+  skipped: { slotId: string; reason: BulkSkipReason }[];
+}
+
+/** Порядок обхода: сначала прокачанные слоты (больше урожая с посадки), при равенстве — как на ферме. */
+function byBulkPriority<T extends CropSlot | AnimalSlot>(slots: T[]): T[] {
+  return slots
+    .map((slot, index) => ({ slot, index }))
+    .sort((a, b) => b.slot.level - a.slot.level || a.index - b.index)
+    .map(({ slot }) => slot);
+}
+
+function applyToSlots<T extends CropSlot | AnimalSlot>(
+  state: GameState,
+  slots: T[],
+  apply: (state: GameState, slotId: string) => GameState,
+  skipReason: BulkSkipReason | null
+): BulkResult {
+  let current = state;
+  const done: string[] = [];
+  const skipped: BulkResult['skipped'] = [];
+  for (const slot of byBulkPriority(slots)) {
+    const next = apply(current, slot.id);
+    if (next !== current) {
+      current = next;
+      done.push(slot.id);
+    } else if (skipReason) {
+      skipped.push({ slotId: slot.id, reason: skipReason });
     }
-  };
+  }
+  return { state: current, done, skipped };
+}
+
+/** Посадить на всех открытых пустых грядках (crop — одну культуру везде), пока хватает семян и монет. */
+export function plantAll(state: GameState, crop?: CropType, now: number = Date.now()): BulkResult {
+  const empty = state.crops.filter((c) => c.unlocked !== false && !c.timer && isCropUnlocked(state, crop ?? c.type));
+  return applyToSlots(state, empty, (s, id) => plantCrop(s, id, crop, now), 'coins');
+}
+
+/** Собрать урожай со всех созревших грядок. */
+export function harvestAll(state: GameState, now: number = Date.now()): BulkResult {
+  const ready = state.crops.filter((c) => c.unlocked !== false && isTimerReady(c.timer, now));
+  return applyToSlots(state, ready, (s, id) => harvestCrop(s, id, now), null);
+}
+
+/** Покормить всех открытых голодных животных, пока хватает корма. */
+export function feedAll(state: GameState, now: number = Date.now()): BulkResult {
+  const hungry = state.animals.filter((a) => a.unlocked !== false && !a.timer);
+  return applyToSlots(state, hungry, (s, id) => feedAnimal(s, id, now), 'feed');
+}
+
+/** Собрать продукцию со всех животных, у которых она готова. */
+export function collectAll(state: GameState, now: number = Date.now()): BulkResult {
+  const ready = state.animals.filter((a) => a.unlocked !== false && isTimerReady(a.timer, now));
+  return applyToSlots(state, ready, (s, id) => collectAnimalProduct(s, id, now), null);
+}
+
+/** Корзина продажи: сколько каждой продукции продать. */
+export type SellBasket = Partial<Record<ProductId, number>>;
+
+export interface SellLine {
+  id: ProductId;
+  amount: number;
+  price: number;
+  income: number;
+}
+
+export interface SellPreview {
+  lines: SellLine[];
+  total: number;
 }
 
-export function buyFeed(state: GameState): GameState {
-  const packCost = 20;
-  const packAmount = 5;
+// Сколько можно продать, не трогая отложенный резерв
+export function getSellableAmount(state: GameState, id: ProductId): number {
+  const reserve = state.sellReserve?.[id] ?? 0;
+  return Math.max(0, (state.resources[id] ?? 0) - reserve);
+}
+
+/** Превью продажи по текущей рыночной цене: количество обрезается до доступного (без резерва). */
+export function getSellPreview(state: GameState, basket: SellBasket, now: number = Date.now()): SellPreview {
+  const lines: SellLine[] = [];
+  for (const id of PRODUCT_IDS) {
+    const requested = Math.floor(basket[id] ?? 0);
+    const amount = Math.min(Math.max(0, requested), getSellableAmount(state, id));
+    if (amount <= 0) continue;
+    const price = getMarketPrice(state, id, now);
+    lines.push({ id, amount, price, income: amount * price });
+  }
+  return { lines, total: lines.reduce((sum, line) => sum + line.income, 0) };
+}
+
+// Вся строка продаётся по цене на момент продажи, после чего цена товара для игрока временно падает
+export function sellResources(state: GameState, basket: SellBasket, now: number = Date.now()): GameState {
+  const { lines, total } = getSellPreview(state, basket, now);
+  if (total === 0) return state;
+
+  const resources = { ...state.resources, coins: state.resources.coins + total };
+  const sold: SellBasket = {};
+  for (const line of lines) {
+    resources[line.id] -= line.amount;
+    sold[line.id] = line.amount;
+  }
+  return grantXp(recordSale({ ...state, resources }, sold, now), getSaleXp(total));
+}
+
+/** Корзина «продать всё»: весь товар сверх резерва. */
+export function getSellAllBasket(state: GameState): SellBasket {
+  const basket: SellBasket = {};
+  for (const id of PRODUCT_IDS) basket[id] = getSellableAmount(state, id);
+  return basket;
+}
+
+export function sellProduce(state: GameState, now: number = Date.now()): GameState {
+  return sellResources(state, getSellAllBasket(state), now);
+}
+
+export function setSellReserve(state: GameState, id: ProductId, amount: number): GameState {
+  const reserve = Math.max(0, Math.floor(amount) || 0);
+  if ((state.sellReserve?.[id] ?? 0) === reserve) return state;
+  return { ...state, sellReserve: { ...state.sellReserve, [id]: reserve } };
+}
+
+// Паки корма: большие паки открываются с уровнем фермы
+export function getAvailableFeedPacks(state: GameState): FeedPack[] {
+  return getEconomy().feedPacks.filter((p) => state.level >= p.minLevel);
+}
+
+export function buyFeed(state: GameState, packId: string): GameState {
+  const pack = getAvailableFeedPacks(state).find((p) => p.id === packId);
+  if (!pack) return state;
+  const { cost: packCost, amount: packAmount } = pack;
   if (state.resources.coins < packCost) return state;
 
   return {
@@ -344,19 +421,13 @@ export function buyFeed(state: GameState): GameState {
   };
 }
 
-// Стоимость ускорения в гемах (1 гем = 1 минута)
-export const BOOST_GEM_PER_MINUTE = 1;
-
 // Ускорить таймер (мгновенно завершить) за гемы
-export function boostCrop(state: GameState, slotId: string): GameState {
+export function boostCrop(state: GameState, slotId: string, now: number = Date.now()): GameState {
   const slot = state.crops.find((c) => c.id === slotId);
   if (!slot || !slot.timer) return state;
-  if (isTimerReady(slot.timer)) return state;
-
-  const remainingMs = slot.timer.durationMs - (Date.now() - slot.timer.startedAt);
-  const remainingMinutes = Math.ceil(remainingMs / 60000);
-  const gemCost = Math.max(1, remainingMinutes * BOOST_GEM_PER_MINUTE);
+  if (isTimerReady(slot.timer, now)) return state;
 
+  const gemCost = getBoostCost(slot.timer, now);
   if (state.resources.gems < gemCost) return state;
 
   return {
@@ -367,21 +438,18 @@ export function boostCrop(state: GameState, slotId: string): GameState {
     },
     crops: state.crops.map((c) =>
       c.id === slotId
-        ? { ...c, timer: { ...c.timer!, startedAt: Date.now() - c.timer!.durationMs } }
+        ? { ...c, timer: { ...c.timer!, startedAt: now - c.timer!.durationMs } }
         : c
     )
   };
 }
 
-export function boostAnimal(state: GameState, slotId: string): GameState {
+export function boostAnimal(state: GameState, slotId: string, now: number = Date.now()): GameState {
   const slot = state.animals.find((a) => a.id === slotId);
   if (!slot || !slot.timer) return state;
-  if (isTimerReady(slot.timer)) return state;
-
-  const remainingMs = slot.timer.durationMs - (Date.now() - slot.timer.startedAt);
-  const remainingMinutes = Math.ceil(remainingMs / 60000);
-  const gemCost = Math.max(1, remainingMinutes * BOOST_GEM_PER_MINUTE);
+  if (isTimerReady(slot.timer, now)) return state;
 
+  const gemCost = getBoostCost(slot.timer, now);
   if (state.resources.gems < gemCost) return state;
 
   return {
@@ -392,20 +460,24 @@ export function boostAnimal(state: GameState, slotId: string): GameState {
     },
     animals: state.animals.map((a) =>
       a.id === slotId
-        ? { ...a, timer: { ...a.timer!, startedAt: Date.now() - a.timer!.durationMs } }
+        ? { ...a, timer: { ...a.timer!, startedAt: now - a.timer!.durationMs } }
         : a
     )
   };
 }
 
-// Стоимость улучшения слота: уровень * 50 монет
+// Стоимость улучшения слота: уровень * upgradeCoinsPerLevel монет
 export function getUpgradeCost(level: number): number {
-  return level * 50;
+  return level * getEconomy().upgradeCoinsPerLevel;
+}
+
+export function isSlotMaxLevel(slot: CropSlot | AnimalSlot): boolean {
+  return slot.level >= getEconomy().slotLevels.maxLevel;
 }
 
 export function upgradeCrop(state: GameState, slotId: string): GameState {
   const slot = state.crops.find((c) => c.id === slotId);
-  if (!slot) return state;
+  if (!slot || isSlotMaxLevel(slot)) return state;
 
   const cost = getUpgradeCost(slot.level);
   if (state.resources.coins < cost) return state;
@@ -424,7 +496,7 @@ export function upgradeCrop(state: GameState, slotId: string): GameState {
 
 export function upgradeAnimal(state: GameState, slotId: string): GameState {
   const slot = state.animals.find((a) => a.id === slotId);
-  if (!slot) return state;
+  if (!slot || isSlotMaxLevel(slot)) return state;
 
   const cost = getUpgradeCost(slot.level);
   if (state.resources.coins < cost) return state;
@@ -442,10 +514,245 @@ export function upgradeAnimal(state: GameState, slotId: string): GameState {
 }
 
 // Рассчитать стоимость ускорения в гемах
-export function getBoostCost(timer: TimerState | null): number {
+export function getBoostCost(timer: TimerState | null, now: number = Date.now()): number {
   if (!timer) return 0;
-  const remainingMs = timer.durationMs - (Date.now() - timer.startedAt);
+  const remainingMs = timer.durationMs - (now - timer.startedAt);
   if (remainingMs <= 0) return 0;
-  return Math.max(1, Math.ceil(remainingMs / 60000) * BOOST_GEM_PER_MINUTE);
+  return Math.max(1, Math.ceil(remainingMs / 60000) * getEconomy().boostGemPerMinute);
 }
 
+// Условие открытия: ферма достигла нужного уровня (гемы списываются при открытии)
+function meetsUnlockRule(state: GameState, rule: UnlockRule | null): boolean {
+  if (!rule) return false;
+  return (state.level ?? 1) >= rule.level;
+}
+
+/** Можно ли открыть семена культуры: уровень фермы достигнут, а семена ещё не открыты. */
+export function canUnlockCrop(type: CropType, state: GameState): boolean {
+  return !isCropUnlocked(state, type) && meetsUnlockRule(state, getEconomy().crops[type].unlock);
+}
+
+export function canUnlockAnimal(type: AnimalType, state: GameState): boolean {
+  return meetsUnlockRule(state, getEconomy().animals[type].unlock);
+}
+
+function getUnlockRule(kind: 'crop' | 'animal', type: CropType | AnimalType): UnlockRule | null {
+  const economy = getEconomy();
+  return kind === 'crop' ? economy.crops[type as CropType].unlock : economy.animals[type as AnimalType].unlock;
+}
+
+/** Цена открытия в гемах: семян культуры или слота животного (0 — открыто с начала). */
+export function getUnlockGemCost(kind: 'crop' | 'animal', type: CropType | AnimalType): number {
+  return getUnlockRule(kind, type)?.gems ?? 0;
+}
+
+/** Уровень фермы, с которого семена культуры или слот животного можно открыть. */
+export function getUnlockLevel(kind: 'crop' | 'animal', type: CropType | AnimalType): number {
+  return getUnlockRule(kind, type)?.level ?? 1;
+}
+
+export function unlockSeeds(state: GameState, crop: CropType): GameState {
+  if (!canUnlockCrop(crop, state)) return state;
+  const price = getUnlockGemCost('crop', crop);
+  if (state.resources.gems < price) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - price },
+    unlockedCrops: [...(state.unlockedCrops ?? []), crop]
+  };
+}
+
+/** Купить семена открытой культуры по цене посадки за штуку. */
+export function buySeeds(state: GameState, crop: CropType, amount: number): GameState {
+  const count = Math.floor(amount);
+  if (count <= 0 || !isCropUnlocked(state, crop)) return state;
+  const cost = getEconomy().crops[crop].plantCost * count;
+  if (state.resources.coins < cost) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins - cost },
+    seeds: { ...state.seeds, [crop]: (state.seeds?.[crop] ?? 0) + count }
+  };
+}
+
+/**
+ * Правило покупки следующей грядки (null — докупать больше нечего). Считаются только закрытые грядки шаблона,
+ * открытые через unlockCrop: стартовые и докупленные расширением (buyPlot) очередь не двигают.
+ */
+export function getPlotUnlockRule(state: GameState): UnlockRule | null {
+  const lockedInTemplate = new Set(createInitialState().crops.filter((c) => c.unlocked === false).map((c) => c.id));
+  const purchased = state.crops.filter((c) => lockedInTemplate.has(c.id) && c.unlocked !== false).length;
+  return getEconomy().plotUnlocks[purchased] ?? null;
+}
+
+/** Купить закрытую грядку: цена и уровень — по числу уже купленных, а не по культуре. */
+export function unlockCrop(state: GameState, slotId: string): GameState {
+  const slot = state.crops.find((c) => c.id === slotId);
+  if (!slot || slot.unlocked !== false) return state;
+  const rule = getPlotUnlockRule(state);
+  if (!rule || !meetsUnlockRule(state, rule) || state.resources.gems < rule.gems) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - rule.gems },
+    crops: state.crops.map((c) => (c.id === slotId ? { ...c, unlocked: true } : c))
+  };
+}
+
+export function unlockAnimal(state: GameState, slotId: string): GameState {
+  const slot = state.animals.find((a) => a.id === slotId);
+  if (!slot || slot.unlocked !== false) return state;
+  const price = getUnlockGemCost('animal', slot.type);
+  if (state.resources.gems < price) return state;
+  if (!canUnlockAnimal(slot.type, state)) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - price },
+    animals: state.animals.map((a) => (a.id === slotId ? { ...a, unlocked: true } : a))
+  };
+}
+
+// Расширение фермы: новые грядки и загоны сверх шаблона. Id слота — следующий свободный номер (c7, a7…),
+// а не случайный: клиент и сервер применяют одно и то же действие и должны получить одинаковые id.
+
+function nextSlotId(prefix: string, slots: { id: string }[]): string {
+  const numbers = slots.map((slot) => new RegExp(`^${prefix}(\\d+)$`).exec(slot.id)).map((m) => (m ? Number(m[1]) : 0));
+  return `${prefix}${Math.max(0, ...numbers) + 1}`;
+}
+
+/** Сколько слотов уже докуплено сверх стартового шаблона. */
+export function getExtraSlotCount(state: GameState, kind: 'crop' | 'animal'): number {
+  const template = createInitialState()[kind === 'crop' ? 'crops' : 'animals'];
+  const ids = new Set(template.map((slot) => slot.id));
+  return (kind === 'crop' ? state.crops : state.animals).filter((slot) => !ids.has(slot.id)).length;
+}
+
+/** Цена следующего слота (растёт с каждым купленным); null — докупать больше нельзя. */
+export function getExpansionCost(state: GameState, kind: 'crop' | 'animal'): { coins: number; gems: number } | null {
+  const config = getEconomy().expansion[kind];
+  const bought = getExtraSlotCount(state, kind);
+  if (bought >= config.maxExtra) return null;
+  const factor = Math.pow(config.growth, bought);
+  return { coins: Math.round(config.coins * factor), gems: Math.round(config.gems * factor) };
+}
+
+export function canBuyExpansion(state: GameState, kind: 'crop' | 'animal'): boolean {
+  const cost = getExpansionCost(state, kind);
+  if (!cost || state.level < getEconomy().expansion[kind].minLevel) return false;
+  return state.resources.coins >= cost.coins && state.resources.gems >= cost.gems;
+}
+
+/** Купить новую грядку; сажать на неё можно любую открытую культуру. */
+export function buyPlot(state: GameState): GameState {
+  const cost = getExpansionCost(state, 'crop');
+  if (!cost || !canBuyExpansion(state, 'crop')) return state;
+  const plot: CropSlot = {
+    id: nextSlotId('c', state.crops),
+    type: getUnlockedCrops(state)[0] ?? 'tomato',
+    level: 1,
+    baseYield: getEconomy().expansion.crop.baseYield,
+    timer: null,
+    harvestsSinceLevel: 0,
+    gemUpgradeLevel: 0,
+    unlocked: true
+  };
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins - cost.coins, gems: state.resources.gems - cost.gems },
+    crops: [...state.crops, plot]
+  };
+}
+
+/** Купить новый загон для животного уже открытого вида. */
+export function buyPen(state: GameState, animal: AnimalType): GameState {
+  if (!state.animals.some((a) => a.type === animal && a.unlocked !== false)) return state;
+  const cost = getExpansionCost(state, 'animal');
+  if (!cost || !canBuyExpansion(state, 'animal')) return state;
+  const pen: AnimalSlot = {
+    id: nextSlotId('a', state.animals),
+    type: animal,
+    level: 1,
+    baseYield: getEconomy().expansion.animal.baseYield,
+    timer: null,
+    harvestsSinceLevel: 0,
+    gemUpgradeLevel: 0,
+    unlocked: true
+  };
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins - cost.coins, gems: state.resources.gems - cost.gems },
+    animals: [...state.animals, pen]
+  };
+}
+
+// Гем-апгрейды культур и животных: цена и максимальный уровень — из каталога
+export function gemUpgradeCrop(state: GameState, slotId: string): GameState {
+  const slot = state.crops.find((c) => c.id === slotId);
+  if (!slot) return state;
+  const { gemUpgradePrice, maxGemLevel } = getEconomy().crops[slot.type];
+  const current = slot.gemUpgradeLevel ?? 0;
+  if (current >= maxGemLevel) return state;
+  if (state.resources.gems < gemUpgradePrice) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - gemUpgradePrice },
+    crops: state.crops.map((c) => (c.id === slotId ? { ...c, gemUpgradeLevel: current + 1 } : c))
+  };
+}
+
+export function gemUpgradeAnimal(state: GameState, slotId: string): GameState {
+  const slot = state.animals.find((a) => a.id === slotId);
+  if (!slot) return state;
+  const { gemUpgradePrice, maxGemLevel } = getEconomy().animals[slot.type];
+  const current = slot.gemUpgradeLevel ?? 0;
+  if (current >= maxGemLevel) return state;
+  if (state.resources.gems < gemUpgradePrice) return state;
+
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - gemUpgradePrice },
+    animals: state.animals.map((a) => (a.id === slotId ? { ...a, gemUpgradeLevel: current + 1 } : a))
+  };
+}
+
+// Обмен валют внутри игры (не Telegram Stars)
+export function exchangeGemsToCoins(state: GameState): GameState {
+  const { gems, coins } = getEconomy().exchange.gemsToCoins;
+  if (state.resources.gems < gems) return state;
+  return {
+    ...state,
+    resources: {
+      ...state.resources,
+      gems: state.resources.gems - gems,
+      coins: state.resources.coins + coins
+    }
+  };
+}
+
+export function exchangeCoinsToGems(state: GameState): GameState {
+  const { coins, gems } = getEconomy().exchange.coinsToGems;
+  if ((state.resources.coins ?? 0) < coins) return state;
+  return {
+    ...state,
+    resources: {
+      ...state.resources,
+      coins: (state.resources.coins ?? 0) - coins,
+      gems: (state.resources.gems ?? 0) + gems
+    }
+  };
+}
+
+export function buyAutoCollectPerk(state: GameState): GameState {
+  if (state.perks?.autoCollect) return state;
+  const price = getEconomy().perks.autoCollect.gems;
+  if (state.resources.gems < price) return state;
+  return {
+    ...state,
+    resources: { ...state.resources, gems: state.resources.gems - price },
+    perks: { ...state.perks, autoCollect: true }
+  };
+}
@@ -1,11 +1,15 @@
+import type { ProductId } from './economy';
+
 export type CropType = 'tomato' | 'cucumber' | 'corn' | 'watermelon' | 'apple';
 export type AnimalType = 'cow' | 'chicken' | 'goat' | 'sheep' | 'pig' | 'goose';
+export type BuildingType = 'dairy' | 'mill' | 'loom' | 'bakery';
 
 export interface TimerState {
   startedAt: number;
   durationMs: number;
 }
 
+/** Грядка. Культуру выбирают при посадке: type — что растёт сейчас или росло последним. */
 export interface CropSlot {
   id: string;
   type: CropType;
@@ -30,6 +34,19 @@ export interface AnimalSlot {
   harvestsSinceLevel?: number;
 }
 
+/** Задание в очереди производства: рецепт и его таймер (задания идут друг за другом) */
+export interface ProductionJob {
+  recipeId: string;
+  timer: TimerState;
+}
+
+export interface BuildingSlot {
+  id: string;
+  type: BuildingType;
+  unlocked?: boolean;
+  queue: ProductionJob[];
+}
+
 export interface Resources {
   coins: number;
   gems: number;
@@ -44,21 +61,117 @@ export interface Resources {
   meat: number;
   feathers: number;
   wool: number;
+  butter: number;
+  cloth: number;
+  cornbread: number;
   feed: number;
 }
 
+/**
+ * Счётчик игрока за всё время (src/stats.ts): `harvest:<культура>` — собрано единиц урожая, `feed:<вид>` и
+ * `collect:<вид>` — кормлений и сборов продукции, `sold:<товар>` — продано единиц, остальные — число действий или монет. referrals и dailyStreak ведёт сервер.
+ */
+export type StatKey =
+  | 'harvests'
+  | `harvest:${CropType}`
+  | 'feeds'
+  | `feed:${AnimalType}`
+  | 'collects'
+  | `collect:${AnimalType}`
+  | `sold:${ProductId}`
+  | 'coinsEarned'
+  | 'crafts'
+  | 'upgrades'
+  | 'boosts'
+  | 'referrals'
+  | 'dailyStreak';
+
+/** Недельная цель: копия правила из пула на момент выбора (правка каталога не меняет цели посреди недели) */
+export interface WeeklyGoal {
+  id: string;
+  kind: 'harvest' | 'feed' | 'earn' | 'craft';
+  subject?: CropType | AnimalType;
+  target: number;
+  progress: number;
+}
+
+export interface WeeklyGoalsState {
+  /** Начало недели (UTC, мс): полночь дня сброса по времени игрока */
+  weekStart: number;
+  goals: WeeklyGoal[];
+  /** Номера забранных наград из economy.weeklyGoals.tiers */
+  claimedTiers: number[];
+}
+
+/** Задание дня: предмет — культура (harvest), вид животного (collect, feed) или товар (sell) */
+export interface DailyQuest {
+  kind: 'harvest' | 'collect' | 'feed' | 'sell' | 'boost' | 'craft';
+  subject?: CropType | AnimalType | ProductId;
+  target: number;
+  progress: number;
+  coins: number;
+  claimed: boolean;
+}
+
+export interface DailyQuestsState {
+  /** Начало дня (UTC, мс): полночь по времени игрока */
+  dayStart: number;
+  quests: DailyQuest[];
+  /** Сколько замен сделано сегодня — от этого зависит, какое задание выпадет следующим */
+  rerolls: number;
+  /** Неделя сундука (как у недельных целей) и сколько в ней полностью закрытых дней */
+  chestWeekStart: number;
+  fullDays: number;
+  chestClaimed: boolean;
+}
+
+/** Текущая версия формата сохранения. Повышается только вместе с новой миграцией в saveFormat.ts. */
+export const SCHEMA_VERSION = 2;
+
 export interface GameState {
+  /** Версия формата сохранения (нет у сохранений, сделанных до введения версий) */
+  schemaVersion?: number;
+  /** Уровень фермы (растёт от опыта за действия) */
   level: number;
+  /** Опыт на текущем уровне фермы */
+  xp?: number;
   resources: Resources;
   crops: CropSlot[];
+  /** Запас семян: посадка тратит одно семя, а без запаса семя покупается на месте по цене посадки */
+  seeds?: Partial<Record<CropType, number>>;
+  /** Открытые за гемы культуры (культуры без правила открытия в каталоге доступны всегда) */
+  unlockedCrops?: CropType[];
   animals: AnimalSlot[];
-  /** Ревизия состояния, увеличивается при каждом изменении на клиенте (для защиты от отката старым клиентом). */
+  /** Перерабатывающие здания (сыроварня, мельница, ткацкий станок, пекарня) */
+  buildings?: BuildingSlot[];
+  /** Ревизия состояния: +1 за каждое применённое действие. Сервер отклоняет действия, построенные на устаревшей ревизии. */
   revision?: number;
   /** Кто пригласил (userId), заполняется с сервера */
   referrerId?: string | null;
   /** Ник пригласившего (@username), заполняется с сервера */
   referrerUsername?: string | null;
+  /** Резерв на рынке: сколько каждой продукции не продавать (ключ — ресурс из Resources) */
+  sellReserve?: Partial<Record<keyof Resources, number>>;
+  /** Недавние продажи игрока по товарам — временно снижают его цену на рынке */
+  marketPressure?: Partial<Record<keyof Resources, { amount: number; updatedAt: number }>>;
+  /** Купленные перки (постоянные бонусы) */
+  perks?: {
+    /** Автосбор: при возвращении в игру всё созревшее собирается само */
+    autoCollect?: boolean;
+  };
+  /** Часовой пояс игрока (минуты к UTC) — по нему сбрасываются недельные цели */
+  utcOffsetMinutes?: number;
+  /** Когда часовой пояс меняли последний раз (UTC, мс): менять его можно не чаще раза в неделю */
+  utcOffsetChangedAt?: number;
+  /** Недельные цели текущей недели; нет — неделя ещё не началась (первое действие её создаст) */
+  weeklyGoals?: WeeklyGoalsState;
+  /** Доска заданий дня; нет — день ещё не начался (первое действие его создаст) */
+  dailyQuests?: DailyQuestsState;
+  /** Счётчики для достижений и целей */
+  stats?: Partial<Record<StatKey, number>>;
+  /** Сколько ступеней каждого достижения забрано (ключ — id из src/achievements.ts) */
+  achievements?: Record<string, number>;
 }
 
-export type TabId = 'fields' | 'animals' | 'market' | 'referrals' | 'shop' | 'stats';
+export type TabId = 'fields' | 'animals' | 'production' | 'market' | 'referrals' | 'shop' | 'stats';
 
@@ -1,4 +1,4 @@
-import type { GameState, CropType, AnimalType } from './gameTypes';
+import { SCHEMA_VERSION, type GameState, type CropType, type AnimalType, type BuildingSlot } from './gameTypes';
 
 export function createInitialState(): GameState {
   const crops = [
@@ -17,8 +17,16 @@ export function createInitialState(): GameState {
     { id: 'a5', type: 'pig' as AnimalType, level: 1, baseYield: 1, timer: null, harvestsSinceLevel: 0, gemUpgradeLevel: 0, unlocked: false },
     { id: 'a6', type: 'goose' as AnimalType, level: 1, baseYield: 1, timer: null, harvestsSinceLevel: 0, gemUpgradeLevel: 0, unlocked: false }
   ];
+  const buildings: BuildingSlot[] = [
+    { id: 'b1', type: 'dairy', unlocked: false, queue: [] },
+    { id: 'b2', type: 'mill', unlocked: false, queue: [] },
+    { id: 'b3', type: 'bakery', unlocked: false, queue: [] },
+    { id: 'b4', type: 'loom', unlocked: false, queue: [] }
+  ];
   return {
+    schemaVersion: SCHEMA_VERSION,
     level: 1,
+    xp: 0,
     revision: 0,
     resources: {
       coins: 100,
@@ -34,9 +42,15 @@ export function createInitialState(): GameState {
       meat: 0,
       feathers: 0,
       wool: 0,
+      butter: 0,
+      cloth: 0,
+      cornbread: 0,
       feed: 5
     },
     crops,
-    animals
+    seeds: {},
+    unlockedCrops: [],
+    animals,
+    buildings
   };
 }
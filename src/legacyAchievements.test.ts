@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './initialState';
+import { applyLegacyAchievements, parseLegacyAchievements, readLegacyAchievements, takeLegacyAchievements } from './legacyAchievements';
+
+// Перенос прогресса прежней «Цели» из localStorage в счётчики фермы
+
+function fakeLocalStorage(items: Record<string, string>) {
+  return {
+    getItem: (key: string) => items[key] ?? null,
+    removeItem: (key: string) => {
+      delete items[key];
+    }
+  };
+}
+
+describe('старый прогресс достижения', () => {
+  it('читается один раз и удаляется', () => {
+    const items: Record<string, string> = {
+      'farm-miniapp-achievements-v1-u1': JSON.stringify({ plantHarvests: 7, animalFeeds: 3.5, rewardClaimed: false })
+    };
+    const storage = fakeLocalStorage(items);
+    expect(takeLegacyAchievements(storage, 'u1')).toEqual({ plantHarvests: 7, animalFeeds: 3 });
+    expect(takeLegacyAchievements(storage, 'u1')).toBeNull();
+  });
+
+  it('чтение без переноса ключ не удаляет — до ответа сервера', () => {
+    const storage = fakeLocalStorage({ 'farm-miniapp-achievements-v1-u1': JSON.stringify({ plantHarvests: 2, animalFeeds: 1 }) });
+    expect(readLegacyAchievements(storage, 'u1')).toEqual({ plantHarvests: 2, animalFeeds: 1 });
+    expect(readLegacyAchievements(storage, 'u1')).toEqual({ plantHarvests: 2, animalFeeds: 1 });
+  });
+
+  it('прогресс не выше целей старой «Цели»', () => {
+    expect(parseLegacyAchievements({ plantHarvests: 1e9, animalFeeds: 6 })).toEqual({ plantHarvests: 10, animalFeeds: 5 });
+    expect(parseLegacyAchievements({ plantHarvests: '10', animalFeeds: -3 })).toEqual({ plantHarvests: 0, animalFeeds: 0 });
+  });
+
+  it('битое значение не ломает загрузку', () => {
+    const storage = fakeLocalStorage({ 'farm-miniapp-achievements-v1-u1': 'null' });
+    expect(takeLegacyAchievements(storage, 'u1')).toEqual({ plantHarvests: 0, animalFeeds: 0 });
+  });
+
+  it('счётчики поднимаются до старого прогресса, но не уменьшаются', () => {
+    const state = { ...createInitialState(), stats: { harvests: 12, feeds: 1 } };
+    expect(applyLegacyAchievements(state, { plantHarvests: 7, animalFeeds: 3 }).stats).toMatchObject({ harvests: 12, feeds: 3 });
+  });
+});
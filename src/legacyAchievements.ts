@@ -0,0 +1,68 @@
+import type { GameState } from './gameTypes';
+import { raiseStat } from './stats';
+
+// Прогресс прежнего достижения «первые шаги» (до src/achievements.ts): сборы и кормления считал клиент
+// и хранил только в localStorage. Переносится в счётчики фермы один раз — после этого ключ удаляется.
+// С backend перенос делает сервер (POST /api/achievements/legacy): один раз на игрока и не выше целей старой «Цели».
+
+export interface LegacyAchievements {
+  plantHarvests: number;
+  animalFeeds: number;
+}
+
+/** Цели старой «Цели»: сверх них прежний счётчик ничего не давал, а числам клиента больше не поверить */
+export const LEGACY_ACHIEVEMENT_LIMITS: LegacyAchievements = { plantHarvests: 10, animalFeeds: 5 };
+
+/** localStorage браузера; модуль подключает и сервер, поэтому без DOM-типов */
+export interface LegacyStorage {
+  getItem(key: string): string | null;
+  removeItem(key: string): void;
+}
+
+const legacyKey = (userId: string) => `farm-miniapp-achievements-v1-${userId}`;
+
+/** Старый прогресс из произвольного значения (localStorage или тело запроса): целые от 0 до целей старой «Цели». */
+export function parseLegacyAchievements(value: unknown): LegacyAchievements {
+  const fields = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof LegacyAchievements, unknown>>;
+  const count = (n: unknown, limit: number) => (typeof n === 'number' && Number.isFinite(n) && n > 0 ? Math.min(Math.floor(n), limit) : 0);
+  return {
+    plantHarvests: count(fields.plantHarvests, LEGACY_ACHIEVEMENT_LIMITS.plantHarvests),
+    animalFeeds: count(fields.animalFeeds, LEGACY_ACHIEVEMENT_LIMITS.animalFeeds)
+  };
+}
+
+/** Прочитать старый прогресс, не удаляя его; null — его нет (новый игрок или уже перенесён). */
+export function readLegacyAchievements(storage: LegacyStorage, userId: string): LegacyAchievements | null {
+  try {
+    const raw = storage.getItem(legacyKey(userId));
+    if (raw === null) return null;
+    try {
+      return parseLegacyAchievements(JSON.parse(raw));
+    } catch {
+      return parseLegacyAchievements(null);
+    }
+  } catch {
+    return null;
+  }
+}
+
+/** Удалить старый прогресс после переноса. */
+export function forgetLegacyAchievements(storage: LegacyStorage, userId: string): void {
+  try {
+    storage.removeItem(legacyKey(userId));
+  } catch {
+    // localStorage недоступен — попробуем в следующий запуск, перенос всё равно разовый
+  }
+}
+
+/** Прочитать и удалить старый прогресс (игра без backend переносит его сама). */
+export function takeLegacyAchievements(storage: LegacyStorage, userId: string): LegacyAchievements | null {
+  const legacy = readLegacyAchievements(storage, userId);
+  if (legacy) forgetLegacyAchievements(storage, userId);
+  return legacy;
+}
+
+/** Поднять счётчики сборов и кормлений до старого прогресса (меньше текущих они не станут). */
+export function applyLegacyAchievements(state: GameState, legacy: LegacyAchievements): GameState {
+  return raiseStat(raiseStat(state, 'harvests', legacy.plantHarvests), 'feeds', legacy.animalFeeds);
+}
@@ -0,0 +1,88 @@
+import type { GameState } from './gameTypes';
+import { getEconomy, type ProductId } from './economy';
+
+// Рыночные цены: дневной спрос + временное падение цены после крупных продаж игрока.
+// Спрос зависит только от даты (UTC) и товара, поэтому клиент и сервер считают одинаковые цены.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/** Ключ дня в UTC: '2026-10-19'. */
+export function getDayKey(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+// FNV-1a: стабильный 32-битный хэш строки
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Одно значение mulberry32 по сиду → [0, 1)
+export function seededRandom(seed: number): number {
+  let t = (seed + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+/** Множитель спроса на день: 1 ± dailyAmplitude. */
+export function getDemandFactor(id: ProductId, dayKey: string): number {
+  const { dailyAmplitude } = getEconomy().market;
+  const r = seededRandom(hashString(`${dayKey}:${id}`));
+  return 1 + (r * 2 - 1) * dailyAmplitude;
+}
+
+/** Цена дня без учёта продаж игрока. */
+export function getDailyPrice(id: ProductId, dayKey: string): number {
+  const base = getEconomy().products[id].sellPrice;
+  return Math.max(1, Math.round(base * getDemandFactor(id, dayKey)));
+}
+
+/** Сколько товара игрок «давит» на рынок сейчас: объём продаж затухает с периодом полураспада. */
+export function getMarketPressure(state: GameState, id: ProductId, now: number): number {
+  const entry = state.marketPressure?.[id];
+  if (!entry) return 0;
+  const { pressureHalfLifeMinutes } = getEconomy().market;
+  const elapsed = Math.max(0, now - entry.updatedAt);
+  return entry.amount * Math.pow(0.5, elapsed / (pressureHalfLifeMinutes * MINUTE));
+}
+
+/** Доля, на которую упала цена из-за недавних продаж (0 — без скидки). */
+export function getPressurePenalty(state: GameState, id: ProductId, now: number): number {
+  const { penaltyPerUnit, maxPenalty } = getEconomy().market;
+  return Math.min(maxPenalty, getMarketPressure(state, id, now) * penaltyPerUnit);
+}
+
+/** Цена, по которой игрок продаст товар прямо сейчас. */
+export function getMarketPrice(state: GameState, id: ProductId, now: number): number {
+  const daily = getDailyPrice(id, getDayKey(now));
+  return Math.max(1, Math.round(daily * (1 - getPressurePenalty(state, id, now))));
+}
+
+export type PriceTrend = 'up' | 'down' | 'same';
+
+/** Сравнение цены дня с ценой вчера. */
+export function getPriceTrend(id: ProductId, now: number): { today: number; yesterday: number; trend: PriceTrend } {
+  const today = getDailyPrice(id, getDayKey(now));
+  const yesterday = getDailyPrice(id, getDayKey(now - DAY));
+  const trend: PriceTrend = today > yesterday ? 'up' : today < yesterday ? 'down' : 'same';
+  return { today, yesterday, trend };
+}
+
+/** Учесть проданный объём: добавляется к затухшему давлению. */
+export function recordSale(state: GameState, sold: Partial<Record<ProductId, number>>, now: number): GameState {
+  const pressure = { ...state.marketPressure };
+  let changed = false;
+  for (const id of Object.keys(sold) as ProductId[]) {
+    const amount = sold[id] ?? 0;
+    if (amount <= 0) continue;
+    pressure[id] = { amount: getMarketPressure(state, id, now) + amount, updatedAt: now };
+    changed = true;
+  }
+  return changed ? { ...state, marketPressure: pressure } : state;
+}
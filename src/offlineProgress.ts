@@ -0,0 +1,101 @@
+import type { GameState, CropType, AnimalType, TimerState } from './gameTypes';
+import { getEconomy, type ProductId } from './economy';
+import { getSlotYield } from './gameLogic';
+import { applyFarmAction, type FarmAction } from './actions';
+
+// Офлайн-прогресс: что созрело, пока мини-апп был закрыт.
+// Считается только по startedAt/durationMs и переданному now — без Date.now(), чтобы результат был детерминированным.
+
+/** Минимальное время отсутствия, после которого показываем сводку «Пока тебя не было». */
+export const OFFLINE_SUMMARY_MIN_AWAY_MS = 60 * 1000;
+
+export interface OfflineReadyItem {
+  kind: 'crop' | 'animal';
+  slotId: string;
+  type: CropType | AnimalType;
+  product: ProductId;
+  amount: number;
+  finishedAt: number;
+}
+
+export interface OfflineSummary {
+  awayMs: number;
+  items: OfflineReadyItem[];
+  /** Сколько каждой продукции ждёт сбора (или собрано автосбором) */
+  totals: Partial<Record<ProductId, number>>;
+  autoCollected: boolean;
+}
+
+function getFinishedAt(timer: TimerState): number {
+  return timer.startedAt + timer.durationMs;
+}
+
+/**
+ * Собрать список слотов, чей таймер завершился в промежутке (lastSeenAt, now].
+ * Без lastSeenAt (первый запуск на устройстве) в сводку попадает всё, что уже готово.
+ */
+export function computeOfflineProgress(state: GameState, lastSeenAt: number | null, now: number): OfflineSummary {
+  const economy = getEconomy();
+  const since = lastSeenAt ?? -Infinity;
+  const finishedWhileAway = (timer: TimerState | null): timer is TimerState => {
+    if (!timer) return false;
+    const finishedAt = getFinishedAt(timer);
+    return finishedAt <= now && finishedAt > since;
+  };
+
+  const items: OfflineReadyItem[] = [];
+  for (const crop of state.crops) {
+    if (crop.unlocked === false || !finishedWhileAway(crop.timer)) continue;
+    items.push({
+      kind: 'crop',
+      slotId: crop.id,
+      type: crop.type,
+      product: economy.crops[crop.type].product,
+      amount: getSlotYield(crop),
+      finishedAt: getFinishedAt(crop.timer)
+    });
+  }
+  for (const animal of state.animals) {
+    if (animal.unlocked === false || !finishedWhileAway(animal.timer)) continue;
+    items.push({
+      kind: 'animal',
+      slotId: animal.id,
+      type: animal.type,
+      product: economy.animals[animal.type].product,
+      amount: getSlotYield(animal),
+      finishedAt: getFinishedAt(animal.timer)
+    });
+  }
+  items.sort((a, b) => a.finishedAt - b.finishedAt);
+
+  const totals: Partial<Record<ProductId, number>> = {};
+  for (const item of items) {
+    totals[item.product] = (totals[item.product] ?? 0) + item.amount;
+  }
+
+  return {
+    awayMs: lastSeenAt == null ? 0 : Math.max(0, now - lastSeenAt),
+    items,
+    totals,
+    autoCollected: false
+  };
+}
+
+/** Перк автосбора: сбор каждого слота из сводки — обычное действие, его так же подтверждает сервер. */
+export function getAutoCollectActions(summary: OfflineSummary): FarmAction[] {
+  return summary.items.map((item) =>
+    item.kind === 'crop'
+      ? { type: 'harvestCrop', slotId: item.slotId }
+      : { type: 'collectAnimalProduct', slotId: item.slotId }
+  );
+}
+
+/** Собрать всё из сводки через обычные редьюсеры (уровни слотов растут так же, как при ручном сборе). */
+export function applyAutoCollect(state: GameState, summary: OfflineSummary, now: number): GameState {
+  return getAutoCollectActions(summary).reduce((current, action) => applyFarmAction(current, action, now), state);
+}
+
+export function shouldShowOfflineSummary(summary: OfflineSummary, lastSeenAt: number | null): boolean {
+  if (summary.items.length === 0) return false;
+  return lastSeenAt == null || summary.awayMs >= OFFLINE_SUMMARY_MIN_AWAY_MS;
+}
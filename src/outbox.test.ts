@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { BACKOFF_MAX_MS, createMemoryOutboxStorage, createOutbox, getBackoffDelay, type OutboxEntry, type OutboxStatus } from './outbox';
+
+// Очередь действий без React: хранилище в памяти вместо IndexedDB
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+describe('getBackoffDelay', () => {
+  it('растёт вдвое с каждой ошибкой и упирается в максимум', () => {
+    expect([0, 1, 2, 3, 4].map((n) => getBackoffDelay(n))).toEqual([0, 1000, 2000, 4000, 8000]);
+    expect(getBackoffDelay(30)).toBe(BACKOFF_MAX_MS);
+  });
+});
+
+describe('createOutbox', () => {
+  it('нумерует действия по порядку и сохраняет их в хранилище', async () => {
+    const storage = createMemoryOutboxStorage();
+    const outbox = createOutbox('u1', storage);
+    outbox.push({ type: 'harvestAll' }, NOW);
+    outbox.push({ type: 'feedAll' }, NOW);
+    expect(outbox.entries().map((e) => [e.seq, e.action.type])).toEqual([
+      [1, 'harvestAll'],
+      [2, 'feedAll']
+    ]);
+    await Promise.resolve();
+    expect(await storage.load('u1')).toHaveLength(2);
+    expect(await storage.load('u2')).toHaveLength(0);
+  });
+
+  it('после перезапуска поднимает записи прошлого запуска и продолжает нумерацию', async () => {
+    const storage = createMemoryOutboxStorage();
+    const first = createOutbox('u1', storage);
+    first.push({ type: 'harvestAll' }, NOW);
+    first.push({ type: 'feedAll' }, NOW);
+    await Promise.resolve();
+
+    const second = createOutbox('u1', storage);
+    const restored = await second.restore();
+    expect(restored.map((e) => e.action.type)).toEqual(['harvestAll', 'feedAll']);
+    expect(second.push({ type: 'collectAll' }, NOW).seq).toBe(3);
+  });
+
+  it('не дублирует записи, уже известные в памяти', async () => {
+    const storage = createMemoryOutboxStorage();
+    const outbox = createOutbox('u1', storage);
+    outbox.push({ type: 'harvestAll' }, NOW);
+    await Promise.resolve();
+    expect(await outbox.restore()).toHaveLength(1);
+  });
+
+  it('убирает подтверждённые записи из памяти и хранилища', async () => {
+    const storage = createMemoryOutboxStorage();
+    const outbox = createOutbox('u1', storage);
+    const a = outbox.push({ type: 'harvestAll' }, NOW);
+    outbox.push({ type: 'feedAll' }, NOW);
+    outbox.remove([a.id]);
+    await Promise.resolve();
+    expect(outbox.entries().map((e) => e.action.type)).toEqual(['feedAll']);
+    expect((await storage.load('u1')).map((e: OutboxEntry) => e.id)).not.toContain(a.id);
+  });
+
+  it('повтор после ошибки — по экспоненциальной задержке, успех и сеть её сбрасывают', () => {
+    const outbox = createOutbox('u1', createMemoryOutboxStorage());
+    expect(outbox.isRetryDue(NOW)).toBe(false);
+    outbox.push({ type: 'harvestAll' }, NOW);
+    expect(outbox.isRetryDue(NOW)).toBe(true);
+
+    expect(outbox.recordFailure(NOW)).toBe(1000);
+    expect(outbox.recordFailure(NOW)).toBe(2000);
+    expect(outbox.isRetryDue(NOW + 1999)).toBe(false);
+    expect(outbox.isRetryDue(NOW + 2000)).toBe(true);
+
+    outbox.resetBackoff();
+    expect(outbox.isRetryDue(NOW)).toBe(true);
+    expect(outbox.getStatus().failures).toBe(2);
+    outbox.recordSuccess();
+    expect(outbox.getStatus()).toEqual({ pending: 1, failures: 0, nextAttemptAt: 0 });
+  });
+
+  it('сообщает подписчикам о каждом изменении', () => {
+    const outbox = createOutbox('u1', createMemoryOutboxStorage());
+    const seen: OutboxStatus[] = [];
+    const unsubscribe = outbox.subscribe((status) => seen.push(status));
+    const entry = outbox.push({ type: 'harvestAll' }, NOW);
+    outbox.recordFailure(NOW);
+    outbox.remove([entry.id]);
+    unsubscribe();
+    outbox.push({ type: 'feedAll' }, NOW);
+    expect(seen.map((s) => s.pending)).toEqual([1, 1, 0]);
+  });
+
+  it('ошибки хранилища не ломают очередь', () => {
+    const outbox = createOutbox('u1', {
+      load: () => Promise.reject(new Error('quota')),
+      put: () => Promise.reject(new Error('quota')),
+      remove: () => Promise.reject(new Error('quota'))
+    });
+    const entry = outbox.push({ type: 'harvestAll' }, NOW);
+    expect(outbox.entries()).toEqual([entry]);
+  });
+});
@@ -0,0 +1,207 @@
+import { createActionId, type FarmAction, type FarmActionEnvelope } from './actions';
+
+// Очередь неотправленных действий (outbox). Переживает перезапуск мини-аппа: записи лежат в IndexedDB
+// и при следующем запуске переприменяются к состоянию с сервера и отправляются заново.
+// Порядок задаёт seq; сервер отбрасывает повторы по id, поэтому повторная отправка безопасна.
+// Модуль не зависит от React — App подписывается на изменения через subscribe.
+
+export interface OutboxEntry extends FarmActionEnvelope {
+  userId: string;
+  /** Порядковый номер действия у игрока на этом устройстве */
+  seq: number;
+  createdAt: number;
+}
+
+/** Где хранятся записи очереди. Все методы асинхронные, ошибки хранилища не должны ломать игру. */
+export interface OutboxStorage {
+  load(userId: string): Promise<OutboxEntry[]>;
+  put(entry: OutboxEntry): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+}
+
+export interface OutboxStatus {
+  pending: number;
+  /** Сколько попыток отправки подряд закончились ошибкой (0 — последняя удалась) */
+  failures: number;
+  /** Когда можно повторить отправку (мс); 0 — сразу */
+  nextAttemptAt: number;
+}
+
+export const BACKOFF_BASE_MS = 1000;
+export const BACKOFF_MAX_MS = 60 * 1000;
+
+/** Экспоненциальная задержка перед повтором: 1 с, 2 с, 4 с… не больше BACKOFF_MAX_MS. */
+export function getBackoffDelay(failures: number, baseMs = BACKOFF_BASE_MS, maxMs = BACKOFF_MAX_MS): number {
+  if (failures <= 0) return 0;
+  return Math.min(maxMs, baseMs * Math.pow(2, failures - 1));
+}
+
+export function createMemoryOutboxStorage(): OutboxStorage {
+  const entries = new Map<string, OutboxEntry>();
+  return {
+    async load(userId) {
+      return [...entries.values()].filter((e) => e.userId === userId);
+    },
+    async put(entry) {
+      entries.set(entry.id, entry);
+    },
+    async remove(ids) {
+      ids.forEach((id) => entries.delete(id));
+    }
+  };
+}
+
+const DB_NAME = 'farm-miniapp-outbox';
+const STORE_NAME = 'actions';
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Хранилище в IndexedDB; если IndexedDB недоступен (приватный режим, старый WebView) — в памяти. */
+export function createIndexedDbOutboxStorage(): OutboxStorage {
+  if (typeof indexedDB === 'undefined') return createMemoryOutboxStorage();
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex('userId', 'userId');
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = run(tx.objectStore(STORE_NAME));
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+    return request ? (request.result as T) : undefined;
+  };
+
+  return {
+    async load(userId) {
+      const entries = await withStore<OutboxEntry[]>('readonly', (store) => store.index('userId').getAll(userId));
+      return entries ?? [];
+    },
+    async put(entry) {
+      await withStore('readwrite', (store) => store.put(entry));
+    },
+    async remove(ids) {
+      if (ids.length === 0) return;
+      await withStore('readwrite', (store) => {
+        ids.forEach((id) => store.delete(id));
+      });
+    }
+  };
+}
+
+export interface Outbox {
+  /** Записи по порядку seq */
+  entries(): OutboxEntry[];
+  /** Подтянуть записи, оставшиеся с прошлого запуска (вызывается один раз при старте). */
+  restore(): Promise<OutboxEntry[]>;
+  push(action: FarmAction, now?: number): OutboxEntry;
+  /** Убрать записи (подтверждены сервером или стали невозможны). */
+  remove(ids: string[]): void;
+  recordSuccess(): void;
+  /** Запомнить неудачную попытку; возвращает задержку до следующей. */
+  recordFailure(now?: number): number;
+  /** Сбросить задержку (сеть снова появилась). */
+  resetBackoff(): void;
+  isRetryDue(now?: number): boolean;
+  getStatus(): OutboxStatus;
+  subscribe(listener: (status: OutboxStatus) => void): () => void;
+}
+
+export function createOutbox(userId: string, storage: OutboxStorage): Outbox {
+  let entries: OutboxEntry[] = [];
+  let nextSeq = 1;
+  let failures = 0;
+  let nextAttemptAt = 0;
+  const listeners = new Set<(status: OutboxStatus) => void>();
+
+  const getStatus = (): OutboxStatus => ({ pending: entries.length, failures, nextAttemptAt });
+  const notify = () => {
+    const status = getStatus();
+    listeners.forEach((listener) => listener(status));
+  };
+  const persist = (run: () => Promise<void>) => {
+    run().catch(() => {
+      // хранилище недоступно — очередь продолжает жить в памяти до закрытия мини-аппа
+    });
+  };
+
+  return {
+    entries: () => entries,
+
+    async restore() {
+      const stored = await storage.load(userId);
+      const known = new Set(entries.map((e) => e.id));
+      entries = [...stored.filter((e) => !known.has(e.id)), ...entries].sort((a, b) => a.seq - b.seq);
+      nextSeq = Math.max(nextSeq, ...entries.map((e) => e.seq + 1));
+      notify();
+      return entries;
+    },
+
+    push(action, now = Date.now()) {
+      const entry: OutboxEntry = { id: createActionId(), action, userId, seq: nextSeq++, createdAt: now };
+      entries = [...entries, entry];
+      persist(() => storage.put(entry));
+      notify();
+      return entry;
+    },
+
+    remove(ids) {
+      if (ids.length === 0) return;
+      const removed = new Set(ids);
+      entries = entries.filter((e) => !removed.has(e.id));
+      persist(() => storage.remove(ids));
+      notify();
+    },
+
+    recordSuccess() {
+      if (failures === 0 && nextAttemptAt === 0) return;
+      failures = 0;
+      nextAttemptAt = 0;
+      notify();
+    },
+
+    recordFailure(now = Date.now()) {
+      failures += 1;
+      const delay = getBackoffDelay(failures);
+      nextAttemptAt = now + delay;
+      notify();
+      return delay;
+    },
+
+    resetBackoff() {
+      nextAttemptAt = 0;
+      notify();
+    },
+
+    isRetryDue(now = Date.now()) {
+      return entries.length > 0 && now >= nextAttemptAt;
+    },
+
+    getStatus,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
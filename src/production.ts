@@ -0,0 +1,99 @@
+import type { GameState, BuildingSlot, ProductionJob } from './gameTypes';
+import { getEconomy, type GoodsId, type RecipeEconomy } from './economy';
+import { isTimerReady } from './gameLogic';
+import { getActionXp, grantXp } from './progression';
+
+// Перерабатывающие здания: очередь рецептов на таймерах TimerState.
+// Задания в очереди выполняются по очереди: следующее стартует, когда заканчивается предыдущее,
+// поэтому готовность считается только по startedAt/durationMs — так же, как у грядок и животных.
+
+const MINUTE = 60 * 1000;
+
+export function getBuildingRecipes(building: BuildingSlot): Array<[string, RecipeEconomy]> {
+  const { recipes } = getEconomy();
+  return Object.keys(recipes)
+    .filter((id) => recipes[id].building === building.type)
+    .map((id) => [id, recipes[id]]);
+}
+
+export function canUnlockBuilding(state: GameState, building: BuildingSlot): boolean {
+  if (building.unlocked) return false;
+  const config = getEconomy().buildings[building.type];
+  return state.level >= config.unlockLevel && state.resources.coins >= config.unlockCoins;
+}
+
+export function unlockBuilding(state: GameState, buildingId: string): GameState {
+  const building = state.buildings?.find((b) => b.id === buildingId);
+  if (!building || !canUnlockBuilding(state, building)) return state;
+  const { unlockCoins } = getEconomy().buildings[building.type];
+
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins - unlockCoins },
+    buildings: state.buildings?.map((b) => (b.id === buildingId ? { ...b, unlocked: true } : b))
+  };
+}
+
+function hasInputs(state: GameState, recipe: RecipeEconomy): boolean {
+  return (Object.keys(recipe.inputs) as GoodsId[]).every((id) => state.resources[id] >= (recipe.inputs[id] ?? 0));
+}
+
+export function canStartRecipe(state: GameState, building: BuildingSlot, recipeId: string): boolean {
+  const recipe = getEconomy().recipes[recipeId];
+  if (!recipe || recipe.building !== building.type || !building.unlocked) return false;
+  if (state.level < recipe.minLevel) return false;
+  if (building.queue.length >= getEconomy().buildings[building.type].queueSize) return false;
+  return hasInputs(state, recipe);
+}
+
+/** Поставить рецепт в очередь: сырьё списывается сразу, таймер стартует после последнего задания. */
+export function startRecipe(state: GameState, buildingId: string, recipeId: string, now: number = Date.now()): GameState {
+  const building = state.buildings?.find((b) => b.id === buildingId);
+  if (!building || !canStartRecipe(state, building, recipeId)) return state;
+  const recipe = getEconomy().recipes[recipeId];
+
+  const resources = { ...state.resources };
+  for (const id of Object.keys(recipe.inputs) as GoodsId[]) {
+    resources[id] -= recipe.inputs[id] ?? 0;
+  }
+
+  const last = building.queue[building.queue.length - 1];
+  const startedAt = last ? Math.max(now, last.timer.startedAt + last.timer.durationMs) : now;
+  const job: ProductionJob = { recipeId, timer: { startedAt, durationMs: recipe.durationMinutes * MINUTE } };
+
+  return {
+    ...state,
+    resources,
+    buildings: state.buildings?.map((b) => (b.id === buildingId ? { ...b, queue: [...b.queue, job] } : b))
+  };
+}
+
+export function getReadyJobs(building: BuildingSlot, now: number = Date.now()): ProductionJob[] {
+  return building.queue.filter((job) => isTimerReady(job.timer, now));
+}
+
+/** Забрать всё готовое из здания. */
+export function collectProduction(state: GameState, buildingId: string, now: number = Date.now()): GameState {
+  const building = state.buildings?.find((b) => b.id === buildingId);
+  if (!building) return state;
+  const ready = getReadyJobs(building, now);
+  if (ready.length === 0) return state;
+
+  const { recipes } = getEconomy();
+  const resources = { ...state.resources };
+  for (const job of ready) {
+    const recipe = recipes[job.recipeId];
+    if (!recipe) continue;
+    resources[recipe.output.resource] += recipe.output.amount;
+  }
+
+  const newState: GameState = {
+    ...state,
+    resources,
+    buildings: state.buildings?.map((b) =>
+      b.id === buildingId ? { ...b, queue: b.queue.filter((job) => !isTimerReady(job.timer, now)) } : b
+    )
+  };
+
+  return grantXp(newState, getActionXp('craft') * ready.length);
+}
@@ -0,0 +1,78 @@
+import type { GameState, CropType, AnimalType, BuildingType } from './gameTypes';
+import { getEconomy, CROP_TYPES, ANIMAL_TYPES, BUILDING_TYPES, type LevelReward } from './economy';
+
+// Уровень фермы: опыт за действия, кривая уровней, награды и контент, который открывается на уровне.
+
+export type XpAction = 'plant' | 'harvest' | 'feed' | 'collect' | 'craft';
+
+/** Сколько опыта нужно, чтобы перейти с level на level + 1. */
+export function getXpForNextLevel(level: number): number {
+  const { base, growth } = getEconomy().progression.curve;
+  return Math.max(1, Math.round(base * Math.pow(growth, Math.max(0, level - 1))));
+}
+
+export function getLevelReward(level: number): LevelReward {
+  const { coinsPerLevel, gems, gemsEveryLevels } = getEconomy().progression.rewards;
+  return {
+    coins: coinsPerLevel * level,
+    gems: gemsEveryLevels > 0 && level % gemsEveryLevels === 0 ? gems : 0
+  };
+}
+
+export interface LevelUnlocks {
+  crops: CropType[];
+  animals: AnimalType[];
+  buildings: BuildingType[];
+  recipes: string[];
+  feedPacks: string[];
+}
+
+/** Что становится доступным ровно на этом уровне (для уведомления о новом уровне). */
+export function getLevelUnlocks(level: number): LevelUnlocks {
+  const economy = getEconomy();
+  return {
+    crops: CROP_TYPES.filter((t) => economy.crops[t].unlock?.level === level),
+    animals: ANIMAL_TYPES.filter((t) => economy.animals[t].unlock?.level === level),
+    buildings: BUILDING_TYPES.filter((t) => economy.buildings[t].unlockLevel === level),
+    recipes: Object.keys(economy.recipes).filter((id) => economy.recipes[id].minLevel === level),
+    feedPacks: economy.feedPacks.filter((p) => p.minLevel === level).map((p) => p.id)
+  };
+}
+
+/** Опыт за действие из каталога. */
+export function getActionXp(action: XpAction): number {
+  return getEconomy().progression.xp[action];
+}
+
+/** Опыт за продажу: пропорционально заработанным монетам. */
+export function getSaleXp(income: number): number {
+  if (income <= 0) return 0;
+  return Math.max(1, Math.floor(income * getEconomy().progression.xp.xpPerSoldCoin));
+}
+
+/**
+ * Начислить опыт. Переполнение переносится на следующие уровни,
+ * за каждый новый уровень сразу выдаётся награда (монеты и гемы).
+ */
+export function grantXp(state: GameState, amount: number): GameState {
+  if (amount <= 0) return state;
+  let level = state.level ?? 1;
+  let xp = (state.xp ?? 0) + amount;
+  let coins = state.resources.coins;
+  let gems = state.resources.gems;
+
+  while (xp >= getXpForNextLevel(level)) {
+    xp -= getXpForNextLevel(level);
+    level += 1;
+    const reward = getLevelReward(level);
+    coins += reward.coins;
+    gems += reward.gems;
+  }
+
+  return {
+    ...state,
+    level,
+    xp,
+    resources: { ...state.resources, coins, gems }
+  };
+}
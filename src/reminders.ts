@@ -0,0 +1,75 @@
+import type { GameState } from './gameTypes';
+import { getEconomy, type EconomyConfig } from './economy';
+
+// Напоминания от бота: когда созреет урожай, животные дадут продукцию или цех закончит задание.
+// Клиент считает по таймерам, что и когда будет готово, и отправляет список серверу; сервер шлёт сообщения
+// с учётом тихих часов и группирует близкие по времени события в одно сообщение (server/reminders.ts).
+
+export interface ReminderItem {
+  /** Слот или задание цеха: c1, a2, b1:0 */
+  key: string;
+  kind: 'crop' | 'animal' | 'building';
+  /** Тип культуры/животного, для цеха — id рецепта */
+  type: string;
+  readyAt: number;
+}
+
+export interface ReminderSettings {
+  enabled: boolean;
+  /** Тихие часы по местному времени игрока: с quietFromHour до quietToHour сообщения не приходят */
+  quietFromHour: number;
+  quietToHour: number;
+  /** Смещение местного времени от UTC в минутах (для Москвы +180) */
+  utcOffsetMinutes: number;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: false,
+  quietFromHour: 22,
+  quietToHour: 8,
+  utcOffsetMinutes: 0
+};
+
+/** Всё, что ещё не готово, с моментом готовности. Готовое уже видно в игре — о нём не напоминаем. */
+export function collectReminderItems(state: GameState, now: number = Date.now()): ReminderItem[] {
+  const items: ReminderItem[] = [];
+  const push = (key: string, kind: ReminderItem['kind'], type: string, readyAt: number) => {
+    if (readyAt > now) items.push({ key, kind, type, readyAt });
+  };
+  state.crops.forEach((slot) => {
+    if (slot.timer) push(slot.id, 'crop', slot.type, slot.timer.startedAt + slot.timer.durationMs);
+  });
+  state.animals.forEach((slot) => {
+    if (slot.timer) push(slot.id, 'animal', slot.type, slot.timer.startedAt + slot.timer.durationMs);
+  });
+  (state.buildings ?? []).forEach((building) => {
+    building.queue.forEach((job, i) => push(`${building.id}:${i}`, 'building', job.recipeId, job.timer.startedAt + job.timer.durationMs));
+  });
+  return items.sort((a, b) => a.readyAt - b.readyAt);
+}
+
+/** Текст одного сообщения на пачку готового: одинаковые слоты сворачиваются в «×N». */
+export function formatReminderMessage(items: ReminderItem[]): string {
+  const economy = getEconomy();
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const line = describeItem(item, economy);
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  });
+  const lines = [...counts].map(([line, count]) => (count > 1 ? `${line} ×${count}` : line));
+  return [...lines, '', 'Заходи на ферму собрать!'].join('\n');
+}
+
+function describeItem(item: ReminderItem, economy: EconomyConfig): string {
+  if (item.kind === 'crop') {
+    const crop = economy.crops[item.type as keyof typeof economy.crops];
+    return crop ? `${crop.icon} ${crop.title}: урожай созрел` : '🌱 Урожай созрел';
+  }
+  if (item.kind === 'animal') {
+    const animal = economy.animals[item.type as keyof typeof economy.animals];
+    return animal ? `${animal.icon} ${animal.title}: ${animal.yieldText} можно забрать` : '🐾 Животные ждут';
+  }
+  const recipe = economy.recipes[item.type];
+  const building = recipe ? economy.buildings[recipe.building] : null;
+  return recipe && building ? `${building.icon} ${building.title}: «${recipe.title}» готово` : '🏭 Цех закончил работу';
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { SCHEMA_VERSION } from './gameTypes';
+import { createInitialState } from './initialState';
+import { migrateSave, MIGRATIONS, SaveFormatError, validateGameState } from './saveFormat';
+import v0 from './fixtures/saves/v0.json';
+import v1 from './fixtures/saves/v1.json';
+import v2 from './fixtures/saves/v2.json';
+
+// Сохранения прошлых версий игры (src/fixtures/saves) проходят цепочку миграций и проверку формата.
+// Меняешь формат — добавь сюда фикстуру текущей версии, а старые не трогай.
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+describe('фикстуры сохранений', () => {
+  it.each([
+    ['v0', v0],
+    ['v1', v1],
+    ['v2', v2]
+  ])('%s загружается в текущую версию', (_name, fixture) => {
+    const state = migrateSave(clone(fixture));
+    expect(state.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(validateGameState(state)).toEqual([]);
+    expect(state.level).toBe(fixture.level);
+    expect(state.resources.coins).toBe(fixture.resources.coins);
+    expect(state.revision).toBe(fixture.revision);
+  });
+
+  it('есть фикстура для каждой версии формата', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual([1, 2]);
+    expect([v1.schemaVersion, v2.schemaVersion]).toEqual(MIGRATIONS.map((m) => m.version));
+  });
+});
+
+describe('миграции', () => {
+  it('v0: недостающие слоты, здания и ресурсы берутся из шаблона, прогресс слотов сохраняется', () => {
+    const state = migrateSave(clone(v0));
+    const template = createInitialState();
+    expect(state.crops.map((c) => c.id)).toEqual(template.crops.map((c) => c.id));
+    expect(state.animals.map((a) => a.id)).toEqual(template.animals.map((a) => a.id));
+    expect(state.buildings).toEqual(template.buildings);
+    expect(state.xp).toBe(0);
+    expect(state.resources).toMatchObject({ butter: 0, cloth: 0, cornbread: 0, tomato: 18 });
+    expect(state.crops[0]).toMatchObject({ level: 3, gemUpgradeLevel: 1, timer: v0.crops[0].timer });
+    expect(state.crops[2].harvestsSinceLevel).toBe(0);
+    expect(state.referrerUsername).toBe('granny_farm');
+  });
+
+  it('v0 и v1: открытые культуры — те, что стоят на открытых грядках, запас семян пуст', () => {
+    expect(migrateSave(clone(v0)).unlockedCrops).toEqual(['tomato', 'cucumber', 'corn']);
+    const state = migrateSave(clone(v1));
+    expect(state.unlockedCrops).toEqual(['tomato', 'cucumber', 'corn', 'watermelon']);
+    expect(state.seeds).toEqual({});
+  });
+
+  it('v1: очереди цеха, резерв, давление рынка и перки не теряются', () => {
+    const state = migrateSave(clone(v1));
+    expect(state.buildings?.[0].queue).toEqual(v1.buildings[0].queue);
+    expect(state.sellReserve).toEqual({ corn: 10 });
+    expect(state.marketPressure).toEqual(v1.marketPressure);
+    expect(state.perks?.autoCollect).toBe(true);
+  });
+
+  it('шаг v1 берёт стартовый шаблон v1, а не текущий', () => {
+    const migrated = MIGRATIONS[0].migrate({ resources: { coins: 'много' }, crops: [{ id: 'c9', type: 'corn' }] });
+    expect(migrated.resources).toEqual(expect.objectContaining({ coins: 100, gems: 5, feed: 5, cornbread: 0 }));
+    expect((migrated.crops as { id: string }[]).map((c) => c.id)).toEqual(['c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c9']);
+    expect((migrated.buildings as { id: string }[]).map((b) => b.id)).toEqual(['b1', 'b2', 'b3', 'b4']);
+    expect(migrated).toMatchObject({ level: 1, xp: 0, revision: 0 });
+  });
+
+  it('v2: текущая версия загружается без изменений', () => {
+    expect(migrateSave(clone(v2))).toEqual(v2);
+  });
+});
+
+describe('ошибки формата', () => {
+  it('сохранение новее игры не загружается', () => {
+    expect(() => migrateSave({ ...clone(v2), schemaVersion: SCHEMA_VERSION + 1 })).toThrow(/новее/);
+  });
+
+  it('проблемы перечисляются по полям', () => {
+    const broken = clone(v2) as Record<string, unknown> & typeof v2;
+    broken.level = 0;
+    broken.crops[1] = { ...broken.crops[1], type: 'banana' as never, id: 'c1' };
+    (broken.resources as Record<string, unknown>).coins = 'много';
+    try {
+      migrateSave(broken);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SaveFormatError);
+      expect((error as SaveFormatError).problems).toEqual([
+        'level: ожидалось не меньше 1, получено 0',
+        'resources.coins: ожидалось число, получено строка "много"',
+        'crops[1].id: повторяется id "c1"',
+        'crops[1].type: неизвестный тип строка "banana" (есть: tomato, cucumber, corn, watermelon, apple)'
+      ]);
+    }
+  });
+
+  it('часовой пояс — не дальше ±14 часов', () => {
+    expect(validateGameState({ ...clone(v2), utcOffsetMinutes: 15 * 60 })).toEqual(['utcOffsetMinutes: ожидалось не больше 840, получено 900']);
+    expect(validateGameState({ ...clone(v2), utcOffsetMinutes: 14 * 60 })).toEqual([]);
+  });
+
+  it('не объект — понятная ошибка', () => {
+    expect(() => migrateSave('FARM1')).toThrow(SaveFormatError);
+    expect(validateGameState(null)).toEqual(['сохранение: ожидался объект, получено null']);
+  });
+});
@@ -0,0 +1,371 @@
+import { SCHEMA_VERSION, type GameState } from './gameTypes';
+import { getEconomy } from './economy';
+import { createInitialState } from './initialState';
+
+// Формат сохранения фермы. Одно и то же сохранение читают клиент (localStorage) и сервер (файл базы),
+// поэтому загрузка идёт через общие migrateSave/validateGameState, а не через ad hoc дополнение полей.
+//
+// Как менять формат: повысить SCHEMA_VERSION в gameTypes.ts и добавить в MIGRATIONS шаг с этой версией,
+// который переводит сохранение предыдущей версии в новую. Старые шаги не трогаем — по ним едут старые сохранения.
+
+type RawSave = Record<string, unknown>;
+
+export interface SaveMigration {
+  /** Версия, которую получает сохранение после шага */
+  version: number;
+  description: string;
+  migrate: (save: RawSave) => RawSave;
+}
+
+// Стартовый шаблон на момент v1. Шаг v1 опирается только на него, а не на createInitialState/ensureExtendedState:
+// они меняются вместе с игрой, а результат старого шага должен оставаться прежним.
+const V1_RESOURCES: Record<string, number> = {
+  coins: 100,
+  gems: 5,
+  tomato: 0,
+  cucumber: 0,
+  corn: 0,
+  watermelon: 0,
+  apple: 0,
+  milk: 0,
+  egg: 0,
+  cheese: 0,
+  meat: 0,
+  feathers: 0,
+  wool: 0,
+  butter: 0,
+  cloth: 0,
+  cornbread: 0,
+  feed: 5
+};
+
+const v1Slot = (id: string, type: string, baseYield: number, unlocked: boolean) => ({
+  id,
+  type,
+  level: 1,
+  baseYield,
+  timer: null,
+  harvestsSinceLevel: 0,
+  gemUpgradeLevel: 0,
+  unlocked
+});
+
+const V1_CROPS = [
+  v1Slot('c1', 'tomato', 3, true),
+  v1Slot('c2', 'cucumber', 2, true),
+  v1Slot('c3', 'tomato', 2, true),
+  v1Slot('c4', 'corn', 3, false),
+  v1Slot('c5', 'watermelon', 4, false),
+  v1Slot('c6', 'apple', 5, false)
+];
+
+const V1_ANIMALS = [
+  v1Slot('a1', 'cow', 1, true),
+  v1Slot('a2', 'chicken', 1, true),
+  v1Slot('a3', 'goat', 1, false),
+  v1Slot('a4', 'sheep', 1, false),
+  v1Slot('a5', 'pig', 1, false),
+  v1Slot('a6', 'goose', 1, false)
+];
+
+const V1_BUILDINGS = ['dairy', 'mill', 'bakery', 'loom'].map((type, i) => ({ id: `b${i + 1}`, type, unlocked: false }));
+
+// Слоты шаблона дополняются сохранёнными по id, купленные сверх шаблона остаются после них
+function mergeV1Slots(value: unknown, template: RawSave[]): RawSave[] {
+  const slots = Array.isArray(value) ? value.filter((slot): slot is RawSave => isObject(slot) && slot.id != null) : [];
+  const templateIds = new Set(template.map((tpl) => tpl.id));
+  return [
+    ...template.map((tpl) => {
+      const existing = slots.find((slot) => slot.id === tpl.id);
+      return { ...tpl, ...existing, harvestsSinceLevel: existing?.harvestsSinceLevel ?? 0 };
+    }),
+    ...slots.filter((slot) => !templateIds.has(slot.id)).map((slot) => ({ ...slot, harvestsSinceLevel: slot.harvestsSinceLevel ?? 0 }))
+  ];
+}
+
+export const MIGRATIONS: SaveMigration[] = [
+  {
+    version: 1,
+    description: 'Сохранения до введения версий: недостающие ресурсы, слоты, здания, опыт и ревизия — по стартовому шаблону v1',
+    migrate: (save) => {
+      const resources = isObject(save.resources) ? save.resources : {};
+      return {
+        ...save,
+        level: typeof save.level === 'number' && save.level >= 1 ? save.level : 1,
+        xp: typeof save.xp === 'number' && save.xp >= 0 ? save.xp : 0,
+        revision: typeof save.revision === 'number' ? save.revision : 0,
+        resources: Object.fromEntries(
+          Object.entries({ ...V1_RESOURCES, ...resources }).map(([key, amount]) => [key, typeof amount === 'number' ? amount : (V1_RESOURCES[key] ?? 0)])
+        ),
+        crops: mergeV1Slots(save.crops, V1_CROPS),
+        animals: mergeV1Slots(save.animals, V1_ANIMALS),
+        buildings: V1_BUILDINGS.map((tpl) => {
+          const existing = (Array.isArray(save.buildings) ? save.buildings : []).find((b): b is RawSave => isObject(b) && b.id === tpl.id);
+          return { ...tpl, ...existing, queue: Array.isArray(existing?.queue) ? existing.queue : [] };
+        })
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Грядки отделены от культур: открытые культуры — те, что стоят на открытых грядках; запас семян пуст',
+    migrate: (save) => {
+      const crops = Array.isArray(save.crops) ? save.crops.filter(isObject) : [];
+      const unlockedCrops = [...new Set(crops.filter((c) => c.unlocked !== false).map((c) => c.type))];
+      return { ...save, unlockedCrops, seeds: {} };
+    }
+  }
+];
+
+if (MIGRATIONS[MIGRATIONS.length - 1].version !== SCHEMA_VERSION) {
+  throw new Error(`saveFormat: последняя миграция (v${MIGRATIONS[MIGRATIONS.length - 1].version}) не совпадает с SCHEMA_VERSION (v${SCHEMA_VERSION})`);
+}
+
+/** Сохранение не удалось привести к текущему формату; problems — что именно не так, по полям. */
+export class SaveFormatError extends Error {
+  constructor(
+    message: string,
+    readonly problems: string[] = []
+  ) {
+    super(problems.length > 0 ? `${message}: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? ` и ещё ${problems.length - 5}` : ''}` : message);
+  }
+}
+
+const isObject = (value: unknown): value is RawSave =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (value === undefined) return 'нет значения';
+  if (Array.isArray(value)) return 'массив';
+  if (typeof value === 'string') return `строка "${value.length > 20 ? `${value.slice(0, 20)}…` : value}"`;
+  return `${typeof value} ${String(value)}`;
+}
+
+function checkNumber(
+  problems: string[],
+  path: string,
+  value: unknown,
+  { min = 0, max = Infinity, integer = false, optional = false }: { min?: number; max?: number; integer?: boolean; optional?: boolean } = {}
+) {
+  if (value === undefined && optional) return;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    problems.push(`${path}: ожидалось число, получено ${describe(value)}`);
+  } else if (integer && !Number.isInteger(value)) {
+    problems.push(`${path}: ожидалось целое число, получено ${value}`);
+  } else if (value < min) {
+    problems.push(`${path}: ожидалось не меньше ${min}, получено ${value}`);
+  } else if (value > max) {
+    problems.push(`${path}: ожидалось не больше ${max}, получено ${value}`);
+  }
+}
+
+function checkTimer(problems: string[], path: string, value: unknown) {
+  if (!isObject(value)) {
+    problems.push(`${path}: ожидался таймер { startedAt, durationMs }, получено ${describe(value)}`);
+    return;
+  }
+  checkNumber(problems, `${path}.startedAt`, value.startedAt);
+  checkNumber(problems, `${path}.durationMs`, value.durationMs);
+}
+
+function checkSlots(problems: string[], path: string, value: unknown, types: string[], validateSlot: (slot: RawSave, slotPath: string) => void) {
+  if (!Array.isArray(value)) {
+    problems.push(`${path}: ожидался массив, получено ${describe(value)}`);
+    return;
+  }
+  const seen = new Set<string>();
+  value.forEach((slot, i) => {
+    const slotPath = `${path}[${i}]`;
+    if (!isObject(slot)) {
+      problems.push(`${slotPath}: ожидался объект, получено ${describe(slot)}`);
+      return;
+    }
+    if (typeof slot.id !== 'string' || slot.id === '') {
+      problems.push(`${slotPath}.id: ожидалась непустая строка, получено ${describe(slot.id)}`);
+    } else if (seen.has(slot.id)) {
+      problems.push(`${slotPath}.id: повторяется id "${slot.id}"`);
+    } else {
+      seen.add(slot.id);
+    }
+    if (typeof slot.type !== 'string' || !types.includes(slot.type)) {
+      problems.push(`${slotPath}.type: неизвестный тип ${describe(slot.type)} (есть: ${types.join(', ')})`);
+    }
+    if (slot.unlocked !== undefined && typeof slot.unlocked !== 'boolean') {
+      problems.push(`${slotPath}.unlocked: ожидалось true/false, получено ${describe(slot.unlocked)}`);
+    }
+    validateSlot(slot, slotPath);
+  });
+}
+
+/** Проверка сохранения текущей версии. Пустой список — сохранение можно загружать. */
+export function validateGameState(value: unknown): string[] {
+  const problems: string[] = [];
+  if (!isObject(value)) return [`сохранение: ожидался объект, получено ${describe(value)}`];
+
+  if (value.schemaVersion !== SCHEMA_VERSION) {
+    problems.push(`schemaVersion: ожидалась версия ${SCHEMA_VERSION}, получено ${describe(value.schemaVersion)}`);
+  }
+  checkNumber(problems, 'level', value.level, { min: 1, integer: true });
+  checkNumber(problems, 'xp', value.xp, { optional: true });
+  checkNumber(problems, 'revision', value.revision, { integer: true, optional: true });
+
+  if (!isObject(value.resources)) {
+    problems.push(`resources: ожидался объект, получено ${describe(value.resources)}`);
+  } else {
+    const resources = value.resources;
+    Object.keys(createInitialState().resources).forEach((key) => checkNumber(problems, `resources.${key}`, resources[key]));
+  }
+
+  const economy = getEconomy();
+  const validateProducer = (slot: RawSave, path: string) => {
+    checkNumber(problems, `${path}.level`, slot.level, { min: 1, integer: true });
+    checkNumber(problems, `${path}.baseYield`, slot.baseYield);
+    checkNumber(problems, `${path}.gemUpgradeLevel`, slot.gemUpgradeLevel, { integer: true, optional: true });
+    checkNumber(problems, `${path}.harvestsSinceLevel`, slot.harvestsSinceLevel, { integer: true, optional: true });
+    if (slot.timer !== null) checkTimer(problems, `${path}.timer`, slot.timer);
+  };
+  checkSlots(problems, 'crops', value.crops, Object.keys(economy.crops), validateProducer);
+  checkSlots(problems, 'animals', value.animals, Object.keys(economy.animals), validateProducer);
+  if (value.seeds !== undefined) {
+    if (!isObject(value.seeds)) {
+      problems.push(`seeds: ожидался объект, получено ${describe(value.seeds)}`);
+    } else {
+      Object.entries(value.seeds).forEach(([key, amount]) => {
+        if (!(key in economy.crops)) problems.push(`seeds.${key}: неизвестная культура`);
+        else checkNumber(problems, `seeds.${key}`, amount, { integer: true });
+      });
+    }
+  }
+  if (value.unlockedCrops !== undefined) {
+    if (!Array.isArray(value.unlockedCrops)) {
+      problems.push(`unlockedCrops: ожидался массив, получено ${describe(value.unlockedCrops)}`);
+    } else {
+      value.unlockedCrops.forEach((type, i) => {
+        if (typeof type !== 'string' || !(type in economy.crops)) problems.push(`unlockedCrops[${i}]: неизвестная культура ${describe(type)}`);
+      });
+    }
+  }
+
+  if (value.buildings !== undefined) {
+    checkSlots(problems, 'buildings', value.buildings, Object.keys(economy.buildings), (slot, path) => {
+      if (!Array.isArray(slot.queue)) {
+        problems.push(`${path}.queue: ожидался массив, получено ${describe(slot.queue)}`);
+        return;
+      }
+      slot.queue.forEach((job, i) => {
+        if (!isObject(job)) {
+          problems.push(`${path}.queue[${i}]: ожидался объект, получено ${describe(job)}`);
+          return;
+        }
+        if (typeof job.recipeId !== 'string' || !(job.recipeId in economy.recipes)) {
+          problems.push(`${path}.queue[${i}].recipeId: неизвестный рецепт ${describe(job.recipeId)}`);
+        }
+        checkTimer(problems, `${path}.queue[${i}].timer`, job.timer);
+      });
+    });
+  }
+
+  if (value.sellReserve !== undefined) {
+    if (!isObject(value.sellReserve)) {
+      problems.push(`sellReserve: ожидался объект, получено ${describe(value.sellReserve)}`);
+    } else {
+      Object.entries(value.sellReserve).forEach(([key, amount]) => checkNumber(problems, `sellReserve.${key}`, amount));
+    }
+  }
+  if (value.marketPressure !== undefined) {
+    if (!isObject(value.marketPressure)) {
+      problems.push(`marketPressure: ожидался объект, получено ${describe(value.marketPressure)}`);
+    } else {
+      Object.entries(value.marketPressure).forEach(([key, entry]) => {
+        if (!isObject(entry)) {
+          problems.push(`marketPressure.${key}: ожидался объект, получено ${describe(entry)}`);
+          return;
+        }
+        checkNumber(problems, `marketPressure.${key}.amount`, entry.amount);
+        checkNumber(problems, `marketPressure.${key}.updatedAt`, entry.updatedAt);
+      });
+    }
+  }
+  if (value.perks !== undefined && !isObject(value.perks)) {
+    problems.push(`perks: ожидался объект, получено ${describe(value.perks)}`);
+  }
+  checkNumber(problems, 'utcOffsetMinutes', value.utcOffsetMinutes, { min: -14 * 60, max: 14 * 60, integer: true, optional: true });
+  checkNumber(problems, 'utcOffsetChangedAt', value.utcOffsetChangedAt, { optional: true });
+  if (value.weeklyGoals !== undefined) {
+    const weekly = value.weeklyGoals;
+    if (!isObject(weekly)) {
+      problems.push(`weeklyGoals: ожидался объект, получено ${describe(weekly)}`);
+    } else {
+      checkNumber(problems, 'weeklyGoals.weekStart', weekly.weekStart, { min: -Infinity });
+      if (!Array.isArray(weekly.goals)) problems.push(`weeklyGoals.goals: ожидался массив, получено ${describe(weekly.goals)}`);
+      else
+        weekly.goals.forEach((goal, i) => {
+          if (!isObject(goal) || typeof goal.id !== 'string' || typeof goal.kind !== 'string') {
+            problems.push(`weeklyGoals.goals[${i}]: ожидалась цель, получено ${describe(goal)}`);
+            return;
+          }
+          checkNumber(problems, `weeklyGoals.goals[${i}].target`, goal.target, { integer: true });
+          checkNumber(problems, `weeklyGoals.goals[${i}].progress`, goal.progress, { integer: true });
+        });
+      if (!Array.isArray(weekly.claimedTiers)) problems.push(`weeklyGoals.claimedTiers: ожидался массив, получено ${describe(weekly.claimedTiers)}`);
+    }
+  }
+  if (value.dailyQuests !== undefined) {
+    const daily = value.dailyQuests;
+    if (!isObject(daily)) {
+      problems.push(`dailyQuests: ожидался объект, получено ${describe(daily)}`);
+    } else {
+      checkNumber(problems, 'dailyQuests.dayStart', daily.dayStart, { min: -Infinity });
+      checkNumber(problems, 'dailyQuests.chestWeekStart', daily.chestWeekStart, { min: -Infinity });
+      checkNumber(problems, 'dailyQuests.rerolls', daily.rerolls, { integer: true });
+      checkNumber(problems, 'dailyQuests.fullDays', daily.fullDays, { integer: true });
+      if (!Array.isArray(daily.quests)) problems.push(`dailyQuests.quests: ожидался массив, получено ${describe(daily.quests)}`);
+      else
+        daily.quests.forEach((quest, i) => {
+          if (!isObject(quest) || typeof quest.kind !== 'string') {
+            problems.push(`dailyQuests.quests[${i}]: ожидалось задание, получено ${describe(quest)}`);
+            return;
+          }
+          checkNumber(problems, `dailyQuests.quests[${i}].target`, quest.target, { integer: true });
+          checkNumber(problems, `dailyQuests.quests[${i}].progress`, quest.progress, { integer: true });
+          checkNumber(problems, `dailyQuests.quests[${i}].coins`, quest.coins, { integer: true });
+        });
+    }
+  }
+  for (const field of ['stats', 'achievements'] as const) {
+    const counters = value[field];
+    if (counters === undefined) continue;
+    if (!isObject(counters)) {
+      problems.push(`${field}: ожидался объект, получено ${describe(counters)}`);
+      continue;
+    }
+    Object.entries(counters).forEach(([key, count]) => checkNumber(problems, `${field}.${key}`, count, { integer: true }));
+  }
+  return problems;
+}
+
+/**
+ * Приводит сохранение любой известной версии к текущей: по очереди применяет миграции новее его версии
+ * и проверяет результат. Бросает SaveFormatError, если сохранение из более новой версии игры или повреждено.
+ */
+export function migrateSave(raw: unknown): GameState {
+  if (!isObject(raw)) throw new SaveFormatError('Сохранение повреждено', [`сохранение: ожидался объект, получено ${describe(raw)}`]);
+  const fromVersion = raw.schemaVersion ?? 0;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion) || fromVersion < 0) {
+    throw new SaveFormatError('Сохранение повреждено', [`schemaVersion: ожидалось целое число, получено ${describe(fromVersion)}`]);
+  }
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new SaveFormatError(`Сохранение версии ${fromVersion} новее, чем поддерживает игра (${SCHEMA_VERSION}) — обнови приложение`);
+  }
+
+  let save = raw;
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    save = { ...migration.migrate(save), schemaVersion: migration.version };
+  }
+
+  const problems = validateGameState(save);
+  if (problems.length > 0) throw new SaveFormatError('Сохранение повреждено', problems);
+  return save as unknown as GameState;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createCloudSaveStorage, createMemorySaveStorage, withMigration, type SaveStorage } from './saveStorage';
+import type { TelegramCloudStorage } from './telegram';
+
+// Перенос сохранений между хранилищами: только когда в основном действительно ничего нет
+
+function failingStorage(): SaveStorage & { saved: string[] } {
+  const saved: string[] = [];
+  return {
+    kind: 'cloud',
+    saved,
+    load: () => Promise.reject(new Error('CloudStorage: timeout')),
+    async save(key) {
+      saved.push(key);
+    },
+    async remove() {}
+  };
+}
+
+describe('withMigration', () => {
+  it('переносит сохранение из прежнего хранилища, если в основном его нет', async () => {
+    const primary = createMemorySaveStorage();
+    const local = createMemorySaveStorage();
+    await local.save('farm', 'old');
+    expect(await withMigration(primary, [local]).load('farm')).toBe('old');
+    expect(await primary.load('farm')).toBe('old');
+  });
+
+  it('основное сохранение важнее прежних', async () => {
+    const primary = createMemorySaveStorage();
+    const local = createMemorySaveStorage();
+    await primary.save('farm', 'new');
+    await local.save('farm', 'old');
+    expect(await withMigration(primary, [local]).load('farm')).toBe('new');
+  });
+
+  it('ошибка основного хранилища пробрасывается и старая копия в него не пишется', async () => {
+    const primary = failingStorage();
+    const local = createMemorySaveStorage();
+    await local.save('farm', 'old');
+    await expect(withMigration(primary, [local]).load('farm')).rejects.toThrow('timeout');
+    expect(primary.saved).toEqual([]);
+  });
+});
+
+// CloudStorage в памяти: как у Telegram, отсутствующий ключ — пустая строка, одинокая половинка суррогатной пары не хранится
+function fakeCloudStorage(): TelegramCloudStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    setItem(key, value, callback) {
+      if (value.length > 4096) return callback?.('VALUE_TOO_LONG');
+      if (!value.isWellFormed()) return callback?.('VALUE_INVALID');
+      items.set(key, value);
+      callback?.(null, true);
+    },
+    getItem(key, callback) {
+      callback(null, items.get(key) ?? '');
+    },
+    getItems(keys, callback) {
+      callback(null, Object.fromEntries(keys.map((key) => [key, items.get(key) ?? ''])));
+    },
+    removeItems(keys, callback) {
+      keys.forEach((key) => items.delete(key));
+      callback?.(null, true);
+    }
+  };
+}
+
+describe('createCloudSaveStorage', () => {
+  it('эмодзи на границе куска не разрезается', async () => {
+    const cloud = fakeCloudStorage();
+    const storage = createCloudSaveStorage(cloud);
+    const value = `${'x'.repeat(3999)}🐮${'y'.repeat(5000)}`;
+    await storage.save('farm', value);
+    expect(cloud.items.get('farm')).toBe('a:3');
+    expect(await storage.load('farm')).toBe(value);
+  });
+});
@@ -0,0 +1,235 @@
+import { getAuthHeaders } from './api';
+import type { TelegramCloudStorage, TelegramWebApp } from './telegram';
+
+// Где лежит локальная копия фермы (режим без backend, а с backend — кэш до ответа сервера).
+// Варианты: localStorage WebView (Telegram его нередко чистит), Telegram CloudStorage (привязан к аккаунту
+// и переезжает между устройствами) и HTTP key-value (VITE_STORAGE_URL). selectSaveStorage выбирает лучший
+// доступный и переносит в него сохранения из остальных.
+
+/** Хранилище строк по ключу. Все методы асинхронные; ошибки хранилища не должны ломать игру. */
+export interface SaveStorage {
+  readonly kind: 'memory' | 'local' | 'cloud' | 'http';
+  load(key: string): Promise<string | null>;
+  save(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export function createMemorySaveStorage(): SaveStorage {
+  const items = new Map<string, string>();
+  return {
+    kind: 'memory',
+    async load(key) {
+      return items.get(key) ?? null;
+    },
+    async save(key, value) {
+      items.set(key, value);
+    },
+    async remove(key) {
+      items.delete(key);
+    }
+  };
+}
+
+export function createLocalSaveStorage(storage: Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>): SaveStorage {
+  return {
+    kind: 'local',
+    async load(key) {
+      return storage.getItem(key);
+    },
+    async save(key, value) {
+      storage.setItem(key, value);
+    },
+    async remove(key) {
+      storage.removeItem(key);
+    }
+  };
+}
+
+// Ограничения CloudStorage: значение до 4096 символов, ключ — [A-Za-z0-9_-] до 128 символов, до 1024 ключей.
+const CLOUD_CHUNK_SIZE = 4000;
+const CLOUD_MAX_CHUNKS = 64;
+
+function cloudCall<T>(run: (callback: (error: string | null, result?: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    run((error, result) => (error ? reject(new Error(`CloudStorage: ${error}`)) : resolve(result as T)));
+  });
+}
+
+// Куски по CLOUD_CHUNK_SIZE UTF-16 единиц, но без разрыва суррогатной пары: половинка эмодзи (например, в нике)
+// не пережила бы запись в CloudStorage, и склеенное сохранение перестало бы разбираться.
+function splitCloudChunks(value: string): string[] {
+  const chunks: string[] = [];
+  for (let start = 0; start < value.length; ) {
+    let end = Math.min(start + CLOUD_CHUNK_SIZE, value.length);
+    const last = value.charCodeAt(end - 1);
+    if (end < value.length && last >= 0xd800 && last <= 0xdbff) end -= 1;
+    chunks.push(value.slice(start, end));
+    start = end;
+  }
+  return chunks.length > 0 ? chunks : [''];
+}
+
+/**
+ * Telegram CloudStorage. Длинное значение режется на куски: в ключе лежит манифест «поколение:число кусков»,
+ * куски — в key__<поколение><номер>. Новое поколение пишется целиком до смены манифеста, поэтому
+ * оборванная запись оставляет прежнее сохранение читаемым.
+ */
+export function createCloudSaveStorage(cloud: TelegramCloudStorage): SaveStorage {
+  const chunkKey = (key: string, generation: string, index: number) => `${key}__${generation}${index}`;
+  const readManifest = async (key: string) => {
+    const manifest = await cloudCall<string>((cb) => cloud.getItem(key, cb));
+    const match = /^([ab]):(\d+)$/.exec(manifest ?? '');
+    return match ? { generation: match[1], count: Number(match[2]) } : null;
+  };
+  const chunkKeys = (key: string, generation: string, count: number) =>
+    Array.from({ length: count }, (_, i) => chunkKey(key, generation, i));
+
+  return {
+    kind: 'cloud',
+    async load(key) {
+      const manifest = await readManifest(key);
+      if (!manifest) return null;
+      const keys = chunkKeys(key, manifest.generation, manifest.count);
+      const values = await cloudCall<Record<string, string>>((cb) => cloud.getItems(keys, cb));
+      if (keys.some((k) => typeof values[k] !== 'string')) throw new Error('CloudStorage: сохранение неполное');
+      return keys.map((k) => values[k]).join('');
+    },
+    async save(key, value) {
+      const chunks = splitCloudChunks(value);
+      if (chunks.length > CLOUD_MAX_CHUNKS) throw new Error('CloudStorage: сохранение слишком большое');
+      const previous = await readManifest(key);
+      const generation = previous?.generation === 'a' ? 'b' : 'a';
+      await Promise.all(chunks.map((chunk, i) => cloudCall<boolean>((cb) => cloud.setItem(chunkKey(key, generation, i), chunk, cb))));
+      await cloudCall<boolean>((cb) => cloud.setItem(key, `${generation}:${chunks.length}`, cb));
+      if (previous) await cloudCall<boolean>((cb) => cloud.removeItems(chunkKeys(key, previous.generation, previous.count), cb));
+    },
+    async remove(key) {
+      const manifest = await readManifest(key);
+      const keys = manifest ? chunkKeys(key, manifest.generation, manifest.count) : [];
+      await cloudCall<boolean>((cb) => cloud.removeItems([key, ...keys], cb));
+    }
+  };
+}
+
+/**
+ * HTTP key-value: GET <url>?key=… отдаёт { value } (null — нет), POST <url> { key, value } сохраняет
+ * (value: null — удалить). Игрока определяет сервер по initData — как у остального API.
+ */
+export function createHttpSaveStorage(url: string): SaveStorage {
+  const post = async (key: string, value: string | null) => {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: getAuthHeaders({ 'Content-Type': 'application/json' }),
+      credentials: 'include',
+      body: JSON.stringify({ key, value })
+    });
+    if (!res.ok) throw new Error(`HTTP storage: ${res.status}`);
+  };
+  return {
+    kind: 'http',
+    async load(key) {
+      const res = await fetch(`${url}?key=${encodeURIComponent(key)}`, { headers: getAuthHeaders(), credentials: 'include' });
+      if (!res.ok) throw new Error(`HTTP storage: ${res.status}`);
+      const data = (await res.json()) as { value?: unknown };
+      return typeof data.value === 'string' ? data.value : null;
+    },
+    save: post,
+    async remove(key) {
+      await post(key, null);
+    }
+  };
+}
+
+/**
+ * Сетевые хранилища медленные, а сессия пишет на каждое действие: пишем не больше одного запроса на ключ
+ * одновременно, промежуточные значения пропускаем — уходит последнее.
+ */
+export function coalesceWrites(storage: SaveStorage): SaveStorage {
+  const latest = new Map<string, string>();
+  const inFlight = new Map<string, Promise<void>>();
+
+  const drain = (key: string): Promise<void> => {
+    const value = latest.get(key);
+    if (value === undefined) {
+      inFlight.delete(key);
+      return Promise.resolve();
+    }
+    latest.delete(key);
+    const write = storage
+      .save(key, value)
+      .catch(() => {
+        // сеть или квота — следующее изменение попробует снова
+      })
+      .then(() => drain(key));
+    inFlight.set(key, write);
+    return write;
+  };
+
+  return {
+    kind: storage.kind,
+    async load(key) {
+      const pending = latest.get(key);
+      return pending !== undefined ? pending : storage.load(key);
+    },
+    save(key, value) {
+      latest.set(key, value);
+      return inFlight.get(key) ?? drain(key);
+    },
+    async remove(key) {
+      latest.delete(key);
+      await inFlight.get(key);
+      await storage.remove(key);
+    }
+  };
+}
+
+/**
+ * Основное хранилище плюс прежние: чего нет в основном, ищется в прежних и переносится в основное.
+ * Прежние копии не удаляются — при откате на старый клиент прогресс не пропадёт.
+ * Переносим только когда основное ответило «нет такого ключа»: ошибка чтения пробрасывается, иначе старая
+ * копия из localStorage записалась бы поверх более нового сохранения в недоступном сейчас облаке.
+ */
+export function withMigration(primary: SaveStorage, previous: SaveStorage[]): SaveStorage {
+  return {
+    kind: primary.kind,
+    async load(key) {
+      const value = await primary.load(key);
+      if (value !== null) return value;
+      for (const storage of previous) {
+        const found = await storage.load(key).catch(() => null);
+        if (found === null) continue;
+        await primary.save(key, found).catch(() => {});
+        return found;
+      }
+      return null;
+    },
+    save: (key, value) => primary.save(key, value),
+    remove: (key) => primary.remove(key)
+  };
+}
+
+function getLocalStorage(): Storage | null {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Выбор хранилища: HTTP (если задан VITE_STORAGE_URL), затем Telegram CloudStorage (Bot API 6.9+), затем
+ * localStorage, в крайнем случае память. Сохранения из менее надёжных хранилищ переносятся в выбранное.
+ */
+export function selectSaveStorage(
+  telegram: TelegramWebApp | null,
+  storageUrl: string = import.meta.env.VITE_STORAGE_URL || ''
+): SaveStorage {
+  const local = getLocalStorage();
+  const candidates: SaveStorage[] = [];
+  if (storageUrl) candidates.push(coalesceWrites(createHttpSaveStorage(storageUrl)));
+  if (telegram?.CloudStorage && telegram.isVersionAtLeast?.('6.9')) candidates.push(coalesceWrites(createCloudSaveStorage(telegram.CloudStorage)));
+  if (local) candidates.push(createLocalSaveStorage(local));
+  if (candidates.length === 0) return createMemorySaveStorage();
+  const [primary, ...previous] = candidates;
+  return withMigration(primary, previous);
+}
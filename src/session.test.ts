@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import type { GameState } from './gameTypes';
+import { createInitialState } from './initialState';
+import { applyFarmActions, type FarmActionEnvelope } from './actions';
+import type { FarmActionResponse, MeResponse } from './api';
+import { createMemoryOutboxStorage, createOutbox } from './outbox';
+import { createGameSession, type SessionEvent, type SessionTransport } from './session';
+import { createMemorySaveStorage, type SaveStorage } from './saveStorage';
+
+// Синхронизация сессии с поддельным сервером — без React и без сети
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+function toMe(state: GameState): MeResponse {
+  return { id: 'u1', ...state };
+}
+
+/** Сервер в памяти: пока online === false, все запросы падают. */
+function createFakeServer(initial: GameState = createInitialState()) {
+  const server = { state: initial, online: true, loads: 0 };
+  const transport: SessionTransport = {
+    async loadState() {
+      server.loads += 1;
+      if (!server.online) throw new Error('offline');
+      return toMe(server.state);
+    },
+    async postActions(_userId: string, actions: FarmActionEnvelope[]): Promise<FarmActionResponse | null> {
+      if (!server.online) return null;
+      const { state, results } = applyFarmActions(server.state, actions, NOW);
+      server.state = { ...state, revision: (server.state.revision ?? 0) + results.filter((r) => r.ok).length };
+      return { state: server.state, results };
+    },
+    sendBeacon() {}
+  };
+  return { server, transport };
+}
+
+function createSession(transport: SessionTransport, outbox = createOutbox('u1', createMemoryOutboxStorage())) {
+  return createGameSession({ userId: 'u1', transport, outbox, storage: null, now: () => NOW });
+}
+
+describe('createGameSession', () => {
+  it('до загрузки состояния сервера действия не принимаются', async () => {
+    const { server, transport } = createFakeServer();
+    server.online = false;
+    const session = createSession(transport);
+    await session.start();
+
+    expect(session.isReady()).toBe(false);
+    expect(session.dispatch({ type: 'plantCrop', slotId: 'c1' })).toBe(false);
+    expect(session.outbox.entries()).toHaveLength(0);
+
+    server.online = true;
+    await session.sync();
+    expect(session.isReady()).toBe(true);
+    expect(session.dispatch({ type: 'plantCrop', slotId: 'c1' })).toBe(true);
+    session.dispose();
+  });
+
+  it('берёт ферму сервера, а не стартовую заглушку', async () => {
+    const farm = createInitialState();
+    const { transport } = createFakeServer({ ...farm, revision: 12, resources: { ...farm.resources, coins: 777 } });
+    const session = createSession(transport);
+    await session.start();
+    expect(session.getState().resources.coins).toBe(777);
+    session.dispose();
+  });
+
+  it('действия прошлого запуска переприменяются к ферме сервера и отправляются', async () => {
+    const storage = createMemoryOutboxStorage();
+    createOutbox('u1', storage).push({ type: 'plantCrop', slotId: 'c1' }, NOW);
+    await Promise.resolve();
+
+    const { server, transport } = createFakeServer();
+    const session = createSession(transport, createOutbox('u1', storage));
+    await session.start();
+    expect(session.getState().crops[0].timer).not.toBeNull();
+
+    await session.flush();
+    expect(session.outbox.entries()).toHaveLength(0);
+    expect(server.state.crops[0].timer).not.toBeNull();
+    expect(server.state.resources.coins).toBe(95);
+    session.dispose();
+  });
+
+  it('неотправленное действие остаётся в очереди и уходит после восстановления сети', async () => {
+    const { server, transport } = createFakeServer();
+    const session = createSession(transport);
+    await session.start();
+    server.online = false;
+    session.dispatch({ type: 'plantCrop', slotId: 'c1' });
+    await session.flush();
+    expect(session.outbox.getStatus()).toMatchObject({ pending: 1, failures: 1 });
+
+    server.online = true;
+    await session.flush();
+    expect(session.outbox.getStatus()).toMatchObject({ pending: 0, failures: 0 });
+    expect(server.state.resources.coins).toBe(95);
+    session.dispose();
+  });
+});
+
+describe('createGameSession без сервера', () => {
+  it('если сохранение не прочиталось, игра идёт без записи в хранилище', async () => {
+    const saved: string[] = [];
+    const storage: SaveStorage = {
+      kind: 'cloud',
+      load: (key) => (key.includes('state') ? Promise.reject(new Error('CloudStorage: timeout')) : Promise.resolve(null)),
+      async save(key) {
+        saved.push(key);
+      },
+      async remove() {}
+    };
+    const outbox = createOutbox('u1', createMemoryOutboxStorage());
+    const session = createGameSession({ userId: 'u1', transport: null, outbox, storage, now: () => NOW });
+    const events: SessionEvent['type'][] = [];
+    session.onEvent((event) => events.push(event.type));
+    await session.start();
+
+    expect(events).toContain('storageUnavailable');
+    expect(session.dispatch({ type: 'plantCrop', slotId: 'c1' })).toBe(true);
+    expect(saved.filter((key) => key.includes('state'))).toEqual([]);
+    session.dispose();
+  });
+
+  it('нечитаемое сохранение откладывается, а игрок получает событие вместо лога', async () => {
+    const storage = createMemorySaveStorage();
+    await storage.save('farm-miniapp-state-v1-u1', JSON.stringify({ ...createInitialState(), level: 0 }));
+    const outbox = createOutbox('u1', createMemoryOutboxStorage());
+    const session = createGameSession({ userId: 'u1', transport: null, outbox, storage, now: () => NOW });
+    const events: SessionEvent[] = [];
+    session.onEvent((event) => events.push(event));
+    await session.start();
+
+    expect(events).toContainEqual({ type: 'saveRejected', problems: ['level: ожидалось не меньше 1, получено 0'] });
+    expect(await storage.load('farm-miniapp-state-v1-u1-broken')).not.toBeNull();
+    expect(session.getState().level).toBe(1);
+    session.dispose();
+  });
+});
@@ -0,0 +1,460 @@
+import type { GameState } from './gameTypes';
+import { createInitialState } from './initialState';
+import { ensureExtendedState } from './gameLogic';
+import { migrateSave, SaveFormatError } from './saveFormat';
+import { applyFarmAction, rebaseActions, type FarmAction, type FarmActionEnvelope } from './actions';
+import { getBackoffDelay, type Outbox } from './outbox';
+import { createLocalSaveStorage, type SaveStorage } from './saveStorage';
+import {
+  applyAutoCollect,
+  computeOfflineProgress,
+  getAutoCollectActions,
+  shouldShowOfflineSummary,
+  type OfflineSummary
+} from './offlineProgress';
+import { getFarmActionUrl, getMe, postFarmActions, type FarmActionResponse, type MeResponse } from './api';
+import { getTelegramInitData } from './telegram';
+
+// Игровая сессия: состояние фермы, применение действий, сохранение и синхронизация с сервером.
+// Модуль не зависит от React — компоненты читают состояние через хуки из useGameSession.ts,
+// а сеть и хранилище подставляются снаружи, поэтому движок синхронизации можно гонять без рендера.
+
+/** Как сессия общается с backend. По умолчанию — httpTransport поверх src/api.ts. */
+export interface SessionTransport {
+  loadState(userId: string): Promise<MeResponse | null>;
+  postActions(
+    userId: string,
+    actions: FarmActionEnvelope[],
+    baseRevision: number,
+    username?: string | null
+  ): Promise<FarmActionResponse | null>;
+  /** Отправка при закрытии страницы: ответ никто не прочитает */
+  sendBeacon(body: Record<string, unknown>): void;
+}
+
+export const httpTransport: SessionTransport = {
+  loadState: getMe,
+  postActions: postFarmActions,
+  sendBeacon(body) {
+    // sendBeacon не умеет заголовки — подписанный initData едет в теле
+    const payload = JSON.stringify({ ...body, initData: getTelegramInitData() || undefined });
+    navigator.sendBeacon(getFarmActionUrl(), new Blob([payload], { type: 'application/json' }));
+  }
+};
+
+export type SessionEvent =
+  /** Действие игрока применено локально */
+  | { type: 'action'; action: FarmAction; before: GameState; after: GameState }
+  | { type: 'levelUp'; level: number }
+  | { type: 'offlineProgress'; summary: OfflineSummary }
+  /** Ферму изменили на другом устройстве; dropped — сколько своих действий стало невозможно */
+  | { type: 'merged'; dropped: number }
+  /** Хранилище не отдало сохранение (сеть, CloudStorage): игра идёт без записи, чтобы не затереть его */
+  | { type: 'storageUnavailable' }
+  /** Сохранение не прочиталось: оно отложено под ключом …-broken, игра начата заново */
+  | { type: 'saveRejected'; problems: string[] };
+
+export interface GameSessionOptions {
+  userId: string;
+  username?: string;
+  /** null — backend не подключён, прогресс хранится только локально */
+  transport: SessionTransport | null;
+  outbox: Outbox;
+  /** Где лежит локальная копия состояния (см. selectSaveStorage); по умолчанию localStorage */
+  storage?: SaveStorage | null;
+  now?: () => number;
+}
+
+export interface GameSession {
+  readonly userId: string;
+  readonly outbox: Outbox;
+  getState(): GameState;
+  /** Есть ли на что опираться: с backend — загружено состояние сервера, без него — локальное сохранение */
+  isReady(): boolean;
+  /** Подписка на смену состояния (сигнатура под useSyncExternalStore) */
+  subscribe(listener: () => void): () => void;
+  onEvent(listener: (event: SessionEvent) => void): () => void;
+  /** Применить действие игрока; false — действие невозможно и никуда не отправлено */
+  dispatch(action: FarmAction): boolean;
+  /** Изменение, которое уже сделал сервер (ежедневная награда и т.п.) — без действия в очереди */
+  patchState(update: (state: GameState) => GameState): void;
+  /** Загрузить сохранённое состояние (один раз) и подписаться на события страницы; после dispose — подписаться снова. */
+  start(): Promise<void>;
+  /** Подтянуть состояние сервера, если нет неподтверждённых изменений */
+  sync(): Promise<void>;
+  /** Сначала отправить очередь, затем загрузить состояние сервера (после оплаты, на вкладке «Магазин») */
+  refresh(): Promise<void>;
+  flush(): Promise<void>;
+  flushBeacon(): void;
+  dispose(): void;
+}
+
+const stateStorageKey = (userId: string) => `farm-miniapp-state-v1-${userId}`;
+// Момент, когда мини-апп последний раз был открыт — от него считаем офлайн-прогресс.
+const lastSeenStorageKey = (userId: string) => `farm-miniapp-last-seen-v1-${userId}`;
+
+function getDefaultStorage(): SaveStorage | null {
+  try {
+    return typeof window !== 'undefined' ? createLocalSaveStorage(window.localStorage) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Ответ GET /api/me → состояние фермы. Отсутствующие поля берутся из стартового состояния. */
+export function stateFromMeResponse(data: MeResponse): GameState {
+  const base = createInitialState();
+  return ensureExtendedState({
+    ...base,
+    level: data.level,
+    xp: typeof data.xp === 'number' ? data.xp : base.xp,
+    resources: data.resources != null ? data.resources : base.resources,
+    crops: Array.isArray(data.crops) ? data.crops : base.crops,
+    seeds: data.seeds ?? base.seeds,
+    unlockedCrops: Array.isArray(data.unlockedCrops) ? data.unlockedCrops : base.unlockedCrops,
+    animals: Array.isArray(data.animals) ? data.animals : base.animals,
+    buildings: Array.isArray(data.buildings) ? data.buildings : base.buildings,
+    revision: typeof data.revision === 'number' ? data.revision : base.revision,
+    referrerId: data.referrerId ?? undefined,
+    referrerUsername: data.referrerUsername ?? undefined,
+    sellReserve: data.sellReserve ?? undefined,
+    marketPressure: data.marketPressure ?? undefined,
+    perks: data.perks ?? undefined,
+    utcOffsetMinutes: typeof data.utcOffsetMinutes === 'number' ? data.utcOffsetMinutes : undefined,
+    utcOffsetChangedAt: typeof data.utcOffsetChangedAt === 'number' ? data.utcOffsetChangedAt : undefined,
+    weeklyGoals: data.weeklyGoals ?? undefined,
+    dailyQuests: data.dailyQuests ?? undefined,
+    stats: data.stats ?? undefined,
+    achievements: data.achievements ?? undefined
+  });
+}
+
+/** Сколько раз подряд переотправлять пачку после конфликта ревизий */
+const MAX_CONFLICT_RETRIES = 3;
+/** Быстрые клики собираются в одну пачку */
+const FLUSH_DEBOUNCE_MS = 50;
+
+export function createGameSession({
+  userId,
+  username,
+  transport,
+  outbox,
+  storage = getDefaultStorage(),
+  now = Date.now
+}: GameSessionOptions): GameSession {
+  let state = createInitialState();
+  // Есть неподтверждённые изменения: ставится при каждом действии, снимается, когда сервер подтвердил все действия.
+  let dirty = false;
+  let sending = false;
+  // Ревизия последнего известного состояния сервера — база, поверх которой применены действия из очереди.
+  let serverRevision = 0;
+  // Состояние сервера ещё не загружено — действия не принимаются: они легли бы на стартовую ферму-заглушку.
+  let serverLoaded = false;
+  // Первая загрузка повторяется со своей задержкой (1 с, 2 с… до минуты): очередь при этом может быть пустой.
+  let loading = false;
+  let loadFailures = 0;
+  let nextLoadAt = 0;
+  // Сохранённое состояние ещё не загружено — не затираем его стартовым.
+  let hydrated = false;
+  // Сохранение не удалось прочитать — в хранилище не пишем, иначе стартовая ферма заменит настоящую.
+  let persistent = true;
+  let hydration: Promise<void> | null = null;
+  let listening = false;
+  let offlineChecked = false;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  const cleanups: (() => void)[] = [];
+  const listeners = new Set<() => void>();
+  const eventListeners = new Set<(event: SessionEvent) => void>();
+
+  const readStorage = async (key: string): Promise<string | null> => {
+    try {
+      return (await storage?.load(key)) ?? null;
+    } catch {
+      return null;
+    }
+  };
+  const writeStorage = (key: string, value: string) => {
+    storage?.save(key, value).catch(() => {
+      // хранилище переполнено или недоступно — играем дальше без локальной копии
+    });
+  };
+
+  // Когда игрок был в игре последний раз — читается в начале hydrate, до первого сохранения.
+  let lastSeenAt: number | null = null;
+  const persistLastSeen = () => writeStorage(lastSeenStorageKey(userId), String(now()));
+
+  const setState = (next: GameState) => {
+    state = next;
+    if (hydrated && persistent) {
+      writeStorage(stateStorageKey(userId), JSON.stringify(state));
+      persistLastSeen();
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const emit = (event: SessionEvent) => {
+    eventListeners.forEach((listener) => listener(event));
+  };
+
+  // Офлайн-прогресс считаем один раз — по первому загруженному состоянию (сервер или localStorage).
+  // С перком автосбора сразу собираем созревшее и ставим сборы в очередь на сервер.
+  const takeOfflineProgress = (loaded: GameState): GameState => {
+    if (offlineChecked) return loaded;
+    offlineChecked = true;
+    const summary = computeOfflineProgress(loaded, lastSeenAt, now());
+    if (!shouldShowOfflineSummary(summary, lastSeenAt)) return loaded;
+    if (!loaded.perks?.autoCollect) {
+      emit({ type: 'offlineProgress', summary });
+      return loaded;
+    }
+    emit({ type: 'offlineProgress', summary: { ...summary, autoCollected: true } });
+    dirty = true;
+    if (transport) getAutoCollectActions(summary).forEach((action) => outbox.push(action));
+    return { ...applyAutoCollect(loaded, summary, now()), revision: (loaded.revision ?? 0) + 1 };
+  };
+
+  // Новая база с сервера: действия, ещё не подтверждённые им (в том числе из прошлого запуска), переприменяются поверх.
+  const applyServerState = (data: MeResponse) => {
+    const next = stateFromMeResponse(data);
+    serverRevision = next.revision ?? 0;
+    serverLoaded = true;
+    loadFailures = 0;
+    nextLoadAt = 0;
+    const { state: replayed, kept, dropped } = rebaseActions(next, outbox.entries(), now());
+    outbox.remove(dropped.map((e) => e.id));
+    dirty = kept.length > 0;
+    setState(takeOfflineProgress(replayed));
+  };
+
+  // ВАЖНО: при несохранённых локальных изменениях состояние не перезаписываем — свежие данные важнее.
+  // До первой загрузки в очереди лежат только действия прошлого запуска — они будут переприменены к ответу.
+  const sync = async () => {
+    if (!transport) return;
+    if (dirty && serverLoaded) return;
+    if (!serverLoaded && loading) return;
+    loading = true;
+    const data = await transport.loadState(userId).catch(() => null);
+    loading = false;
+    // Повторная проверка: пока GET шёл, игрок мог что-то сделать.
+    if (dirty && serverLoaded) return;
+    if (!data || data.level === undefined) {
+      if (serverLoaded) {
+        outbox.recordFailure();
+      } else {
+        loadFailures += 1;
+        nextLoadAt = now() + getBackoffDelay(loadFailures);
+      }
+      return;
+    }
+    try {
+      applyServerState(data);
+    } catch {
+      // не ломаем игру при некорректном ответе
+    }
+  };
+
+  // Отправка накопленных действий: одновременно идёт не больше одного запроса.
+  // Состояние из ответа сервера — новая база, поверх неё заново применяются действия, отправленные после запроса.
+  // Если сервер отклонил пачку из-за устаревшей ревизии (игра на другом устройстве), действия переприменяются
+  // к его состоянию и отправляются снова.
+  const flush = async (conflictRetries = 0): Promise<void> => {
+    if (!transport || !serverLoaded || sending) return;
+    const batch = outbox.entries();
+    if (batch.length === 0) return;
+    sending = true;
+    let retry = false;
+    try {
+      const res = await transport.postActions(userId, batch, serverRevision, username);
+      // Сеть недоступна — действия остаются в очереди, повтор с экспоненциальной задержкой.
+      if (!res?.state) {
+        outbox.recordFailure();
+        return;
+      }
+      outbox.recordSuccess();
+      const confirmed = new Set(res.conflict ? res.results.filter((r) => r.ok).map((r) => r.id) : batch.map((e) => e.id));
+      const base = ensureExtendedState(res.state);
+      serverRevision = base.revision ?? 0;
+      const { state: rebased, kept, dropped } = rebaseActions(
+        base,
+        outbox.entries().filter((e) => !confirmed.has(e.id)),
+        now()
+      );
+      outbox.remove([...confirmed, ...dropped.map((e) => e.id)]);
+      dirty = kept.length > 0;
+      setState(rebased);
+      if (res.conflict) {
+        emit({ type: 'merged', dropped: dropped.length });
+        retry = kept.length > 0 && conflictRetries < MAX_CONFLICT_RETRIES;
+      }
+    } catch {
+      outbox.recordFailure();
+    } finally {
+      sending = false;
+    }
+    if (retry) await flush(conflictRetries + 1);
+  };
+
+  // Гарантированная отправка очереди через sendBeacon (переживает закрытие страницы).
+  // Если страница не закрылась, те же действия уйдут ещё раз обычным запросом — сервер отбросит повтор по id.
+  const flushBeacon = () => {
+    const actions = outbox.entries();
+    if (!transport || actions.length === 0) return;
+    try {
+      transport.sendBeacon({ userId, actions, username: username ?? undefined });
+    } catch {
+      // не все браузеры поддерживают sendBeacon, но Telegram WebView поддерживает
+    }
+  };
+
+  const listenWindow = () => {
+    if (listening || typeof window === 'undefined') return;
+    listening = true;
+    // При уходе со страницы / закрытии мини-аппа запоминаем время и отправляем очередь.
+    const onUnload = () => {
+      persistLastSeen();
+      flushBeacon();
+    };
+    const onVisibility = () => {
+      if (document.visibilityState === 'hidden') onUnload();
+    };
+    window.addEventListener('pagehide', onUnload);
+    window.addEventListener('beforeunload', onUnload);
+    document.addEventListener('visibilitychange', onVisibility);
+    cleanups.push(() => {
+      window.removeEventListener('pagehide', onUnload);
+      window.removeEventListener('beforeunload', onUnload);
+      document.removeEventListener('visibilitychange', onVisibility);
+    });
+
+    if (!transport) return;
+    // Повтор отправки: раз в секунду проверяем, подошло ли время следующей попытки (1 с, 2 с, 4 с… до минуты).
+    // Если при запуске сервер был недоступен, сначала повторяем загрузку состояния. При появлении сети — сразу.
+    const retry = () => (serverLoaded ? flush() : sync());
+    const retryTimer = setInterval(() => {
+      if (serverLoaded ? outbox.isRetryDue() : now() >= nextLoadAt) retry();
+    }, 1000);
+    const onOnline = () => {
+      outbox.resetBackoff();
+      nextLoadAt = 0;
+      retry();
+    };
+    window.addEventListener('online', onOnline);
+    cleanups.push(() => {
+      clearInterval(retryTimer);
+      window.removeEventListener('online', onOnline);
+    });
+  };
+
+  // При наличии сервера всегда берём состояние с него; локальная копия — запасной вариант без backend.
+  const hydrate = async () => {
+    const lastSeenRaw = await readStorage(lastSeenStorageKey(userId));
+    lastSeenAt = lastSeenRaw && Number.isFinite(Number(lastSeenRaw)) ? Number(lastSeenRaw) : null;
+    if (transport) {
+      hydrated = true;
+      // Сначала поднимаем неотправленные действия прошлого запуска — sync переприменит их к серверу
+      await outbox.restore().catch(() => []);
+      await sync();
+      return;
+    }
+    try {
+      let raw: string | null = null;
+      try {
+        raw = (await storage?.load(stateStorageKey(userId))) ?? null;
+      } catch {
+        persistent = false;
+        emit({ type: 'storageUnavailable' });
+      }
+      if (raw) {
+        try {
+          const loaded = takeOfflineProgress(migrateSave(JSON.parse(raw)));
+          hydrated = true;
+          setState(loaded);
+        } catch (error) {
+          // Копию, которую не удалось прочитать, откладываем рядом, чтобы её можно было разобрать вручную
+          writeStorage(`${stateStorageKey(userId)}-broken`, raw);
+          const problems = error instanceof SaveFormatError ? error.problems : [error instanceof Error ? error.message : String(error)];
+          emit({ type: 'saveRejected', problems });
+        }
+      }
+    } finally {
+      hydrated = true;
+      // Сохранения могло не быть — подписчики всё равно узнают, что сессия готова (isReady)
+      listeners.forEach((listener) => listener());
+    }
+  };
+
+  return {
+    userId,
+    outbox,
+
+    getState: () => state,
+
+    isReady: () => (transport ? serverLoaded : hydrated),
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onEvent(listener) {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+
+    // Действие применяем сразу (оптимистично) и ставим в очередь на сервер; отправка — с задержкой,
+    // чтобы быстрые клики ушли одной пачкой. Следующее действие в том же тике применится поверх этого.
+    dispatch(action) {
+      // До загрузки состояния сервера (или, без него, сохранения — CloudStorage отвечает не сразу)
+      // действие применилось бы к ферме-заглушке и затёрло бы настоящую
+      if (transport ? !serverLoaded : !hydrated) return false;
+      const current = state;
+      const updated = applyFarmAction(current, action, now());
+      if (updated === current) return false;
+      const next: GameState = { ...updated, revision: (current.revision ?? 0) + 1 };
+      dirty = true;
+      setState(next);
+      emit({ type: 'action', action, before: current, after: next });
+      if (next.level > current.level) emit({ type: 'levelUp', level: next.level });
+      if (!transport) return true;
+      outbox.push(action);
+      if (flushTimer) clearTimeout(flushTimer);
+      flushTimer = setTimeout(() => {
+        flushTimer = null;
+        flush();
+      }, FLUSH_DEBOUNCE_MS);
+      return true;
+    },
+
+    patchState(update) {
+      setState(update(state));
+    },
+
+    start() {
+      listenWindow();
+      if (!hydration) hydration = hydrate();
+      return hydration;
+    },
+
+    sync,
+
+    async refresh() {
+      if (!transport) return;
+      if (outbox.entries().length > 0) await flush();
+      await sync();
+    },
+
+    flush: () => flush(),
+
+    flushBeacon,
+
+    dispose() {
+      if (flushTimer) clearTimeout(flushTimer);
+      cleanups.splice(0).forEach((cleanup) => cleanup());
+      listening = false;
+    }
+  };
+}
@@ -0,0 +1,90 @@
+import type { FarmAction } from './actions';
+import type { AnimalSlot, CropSlot, GameState, StatKey } from './gameTypes';
+import { CROP_TYPES, getEconomy, PRODUCT_IDS } from './economy';
+import { getLevelReward } from './progression';
+
+// Счётчики игрока за всё время. Считаются в одном месте — applyFarmAction — по разнице состояний до и после
+// действия, поэтому массовые действия засчитываются так же, как одиночные, а сервер считает то же, что клиент.
+// На счётчиках строятся достижения (src/achievements.ts), недельные цели (src/weeklyGoals.ts) и задания дня (src/dailyQuests.ts).
+
+export type StatIncrements = Partial<Record<StatKey, number>>;
+
+/** Слоты, у которых таймер появился (started) или пропал (finished) за действие. */
+function changedTimers<T extends CropSlot | AnimalSlot>(before: T[], after: T[], change: 'started' | 'finished'): T[] {
+  return after.filter((slot, i) => {
+    const had = !!before[i]?.timer;
+    return change === 'started' ? !had && !!slot.timer : had && !slot.timer;
+  });
+}
+
+export function getStatIncrements(action: FarmAction, before: GameState, after: GameState): StatIncrements {
+  const increments: StatIncrements = {};
+  const add = (key: StatKey, amount: number) => {
+    if (amount > 0) increments[key] = (increments[key] ?? 0) + amount;
+  };
+
+  switch (action.type) {
+    case 'harvestCrop':
+    case 'harvestAll': {
+      add('harvests', changedTimers(before.crops, after.crops, 'finished').length);
+      const { crops } = getEconomy();
+      for (const type of CROP_TYPES) {
+        add(`harvest:${type}`, after.resources[crops[type].product] - before.resources[crops[type].product]);
+      }
+      break;
+    }
+    case 'feedAnimal':
+    case 'feedAll':
+      for (const slot of changedTimers(before.animals, after.animals, 'started')) {
+        add('feeds', 1);
+        add(`feed:${slot.type}`, 1);
+      }
+      break;
+    case 'collectAnimalProduct':
+    case 'collectAll':
+      for (const slot of changedTimers(before.animals, after.animals, 'finished')) {
+        add('collects', 1);
+        add(`collect:${slot.type}`, 1);
+      }
+      break;
+    case 'sellProduce':
+    case 'sellResources': {
+      // Опыт за продажу может дать новый уровень — его награда не выручка
+      let levelCoins = 0;
+      for (let level = before.level + 1; level <= after.level; level++) levelCoins += getLevelReward(level).coins;
+      add('coinsEarned', after.resources.coins - before.resources.coins - levelCoins);
+      for (const id of PRODUCT_IDS) add(`sold:${id}`, before.resources[id] - after.resources[id]);
+      break;
+    }
+    case 'collectProduction': {
+      const queued = (state: GameState) => (state.buildings ?? []).reduce((sum, b) => sum + b.queue.length, 0);
+      add('crafts', queued(before) - queued(after));
+      break;
+    }
+    case 'upgradeCrop':
+    case 'upgradeAnimal':
+    case 'gemUpgradeCrop':
+    case 'gemUpgradeAnimal':
+      add('upgrades', 1);
+      break;
+    case 'boostCrop':
+    case 'boostAnimal':
+      add('boosts', 1);
+      break;
+  }
+  return increments;
+}
+
+export function recordStats(state: GameState, increments: StatIncrements): GameState {
+  const keys = Object.keys(increments) as StatKey[];
+  if (keys.length === 0) return state;
+  const stats = { ...state.stats };
+  for (const key of keys) stats[key] = (stats[key] ?? 0) + (increments[key] ?? 0);
+  return { ...state, stats };
+}
+
+/** Поднять счётчик до value, если он меньше (рекорд марафона, число приглашённых с сервера). */
+export function raiseStat(state: GameState, key: StatKey, value: number): GameState {
+  if ((state.stats?.[key] ?? 0) >= value) return state;
+  return { ...state, stats: { ...state.stats, [key]: value } };
+}
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { getAvailableFeedPacks, getSellAllBasket, getSellPreview, type SellBasket } from '../gameLogic';
+import { getEconomy, PRODUCT_IDS } from '../economy';
+import { getMarketPrice, getPressurePenalty, getPriceTrend } from '../market';
+import { API_BASE, claimDailyReward, type DailyClaimResult } from '../api';
+import { MarketLine } from '../components/MarketLine';
+import { useGameSession, useGameState, useNow } from '../useGameSession';
+import { useMainButton } from '../useTelegramUi';
+
+// Вкладка «Рынок»: продажа продукции по ценам дня, корм, обмен валют и ежедневная награда.
+export const MarketTab: React.FC = () => {
+  const session = useGameSession();
+  const state = useGameState();
+  const now = useNow();
+  const economy = getEconomy();
+  const [sellBasket, setSellBasket] = useState<SellBasket>({});
+  const [dailyMessage, setDailyMessage] = useState<string | null>(null);
+  const [dailyInfo, setDailyInfo] = useState<DailyClaimResult | null>(null);
+
+  const availableFeedPacks = getAvailableFeedPacks(state);
+  const sellPreview = getSellPreview(state, sellBasket, now);
+  const marketProducts = PRODUCT_IDS.filter((id) => (state.resources[id] ?? 0) > 0 || (sellBasket[id] ?? 0) > 0);
+
+  const handleSell = () => {
+    session.dispatch({ type: 'sellProduce' });
+    setSellBasket({});
+  };
+
+  const handleSellBasket = () => {
+    session.dispatch({ type: 'sellResources', basket: sellBasket });
+    setSellBasket({});
+  };
+
+  // MainButton продаёт выбранное, а если ничего не выбрано — весь склад сверх резерва
+  const sellAllTotal = getSellPreview(state, getSellAllBasket(state), now).total;
+  useMainButton(
+    sellPreview.total > 0
+      ? { text: `Продать выбранное за ${sellPreview.total.toLocaleString('ru-RU')} 🪙`, onClick: handleSellBasket }
+      : sellAllTotal > 0
+        ? { text: `Продать всё за ${sellAllTotal.toLocaleString('ru-RU')} 🪙`, onClick: handleSell }
+        : null
+  );
+
+  const handleDailyClaim = async () => {
+    if (!API_BASE) {
+      setDailyMessage('Подключи backend (VITE_API_URL) для ежедневной награды.');
+      return;
+    }
+    const result = await claimDailyReward(session.userId);
+    if (!result) {
+      setDailyMessage('Ошибка запроса.');
+      return;
+    }
+    setDailyInfo(result);
+    if (result.claimed && result.reward && result.resources) {
+      const parts = [];
+      if (result.reward.coins) parts.push(`${result.reward.coins} монет`);
+      if (result.reward.gems) parts.push(`${result.reward.gems} гемов`);
+      if (result.reward.feed) parts.push(`${result.reward.feed} корма`);
+      setDailyMessage(`Награда: ${parts.join(', ')}. Марафон: день ${result.streak ?? 1} из 5.`);
+      // Награду начислил сервер — берём его баланс как есть, без отправки действия.
+      const resources = result.resources;
+      session.patchState((prev) => ({ ...prev, resources: { ...prev.resources, ...resources } }));
+    } else if (!result.claimed) {
+      const next = result.nextAt
+        ? new Date(result.nextAt).toLocaleTimeString('ru-RU', { hour: '2-digit', minute: '2-digit' })
+        : '';
+      setDailyMessage(`Уже забрал сегодня. Следующая награда после ${next}`);
+    }
+  };
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">Рынок и лавка</div>
+        <div className="section-caption">
+          Продавай продукцию и покупай корм, забирай ежедневные бонусы.
+        </div>
+      </div>
+      <div className="price-board">
+        <div style={{ gridColumn: '1 / -1', fontSize: 11, color: 'var(--app-hint)' }}>
+          Цены сегодня (к вчерашним):
+        </div>
+        {PRODUCT_IDS.map((id) => {
+          const { today, yesterday, trend } = getPriceTrend(id, now);
+          const penalty = getPressurePenalty(state, id, now);
+          return (
+            <div key={id} className="price-cell" title={`Вчера: ${yesterday} 🪙`}>
+              <span>{economy.products[id].icon}</span>
+              <strong>{getMarketPrice(state, id, now)}</strong>
+              <span className={`price-trend ${trend}`}>
+                {trend === 'up' ? '▲' : trend === 'down' ? '▼' : '•'}
+              </span>
+              {penalty > 0.01 && (
+                <span style={{ fontSize: 9, color: 'var(--app-destructive)' }} title={`Цена дня ${today} 🪙, скидка за недавние продажи`}>
+                  −{Math.round(penalty * 100)}%
+                </span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 8 }}>
+        {marketProducts.length === 0 && (
+          <div style={{ fontSize: 12, color: 'var(--app-hint)' }}>Склад пуст — собери урожай или продукцию.</div>
+        )}
+        {marketProducts.map((id) => (
+          <MarketLine
+            key={id}
+            id={id}
+            have={state.resources[id] ?? 0}
+            reserve={state.sellReserve?.[id] ?? 0}
+            price={getMarketPrice(state, id, now)}
+            selected={sellPreview.lines.find((l) => l.id === id)?.amount ?? 0}
+            income={sellPreview.lines.find((l) => l.id === id)?.income ?? 0}
+            onSelect={(amount) => setSellBasket((b) => ({ ...b, [id]: amount }))}
+            onReserveChange={(amount) => session.dispatch({ type: 'setSellReserve', product: id, amount })}
+          />
+        ))}
+      </div>
+      {sellPreview.total > 0 && (
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={handleSellBasket}
+          style={{ marginBottom: 6 }}
+        >
+          Продать выбранное за {sellPreview.total.toLocaleString('ru-RU')} 🪙
+        </button>
+      )}
+      {API_BASE && (
+        <>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={handleDailyClaim}
+            style={{ marginBottom: 6 }}
+          >
+            🎁 Забрать ежедневную награду
+          </button>
+          {dailyMessage && (
+            <div style={{ fontSize: 11, color: 'var(--app-hint)', marginBottom: 4 }}>{dailyMessage}</div>
+          )}
+          {dailyInfo?.streak && (
+            <div style={{ fontSize: 10, color: '#6b7280', marginBottom: 6 }}>
+              Марафон: день {dailyInfo.streak} из 5 (день 1: 20🪙+5🥣, 2: 30+5, 3: 40+5, 4: 50+5, 5: 100💎+20🥣)
+            </div>
+          )}
+        </>
+      )}
+      <button
+        type="button"
+        className="btn btn-primary"
+        onClick={handleSell}
+      >
+        Продать всё (кроме резерва)
+      </button>
+      {economy.feedPacks.map((pack) => {
+        const available = availableFeedPacks.some((p) => p.id === pack.id);
+        return (
+          <button
+            key={pack.id}
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => session.dispatch({ type: 'buyFeed', packId: pack.id })}
+            style={{ marginTop: 6, opacity: available ? 1 : 0.5 }}
+            disabled={!available}
+          >
+            {available
+              ? `Купить корм (${pack.amount} шт. за ${pack.cost} монет)`
+              : `🔒 Корм ${pack.amount} шт. — с ур. ${pack.minLevel} фермы`}
+          </button>
+        );
+      })}
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() => session.dispatch({ type: 'exchangeGemsToCoins' })}
+        style={{ marginTop: 6 }}
+        disabled={(state.resources.gems ?? 0) < economy.exchange.gemsToCoins.gems}
+      >
+        Обменять {economy.exchange.gemsToCoins.gems} 💎 на {economy.exchange.gemsToCoins.coins} 🪙
+      </button>
+      <button
+        type="button"
+        className="btn btn-secondary"
+        onClick={() => session.dispatch({ type: 'exchangeCoinsToGems' })}
+        style={{ marginTop: 6 }}
+        disabled={(state.resources.coins ?? 0) < economy.exchange.coinsToGems.coins}
+      >
+        Обменять {economy.exchange.coinsToGems.coins.toLocaleString('ru-RU')} 🪙 на {economy.exchange.coinsToGems.gems.toLocaleString('ru-RU')} 💎
+      </button>
+      {/* Тестовые подписи больше не показываем — на рынке уже финальная логика */}
+    </>
+  );
+};
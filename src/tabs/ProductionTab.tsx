@@ -0,0 +1,114 @@
+import React from 'react';
+import { getTimerProgress, isTimerReady } from '../gameLogic';
+import { getEconomy, getGoodsInfo, type GoodsId } from '../economy';
+import { canStartRecipe, canUnlockBuilding, getBuildingRecipes, getReadyJobs } from '../production';
+import { formatTimer, getRemainingMs } from '../format';
+import { useGameSession, useGameState, useNow } from '../useGameSession';
+
+// Вкладка «Цех»: здания переработки, их рецепты и очереди.
+export const ProductionTab: React.FC = () => {
+  const session = useGameSession();
+  const state = useGameState();
+  const now = useNow();
+  const economy = getEconomy();
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">Цех</div>
+        <div className="section-caption">
+          Перерабатывай сырьё в товары подороже
+        </div>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+        {(state.buildings ?? []).map((building) => {
+          const config = economy.buildings[building.type];
+          if (!building.unlocked) {
+            const levelOk = state.level >= config.unlockLevel;
+            return (
+              <div key={building.id} className="tile building" style={{ opacity: 0.7 }}>
+                <div className="tile-header">
+                  <span className="tile-name">{config.icon} {config.title}</span>
+                  <span className="tile-level">🔒</span>
+                </div>
+                <div style={{ fontSize: 10, color: 'var(--app-hint)' }}>
+                  {levelOk ? 'Можно построить' : `Откроется на ур. ${config.unlockLevel} фермы`}
+                </div>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => session.dispatch({ type: 'unlockBuilding', buildingId: building.id })}
+                  disabled={!canUnlockBuilding(state, building)}
+                  style={{ fontSize: 10 }}
+                >
+                  Построить за {config.unlockCoins} 🪙
+                </button>
+              </div>
+            );
+          }
+          const readyCount = getReadyJobs(building, now).length;
+          return (
+            <div key={building.id} className="tile building">
+              <div className="tile-header">
+                <span className="tile-name">{config.icon} {config.title}</span>
+                <span className="tile-level">Очередь {building.queue.length}/{config.queueSize}</span>
+              </div>
+              {getBuildingRecipes(building).map(([recipeId, recipe]) => {
+                const inputs = (Object.keys(recipe.inputs) as GoodsId[])
+                  .map((id) => `${getGoodsInfo(id).icon}×${recipe.inputs[id]}`)
+                  .join(' + ');
+                const output = getGoodsInfo(recipe.output.resource);
+                const locked = state.level < recipe.minLevel;
+                return (
+                  <div key={recipeId} className="recipe-row">
+                    <div>
+                      <div>{inputs} → {output.icon}×{recipe.output.amount}</div>
+                      <div style={{ fontSize: 10, color: 'var(--app-hint)' }}>
+                        {locked ? `С ур. ${recipe.minLevel} фермы` : `${recipe.title} · ${formatTimer(recipe.durationMinutes * 60 * 1000)}`}
+                      </div>
+                    </div>
+                    <button
+                      type="button"
+                      className="btn btn-secondary"
+                      onClick={() => session.dispatch({ type: 'startRecipe', buildingId: building.id, recipeId })}
+                      disabled={!canStartRecipe(state, building, recipeId)}
+                      style={{ width: 'auto', padding: '6px 10px', fontSize: 10, marginTop: 0 }}
+                    >
+                      {locked ? '🔒' : 'Запустить'}
+                    </button>
+                  </div>
+                );
+              })}
+              {building.queue.map((job, idx) => {
+                const recipe = economy.recipes[job.recipeId];
+                if (!recipe) return null;
+                const ready = isTimerReady(job.timer, now);
+                const started = now >= job.timer.startedAt;
+                return (
+                  <div key={`${job.recipeId}-${job.timer.startedAt}-${idx}`} className="tile-timer">
+                    {getGoodsInfo(recipe.output.resource).icon} {recipe.title}:{' '}
+                    {ready ? 'готово' : started ? `осталось ${formatTimer(getRemainingMs(job.timer, now))}` : 'в очереди'}
+                    {started && (
+                      <div className="progress-bar">
+                        <div className="progress-fill" style={{ width: `${getTimerProgress(job.timer, now) * 100}%` }} />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {readyCount > 0 && (
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={() => session.dispatch({ type: 'collectProduction', buildingId: building.id })}
+                >
+                  Забрать готовое ({readyCount})
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+};
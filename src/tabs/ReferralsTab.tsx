@@ -0,0 +1,235 @@
+import React, { useEffect, useState } from 'react';
+import { adminReward, API_BASE, getReferralStats, type ReferralStats } from '../api';
+import type { TelegramContext } from '../telegram';
+import { useGameState } from '../useGameSession';
+
+interface ReferralsTabProps {
+  telegram: TelegramContext;
+  isAdmin: boolean;
+}
+
+const customUsernameKey = (userId: string) => `farm-miniapp-custom-username-v1-${userId}`;
+
+// Вкладка «Рефералы»: ссылка-приглашение, статистика приглашённых, свой ник и админская выдача наград.
+export const ReferralsTab: React.FC<ReferralsTabProps> = ({ telegram, isAdmin }) => {
+  const state = useGameState();
+  const [referralStats, setReferralStats] = useState<ReferralStats | null>(null);
+  const [customUsername, setCustomUsername] = useState<string>(() => {
+    try {
+      return window.localStorage.getItem(customUsernameKey(telegram.userId)) || '';
+    } catch {
+      return '';
+    }
+  });
+  const [editingUsername, setEditingUsername] = useState(false);
+  const [usernameInput, setUsernameInput] = useState('');
+  const [adminRewardUserId, setAdminRewardUserId] = useState('');
+  const [adminRewardAmount, setAdminRewardAmount] = useState('');
+  const [adminRewardResource, setAdminRewardResource] = useState<'gems' | 'coins'>('gems');
+  const [adminRewardStatus, setAdminRewardStatus] = useState<string | null>(null);
+
+  const referralLink = `https://t.me/Youdic_Bot?start=ref_${telegram.userId}`;
+
+  useEffect(() => {
+    if (!telegram.isTelegram || !API_BASE || !telegram.userId) return;
+    getReferralStats(telegram.userId).then(setReferralStats).catch(() => {});
+  }, [telegram.isTelegram, telegram.userId]);
+
+  const handleCopyReferral = async () => {
+    try {
+      await navigator.clipboard.writeText(referralLink);
+      // В проде можно показать toast, здесь просто тихо копируем.
+    } catch {
+      // ignore
+    }
+  };
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">Реферальная программа</div>
+        <div className="section-caption">
+          Делись ссылкой и получай гемы за друзей.
+        </div>
+      </div>
+      {referralStats !== null && (
+        <div style={{ fontSize: 12, color: 'var(--app-text-soft)', marginBottom: 8, display: 'flex', gap: 12 }}>
+          <span>Приглашено: <strong>{referralStats.referredCount}</strong></span>
+          <span>Награда: <strong>{referralStats.rewardsGems} 💎</strong></span>
+        </div>
+      )}
+      <div style={{ fontSize: 12, color: 'var(--app-hint)', marginBottom: 8, display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+        <span>Твой юзернейм:</span>
+        {editingUsername ? (
+          <>
+            <input
+              type="text"
+              value={usernameInput}
+              onChange={(e) => setUsernameInput(e.target.value)}
+              placeholder="Введи юзернейм"
+              style={{
+                flex: 1,
+                minWidth: 120,
+                padding: '6px 10px',
+                borderRadius: 8,
+                border: '1px solid rgba(148,163,184,0.5)',
+                background: 'var(--app-card)',
+                color: 'var(--app-text-soft)',
+                fontSize: 12
+              }}
+              autoFocus
+            />
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => {
+                const v = usernameInput.trim();
+                try {
+                  if (v) window.localStorage.setItem(customUsernameKey(telegram.userId), v);
+                  else window.localStorage.removeItem(customUsernameKey(telegram.userId));
+                } catch {}
+                setCustomUsername(v);
+                setEditingUsername(false);
+              }}
+              style={{ fontSize: 12, padding: '6px 12px' }}
+            >
+              OK
+            </button>
+          </>
+        ) : (
+          <>
+            <strong style={{ color: 'var(--app-text-soft)' }}>
+              {customUsername ? `@${customUsername.replace(/^@/, '')}` : (telegram.username ? `@${telegram.username}` : '—')}
+            </strong>
+            <button
+              type="button"
+              onClick={() => {
+                setUsernameInput(customUsername || telegram.username || '');
+                setEditingUsername(true);
+              }}
+              title="Изменить юзернейм"
+              style={{
+                width: 28,
+                height: 28,
+                borderRadius: '50%',
+                border: '1px solid rgba(148,163,184,0.5)',
+                background: 'rgba(30,41,59,0.8)',
+                color: '#94a3b8',
+                fontSize: 14,
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                cursor: 'pointer',
+                padding: 0
+              }}
+            >
+              ✏️
+            </button>
+          </>
+        )}
+      </div>
+      {state.referrerId && (
+        <div style={{ fontSize: 12, color: 'var(--app-hint)', marginBottom: 8 }}>
+          Вас пригласил: <strong style={{ color: 'var(--app-text-soft)' }}>{state.referrerUsername ? `@${state.referrerUsername}` : 'пользователь'}</strong>
+        </div>
+      )}
+      {isAdmin && (
+        <div style={{ marginTop: 12, padding: 8, borderRadius: 8, border: '1px dashed rgba(148,163,184,0.6)', background: 'rgba(15,23,42,0.8)' }}>
+          <div style={{ fontSize: 11, color: '#f97316', marginBottom: 4 }}>Админ: разовая награда игроку</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            <input
+              type="text"
+              placeholder="ID игрока (userId)"
+              value={adminRewardUserId}
+              onChange={(e) => setAdminRewardUserId(e.target.value)}
+              style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid rgba(148,163,184,0.6)', fontSize: 12, background: 'var(--app-card)', color: 'var(--app-text-soft)' }}
+            />
+            <div style={{ display: 'flex', gap: 6 }}>
+              <input
+                type="number"
+                min={1}
+                placeholder="Количество"
+                value={adminRewardAmount}
+                onChange={(e) => setAdminRewardAmount(e.target.value)}
+                style={{ flex: 1, padding: '6px 8px', borderRadius: 6, border: '1px solid rgba(148,163,184,0.6)', fontSize: 12, background: 'var(--app-card)', color: 'var(--app-text-soft)' }}
+              />
+              <select
+                value={adminRewardResource}
+                onChange={(e) => setAdminRewardResource(e.target.value as 'gems' | 'coins')}
+                style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid rgba(148,163,184,0.6)', fontSize: 12, background: 'var(--app-card)', color: 'var(--app-text-soft)' }}
+              >
+                <option value="gems">💎 Гемы</option>
+                <option value="coins">🪙 Монеты</option>
+              </select>
+            </div>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              style={{ fontSize: 12, padding: '6px 10px' }}
+              onClick={async () => {
+                const amt = Math.floor(Number(adminRewardAmount || '0'));
+                if (!adminRewardUserId.trim() || !amt || amt <= 0) {
+                  setAdminRewardStatus('Укажи ID игрока и положительное число.');
+                  return;
+                }
+                setAdminRewardStatus('Отправляю награду…');
+                const res = await adminReward(telegram.userId, adminRewardUserId.trim(), adminRewardResource, amt);
+                if (res?.ok) {
+                  setAdminRewardStatus('Награда отправлена.');
+                } else {
+                  setAdminRewardStatus('Ошибка при отправке награды.');
+                }
+              }}
+            >
+              Начислить {adminRewardAmount || '?'} {adminRewardResource === 'gems' ? '💎' : '🪙'}
+            </button>
+            {adminRewardStatus && (
+              <div style={{ fontSize: 10, color: 'var(--app-hint)' }}>{adminRewardStatus}</div>
+            )}
+          </div>
+        </div>
+      )}
+      <div
+        style={{
+          fontSize: 11,
+          background: 'var(--app-card)',
+          borderRadius: 12,
+          padding: 8,
+          border: '1px solid rgba(148,163,184,0.4)',
+          wordBreak: 'break-all'
+        }}
+      >
+        <div style={{ marginBottom: 4 }}>Твоя реферальная ссылка:</div>
+        <div style={{ marginBottom: 6 }}>
+          {referralLink}
+        </div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={handleCopyReferral}
+            style={{ flex: 1, minWidth: 120 }}
+          >
+            Скопировать ссылку
+          </button>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            onClick={() => {
+              const text = encodeURIComponent('Заходи в мою томатную ферму и получи бонус:');
+              const url = encodeURIComponent(referralLink);
+              const shareUrl = `https://t.me/share/url?url=${url}&text=${text}`;
+              window.open(shareUrl, '_blank');
+            }}
+            style={{ flex: 1, minWidth: 120 }}
+          >
+            Отправить другу
+          </button>
+        </div>
+      </div>
+      <div style={{ fontSize: 11, color: 'var(--app-hint)', marginTop: 10 }}>
+        За первых трёх друзей ты получаешь по 10 💎, а когда пригласишь 5 — дополнительные 25 💎.
+      </div>
+    </>
+  );
+};
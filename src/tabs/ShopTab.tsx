@@ -0,0 +1,473 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  API_BASE,
+  confirmPaid,
+  createCustomInvoice,
+  createInvoice,
+  GEM_PACKAGES,
+  getAuthHeaders,
+  getGemPackages,
+  type CreateInvoiceResponse,
+  type GemPackage
+} from '../api';
+import { getEconomy } from '../economy';
+import { BOT_LINK, getTelegramWebApp, type TelegramContext } from '../telegram';
+import { useGameSession, useGameState } from '../useGameSession';
+
+interface ShopTabProps {
+  telegram: TelegramContext;
+  isAdmin: boolean;
+}
+
+/** Что оплачивали: пакет или своя сумма гемов — по этому сервер подтверждает платёж */
+type PaymentTarget = { packageId: string } | { gems: number };
+
+function isIOS(): boolean {
+  try {
+    if (typeof window === 'undefined') return false;
+    const tg = (window as any).Telegram?.WebApp;
+    if (tg?.platform === 'ios') return true;
+    return typeof navigator !== 'undefined' && /iPhone|iPad|iPod/i.test(navigator.userAgent || '');
+  } catch {
+    return false;
+  }
+}
+
+const isPaid = (s: unknown) =>
+  s === 'paid' || s === 'completed' || (typeof s === 'object' && s !== null && (s as { status?: string }).status === 'paid');
+
+// Вкладка «Магазин»: гемы за Telegram Stars, перк автосбора и админская диагностика.
+export const ShopTab: React.FC<ShopTabProps> = ({ telegram, isAdmin }) => {
+  const session = useGameSession();
+  const state = useGameState();
+  const economy = getEconomy();
+  const [gemPackages, setGemPackages] = useState<GemPackage[]>(() => GEM_PACKAGES);
+  const [buyingPackage, setBuyingPackage] = useState<string | null>(null);
+  const [customGems, setCustomGems] = useState<string>('');
+  const [customBuying, setCustomBuying] = useState<boolean>(false);
+  /** Последняя попытка покупки — для кнопки «Я оплатил», если callback openInvoice не сработал */
+  const [pendingPaymentConfirm, setPendingPaymentConfirm] = useState<PaymentTarget | null>(null);
+
+  // Подгружаем пакеты гемов с бэкенда; при ошибке остаётся дефолтный список (GEM_PACKAGES).
+  useEffect(() => {
+    getGemPackages().then((list) => list.length > 0 && setGemPackages(list)).catch(() => {});
+  }, []);
+
+  // На вкладке «Магазин» сразу и периодически подтягиваем баланс (💎 Гемы), чтобы после оплаты в боте
+  // или в mini-app счётчик обновился. refresh сначала отправляет локальные действия.
+  useEffect(() => {
+    if (!API_BASE) return;
+    session.refresh();
+    const id = setInterval(() => session.refresh(), 5000);
+    return () => clearInterval(id);
+  }, [session]);
+
+  const schedulePaymentRefreshes = useCallback(() => {
+    session.refresh();
+    [1000, 2500, 5000, 10000, 20000].forEach((ms) => setTimeout(() => session.refresh(), ms));
+  }, [session]);
+
+  // Критично для прогресса: после оплаты гемы приходят ТОЛЬКО с сервера. Подтверждаем платёж (на случай,
+  // если webhook не дошёл) и перечитываем состояние — UI и игровая логика (слоты, апгрейды) пересчитываются.
+  const confirmAndRefresh = (target: PaymentTarget) => {
+    setPendingPaymentConfirm(target);
+    const refetchBalanceFromServer = () => {
+      session.refresh();
+      setTimeout(() => session.refresh(), 400);
+      schedulePaymentRefreshes();
+    };
+    const retryConfirm = () =>
+      setTimeout(
+        () =>
+          confirmPaid(session.userId, target).then((r) => {
+            if (r?.ok) setPendingPaymentConfirm(null);
+            refetchBalanceFromServer();
+          }),
+        1500
+      );
+    confirmPaid(session.userId, target)
+      .then((r) => {
+        if (!r?.ok) return retryConfirm();
+        setPendingPaymentConfirm(null);
+        refetchBalanceFromServer();
+      })
+      .catch(retryConfirm);
+  };
+
+  const openInvoice = (invoiceLink: string, target: PaymentTarget, iosHint: string) => {
+    const tg = getTelegramWebApp();
+    if (tg?.openInvoice) {
+      try {
+        tg.openInvoice(invoiceLink, (status: string | { status?: string }) => {
+          const statusStr = typeof status === 'object' && status !== null && 'status' in status ? (status as { status: string }).status : String(status);
+          if (isPaid(statusStr) || isPaid(status)) confirmAndRefresh(target);
+        });
+      } catch (_) {}
+    } else if (tg?.openTelegramLink) {
+      try {
+        tg.openTelegramLink(invoiceLink);
+        if (tg.platform === 'ios' && tg.showAlert) tg.showAlert(iosHint);
+      } catch (_) {}
+    } else {
+      window.open(invoiceLink, '_blank');
+    }
+    schedulePaymentRefreshes();
+  };
+
+  const purchase = async (
+    target: PaymentTarget,
+    create: () => Promise<CreateInvoiceResponse | null>,
+    iosHint: string
+  ) => {
+    if (!API_BASE) {
+      alert('Покупка доступна только в Telegram');
+      return;
+    }
+    try {
+      const result = await create();
+      if (!result?.invoiceLink) {
+        alert((result as { error?: string } | null)?.error || 'Не удалось создать платёж');
+        return;
+      }
+      openInvoice(result.invoiceLink, target, iosHint);
+    } catch (_) {
+      alert('Ошибка при создании платежа');
+    }
+  };
+
+  const handleBuyGems = async (pkg: GemPackage) => {
+    setBuyingPackage(pkg.id);
+    await purchase(
+      { packageId: pkg.id },
+      () => createInvoice(session.userId, pkg.id),
+      'Если окно оплаты не открылось — нажмите внизу «Открыть бота для оплаты», затем в чате введите /donate и выберите пакет.'
+    );
+    setBuyingPackage(null);
+  };
+
+  const parsedCustomGems = Number(customGems.replace(/\D/g, ''));
+  const customStars = parsedCustomGems > 0 ? Math.max(1, Math.ceil(parsedCustomGems / 5)) : 0;
+
+  const handleBuyCustomGems = async () => {
+    if (!parsedCustomGems || parsedCustomGems <= 0) return;
+    setCustomBuying(true);
+    await purchase(
+      { gems: parsedCustomGems },
+      () => createCustomInvoice(session.userId, parsedCustomGems),
+      'Если окно оплаты не открылось — нажмите внизу «Открыть бота для оплаты», затем в чате введите /donate и выберите свою сумму.'
+    );
+    setCustomBuying(false);
+  };
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">Магазин</div>
+        <div className="section-caption">
+          Покупай гемы за Telegram Stars ⭐
+        </div>
+      </div>
+      {telegram.isTelegram && !API_BASE && (
+        <div style={{ padding: 10, marginBottom: 10, borderRadius: 10, background: 'rgba(239,68,68,0.2)', border: '1px solid rgba(239,68,68,0.5)', fontSize: 12 }}>
+          ⚠️ Сервер не подключён — гемы не сохранятся. В Cloudflare Pages → Settings → Environment variables добавь <strong>VITE_API_URL</strong> = <code style={{ fontSize: 11 }}>https://open-farm-1.onrender.com</code>, затем пересобери и задеплой проект.
+        </div>
+      )}
+      {pendingPaymentConfirm && API_BASE && (
+        <div style={{ padding: 10, marginBottom: 10, borderRadius: 10, background: 'rgba(34,197,94,0.15)', border: '1px solid rgba(34,197,94,0.5)', fontSize: 12 }}>
+          <div style={{ marginBottom: 6 }}>Оплатили, но гемы не пришли? Нажмите — начислим по последней покупке:</div>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={async () => {
+              const payload = pendingPaymentConfirm;
+              if (!payload) return;
+              const r = await confirmPaid(session.userId, payload);
+              if (r?.ok) {
+                setPendingPaymentConfirm(null);
+                session.refresh();
+                setTimeout(() => session.refresh(), 400);
+                if (typeof (window as any).Telegram?.WebApp?.showAlert === 'function') {
+                  (window as any).Telegram.WebApp.showAlert('Гемы начислены. Баланс обновлён.');
+                } else {
+                  alert('Гемы начислены.');
+                }
+              } else {
+                if (typeof (window as any).Telegram?.WebApp?.showAlert === 'function') {
+                  (window as any).Telegram.WebApp.showAlert('Не удалось начислить. Попробуйте ещё раз.');
+                } else {
+                  alert('Не удалось начислить.');
+                }
+              }
+            }}
+            style={{ fontSize: 12 }}
+          >
+            Я оплатил — начислить гемы
+          </button>
+        </div>
+      )}
+      {isAdmin && API_BASE && (
+        <>
+          <div style={{ marginBottom: 8 }}>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={async () => {
+                const show = (msg: string) => {
+                  if (typeof (window as any).Telegram?.WebApp?.showAlert === 'function') {
+                    (window as any).Telegram.WebApp.showAlert(msg);
+                  } else {
+                    alert(msg);
+                  }
+                };
+                const uiGems = state.resources.gems ?? 0;
+                let msg = `ОПЛАТА\nuserId: ${session.userId}\nAPI: ${API_BASE}\nUI gems: ${uiGems}\n`;
+                try {
+                  const healthRes = await fetch(`${API_BASE}/health`, { credentials: 'include' });
+                  msg += `health: ${healthRes.status}\n`;
+                  if (!healthRes.ok) {
+                    show(msg);
+                    return;
+                  }
+                  const meRes = await fetch(
+                    `${API_BASE}/api/me?userId=${encodeURIComponent(session.userId)}`,
+                    { headers: getAuthHeaders(), credentials: 'include' }
+                  );
+                  msg += `api/me: ${meRes.status}\n`;
+                  if (!meRes.ok) {
+                    show(msg);
+                    return;
+                  }
+                  const data = await meRes.json();
+                  const serverGems = data?.resources?.gems ?? 0;
+                  msg += `server gems: ${serverGems}\n`;
+                  show(msg);
+                } catch (e: any) {
+                  msg += `error: ${e?.message || String(e)}`;
+                  show(msg);
+                }
+              }}
+              style={{ fontSize: 12, marginBottom: 4 }}
+            >
+              Диагностика оплаты (admin)
+            </button>
+          </div>
+          <div style={{ marginBottom: 8 }}>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={async () => {
+                const show = (msg: string) => {
+                  if (typeof (window as any).Telegram?.WebApp?.showAlert === 'function') {
+                    (window as any).Telegram.WebApp.showAlert(msg);
+                  } else {
+                    alert(msg);
+                  }
+                };
+                const r = state.resources;
+                let msg = `ПРОГРЕСС (монеты/урожай)\nuserId: ${session.userId}\nAPI: ${API_BASE}\n`;
+                msg += `UI coins: ${r.coins ?? 0}\n`;
+                msg += `UI tomato: ${r.tomato ?? 0}, cucumber: ${r.cucumber ?? 0}, corn: ${r.corn ?? 0}, watermelon: ${r.watermelon ?? 0}, apple: ${r.apple ?? 0}\n`;
+                msg += `UI milk: ${r.milk ?? 0}, egg: ${r.egg ?? 0}, cheese: ${r.cheese ?? 0}, meat: ${r.meat ?? 0}, feathers: ${r.feathers ?? 0}, wool: ${r.wool ?? 0}\n`;
+                try {
+                  // 1) Отправляем неподтверждённые действия на сервер.
+                  msg += `pending actions: ${session.outbox.entries().length}\n`;
+                  await session.flush();
+                  msg += `pending after sync: ${session.outbox.entries().length}\n`;
+                  // 2) Сразу читаем состояние с сервера.
+                  const meRes = await fetch(
+                    `${API_BASE}/api/me?userId=${encodeURIComponent(session.userId)}`,
+                    { headers: getAuthHeaders(), credentials: 'include' }
+                  );
+                  msg += `api/me: ${meRes.status}\n`;
+                  if (!meRes.ok) {
+                    show(msg);
+                    return;
+                  }
+                  const data = await meRes.json();
+                  const sr = data?.resources || {};
+                  msg += `SERVER coins: ${sr.coins ?? 0}\n`;
+                  const fields = [
+                    'tomato',
+                    'cucumber',
+                    'corn',
+                    'watermelon',
+                    'apple',
+                    'milk',
+                    'egg',
+                    'cheese',
+                    'meat',
+                    'feathers',
+                    'wool'
+                  ] as const;
+                  let anyMismatch = false;
+                  for (const key of fields) {
+                    const uiVal = (r as any)[key] ?? 0;
+                    const srvVal = (sr as any)[key] ?? 0;
+                    if (uiVal !== srvVal) {
+                      anyMismatch = true;
+                      msg += `MISMATCH ${key}: ui=${uiVal}, server=${srvVal}\n`;
+                    }
+                  }
+                  const cropsEqual =
+                    JSON.stringify(state.crops) === JSON.stringify(data?.crops ?? []);
+                  const animalsEqual =
+                    JSON.stringify(state.animals) === JSON.stringify(data?.animals ?? []);
+                  msg += `crops equal: ${cropsEqual}\n`;
+                  msg += `animals equal: ${animalsEqual}\n`;
+                  if (anyMismatch || !cropsEqual || !animalsEqual) {
+                    msg += '⚠️ Серверные данные отличаются от UI — проблема сохранения прогресса.\n';
+                  } else {
+                    msg += 'Ресурсы и слоты совпадают — проблема, скорее всего, в другом месте UI.\n';
+                  }
+                  show(msg);
+                } catch (e: any) {
+                  msg += `error: ${e?.message || String(e)}`;
+                  show(msg);
+                }
+              }}
+              style={{ fontSize: 12 }}
+            >
+              Диагностика прогресса (admin)
+            </button>
+          </div>
+        </>
+      )}
+      <div
+        style={{
+          padding: 10,
+          marginBottom: 8,
+          borderRadius: 14,
+          background: 'radial-gradient(circle at top, #1e3a8a 0, #020617 60%)',
+          border: '1px solid rgba(59,130,246,0.6)',
+          fontSize: 12
+        }}
+      >
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>🧺 Автосбор</div>
+        <div style={{ marginBottom: 6, color: 'var(--app-hint)' }}>
+          Пока тебя нет, созревший урожай и продукция собираются сами.
+        </div>
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={() => session.dispatch({ type: 'buyAutoCollectPerk' })}
+          disabled={!!state.perks?.autoCollect || state.resources.gems < economy.perks.autoCollect.gems}
+        >
+          {state.perks?.autoCollect ? 'Уже куплен' : `Купить за ${economy.perks.autoCollect.gems} 💎`}
+        </button>
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+        {gemPackages.map((pkg) => (
+          <div
+            key={pkg.id}
+            style={{
+              padding: 10,
+              borderRadius: 14,
+              background: 'radial-gradient(circle at top, #166534 0, #020617 60%)',
+              border: '1px solid rgba(34,197,94,0.6)',
+              fontSize: 12
+            }}
+          >
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>{pkg.title}</div>
+            <div style={{ marginBottom: 6, color: 'var(--app-hint)' }}>
+              +{pkg.gems} 💎 за {pkg.stars} ⭐
+            </div>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => handleBuyGems(pkg)}
+              disabled={buyingPackage === pkg.id}
+            >
+              {buyingPackage === pkg.id ? 'Загрузка...' : `Купить за ${pkg.stars} ⭐`}
+            </button>
+          </div>
+        ))}
+        
+        {/* Кастомная покупка по курсу 1 ⭐ = 5 💎 */}
+        <div
+          style={{
+            padding: 10,
+            borderRadius: 14,
+            background: 'radial-gradient(circle at top, #0f172a 0, #020617 60%)',
+            border: '1px solid rgba(148,163,184,0.5)',
+            fontSize: 12,
+            color: 'var(--app-text-soft)'
+          }}
+        >
+          <div style={{ marginBottom: 6, fontWeight: 600 }}>Своя сумма</div>
+          <div style={{ marginBottom: 6, fontSize: 11, color: 'var(--app-hint)' }}>
+            Введи, сколько гемов хочешь купить. Курс: 1 ⭐ = 5 💎.
+          </div>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 6 }}>
+            <input
+              type="number"
+              min={1}
+              value={customGems}
+              onChange={(e) => setCustomGems(e.target.value)}
+              placeholder="Например, 80"
+              style={{
+                flex: 1,
+                borderRadius: 999,
+                border: '1px solid rgba(148,163,184,0.6)',
+                background: 'var(--app-card)',
+                color: 'var(--app-text-soft)',
+                padding: '6px 10px',
+                fontSize: 12
+              }}
+            />
+            <div style={{ alignSelf: 'center', fontSize: 11, color: 'var(--app-hint)' }}>
+              ≈ {customStars || 0} ⭐
+            </div>
+          </div>
+          <button
+            type="button"
+            className="btn btn-primary"
+            disabled={!parsedCustomGems || customBuying}
+            onClick={handleBuyCustomGems}
+          >
+            {customBuying
+              ? 'Загрузка...'
+              : parsedCustomGems
+                ? `Купить ${parsedCustomGems} 💎 за ${customStars} ⭐`
+                : 'Введи количество гемов'}
+          </button>
+        </div>
+
+        {/* На iPhone при открытии из меню оплата часто не открывается — даём переход в бота */}
+        {isIOS() && (
+          <div
+            style={{
+              padding: 10,
+              borderRadius: 14,
+              background: 'rgba(59,130,246,0.15)',
+              border: '1px solid rgba(59,130,246,0.5)',
+              fontSize: 12,
+              color: 'var(--app-text-soft)'
+            }}
+          >
+            <div style={{ marginBottom: 8 }}>
+              На iPhone оплата из мини-приложения может не открываться. Нажмите кнопку ниже — откроется чат с ботом (мини-приложение закроется). В чате введите <strong>/donate</strong> и выберите пакет или «Своя сумма».
+            </div>
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => {
+                const tg = (window as any).Telegram?.WebApp;
+                if (tg?.openTelegramLink) {
+                  tg.openTelegramLink(BOT_LINK);
+                  setTimeout(() => tg?.close?.(), 400);
+                } else if (tg?.openLink) {
+                  tg.openLink(BOT_LINK);
+                  setTimeout(() => tg?.close?.(), 400);
+                } else {
+                  window.location.href = BOT_LINK;
+                }
+              }}
+            >
+              Открыть бота для оплаты
+            </button>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
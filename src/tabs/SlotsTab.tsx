@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import type { AnimalSlot, CropSlot, CropType, GameState } from '../gameTypes';
+import type { FarmAction } from '../actions';
+import {
+  canBuyExpansion,
+  canUnlockAnimal,
+  collectAll,
+  feedAll,
+  getBoostCost,
+  getExpansionCost,
+  getPlotUnlockRule,
+  getUnlockedCrops,
+  getUnlockGemCost,
+  getUnlockLevel,
+  getUpgradeCost,
+  harvestAll,
+  isSlotMaxLevel,
+  isTimerReady,
+  plantAll,
+  type BulkResult
+} from '../gameLogic';
+import { getEconomy } from '../economy';
+import { FarmTile } from '../components/FarmTile';
+import { SeedPicker } from '../components/SeedPicker';
+import { useGameSession, useGameState } from '../useGameSession';
+import { useMainButton } from '../useTelegramUi';
+
+interface SlotsTabProps {
+  kind: 'crop' | 'animal';
+}
+
+type BulkAction = Extract<FarmAction, { type: 'plantAll' | 'harvestAll' | 'feedAll' | 'collectAll' }>;
+
+function runBulkReducer(state: GameState, action: BulkAction, now: number): BulkResult {
+  switch (action.type) {
+    case 'plantAll':
+      return plantAll(state, action.crop, now);
+    case 'harvestAll':
+      return harvestAll(state, now);
+    case 'feedAll':
+      return feedAll(state, now);
+    case 'collectAll':
+      return collectAll(state, now);
+  }
+}
+
+function formatBulkResult(type: BulkAction['type'], { done, skipped }: BulkResult): string {
+  const parts = [
+    {
+      plantAll: `Посажено грядок: ${done.length}`,
+      harvestAll: `Собран урожай с грядок: ${done.length}`,
+      feedAll: `Накормлено животных: ${done.length}`,
+      collectAll: `Собрана продукция с животных: ${done.length}`
+    }[type]
+  ];
+  const noCoins = skipped.filter((s) => s.reason === 'coins').length;
+  const noFeed = skipped.filter((s) => s.reason === 'feed').length;
+  if (noCoins > 0) parts.push(`на ${noCoins} не хватило монет`);
+  if (noFeed > 0) parts.push(`на ${noFeed} не хватило корма`);
+  return parts.join(' · ');
+}
+
+// Вкладки «Грядки» и «Животные»: сетка слотов одного вида.
+export const SlotsTab: React.FC<SlotsTabProps> = ({ kind }) => {
+  const session = useGameSession();
+  const state = useGameState();
+  const economy = getEconomy();
+  const isCrop = kind === 'crop';
+  const slots: (CropSlot | AnimalSlot)[] = (isCrop ? state.crops : state.animals) ?? [];
+  const openSlots = slots.filter((slot) => slot.unlocked !== false);
+  const idleCount = openSlots.filter((slot) => !slot.timer).length;
+  const readyCount = openSlots.filter((slot) => isTimerReady(slot.timer)).length;
+  // Какую культуру сажать на пустые грядки
+  const [selectedCrop, setSelectedCrop] = useState<CropType>(() => getUnlockedCrops(state)[0] ?? 'tomato');
+  const startAction: BulkAction = isCrop ? { type: 'plantAll', crop: selectedCrop } : { type: 'feedAll' };
+  const collectAction: BulkAction = { type: isCrop ? 'harvestAll' : 'collectAll' };
+  const plotRule = getPlotUnlockRule(state);
+  const expansionCost = getExpansionCost(state, kind);
+  const expansionLevel = economy.expansion[kind].minLevel;
+  // Новый загон — для вида, который уже есть на ферме
+  const penTypes = [...new Set(state.animals.filter((a) => a.unlocked !== false).map((a) => a.type))];
+  const [bulkNotice, setBulkNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!bulkNotice) return;
+    const id = setTimeout(() => setBulkNotice(null), 4000);
+    return () => clearTimeout(id);
+  }, [bulkNotice]);
+
+  // Отчёт считаем тем же редьюсером, что применит сессия; если не вышло ничего, dispatch ничего не изменит
+  const runBulk = (action: BulkAction) => {
+    const result = runBulkReducer(session.getState(), action, Date.now());
+    if (result.done.length === 0 && result.skipped.length === 0) return;
+    session.dispatch(action);
+    setBulkNotice(formatBulkResult(action.type, result));
+  };
+
+  useMainButton(readyCount > 0 ? { text: `Собрать всё (${readyCount})`, onClick: () => runBulk(collectAction) } : null);
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">{isCrop ? 'Грядки' : 'Животные'}</div>
+        <div className="section-caption">
+          {isCrop ? 'Выбери семена, посади и собирай урожай' : 'Трать корм, чтобы они приносили молоко и яйца'}
+        </div>
+      </div>
+      {isCrop && <SeedPicker selected={selectedCrop} onSelect={setSelectedCrop} />}
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => runBulk(startAction)}
+          disabled={idleCount === 0}
+          style={{ marginTop: 0, fontSize: 11 }}
+        >
+          {isCrop ? `Посадить всё ${economy.crops[selectedCrop].icon}` : 'Покормить всех'}
+          {idleCount > 0 ? ` (${idleCount})` : ''}
+        </button>
+        <button
+          type="button"
+          className="btn btn-primary"
+          onClick={() => runBulk(collectAction)}
+          disabled={readyCount === 0}
+          style={{ marginTop: 0, fontSize: 11 }}
+        >
+          Собрать всё{readyCount > 0 ? ` (${readyCount})` : ''}
+        </button>
+      </div>
+      {bulkNotice && <div style={{ fontSize: 11, color: 'var(--app-hint)', marginBottom: 8 }}>{bulkNotice}</div>}
+      <div className="grid">
+        {slots.map((slot) => {
+          const config = isCrop ? economy.crops[(slot as CropSlot).type] : economy.animals[(slot as AnimalSlot).type];
+          if (slot.unlocked === false) {
+            // Грядки покупаются по очереди (цена — по числу купленных), животные — по своему виду
+            const canUnlock = isCrop
+              ? !!plotRule && state.level >= plotRule.level
+              : canUnlockAnimal((slot as AnimalSlot).type, state);
+            const unlockCost = isCrop ? (plotRule?.gems ?? 0) : getUnlockGemCost(kind, slot.type);
+            const unlockLevel = isCrop ? (plotRule?.level ?? 0) : getUnlockLevel(kind, slot.type);
+            return (
+              <div
+                key={slot.id}
+                className={`tile ${isCrop ? 'vegetable' : 'animal'}`}
+                style={{ opacity: 0.7, display: 'flex', flexDirection: 'column', justifyContent: 'space-between' }}
+              >
+                <div className="tile-header">
+                  <span className="tile-name">{isCrop ? 'Грядка' : config.title}</span>
+                  <span className="tile-level">🔒</span>
+                </div>
+                <div className="tile-main">
+                  <span className="tile-icon">{isCrop ? '🌱' : '🐾'}</span>
+                  <div className="tile-yield">
+                    <div style={{ fontSize: 10, color: 'var(--app-hint)' }}>
+                      {canUnlock
+                        ? 'Доступно для открытия'
+                        : isCrop && !plotRule
+                          ? 'Больше грядок не купить'
+                          : `Откроется на ур. ${unlockLevel} фермы`}
+                    </div>
+                    <button
+                      type="button"
+                      className="btn btn-secondary"
+                      onClick={() => session.dispatch({ type: isCrop ? 'unlockCrop' : 'unlockAnimal', slotId: slot.id })}
+                      disabled={!canUnlock || state.resources.gems < unlockCost}
+                      style={{ marginTop: 4, fontSize: 10 }}
+                    >
+                      {isCrop ? 'Купить' : 'Открыть'} за {unlockCost} 💎
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          }
+          const boostCost = getBoostCost(slot.timer);
+          const upgradeCost = getUpgradeCost(slot.level);
+          const gemLevel = slot.gemUpgradeLevel ?? 0;
+          const { maxGemLevel, gemUpgradePrice } = config;
+          return (
+            <FarmTile
+              key={slot.id}
+              // Пустая грядка показывает выбранные семена — их и посадим
+              slot={isCrop && !slot.timer ? { ...(slot as CropSlot), type: selectedCrop } : slot}
+              kind={kind}
+              onAction={() => {
+                if (!slot.timer) {
+                  session.dispatch(
+                    isCrop ? { type: 'plantCrop', slotId: slot.id, crop: selectedCrop } : { type: 'feedAnimal', slotId: slot.id }
+                  );
+                } else if (isTimerReady(slot.timer)) {
+                  session.dispatch({ type: isCrop ? 'harvestCrop' : 'collectAnimalProduct', slotId: slot.id });
+                }
+              }}
+              onBoost={() => session.dispatch({ type: isCrop ? 'boostCrop' : 'boostAnimal', slotId: slot.id })}
+              onUpgrade={() => session.dispatch({ type: isCrop ? 'upgradeCrop' : 'upgradeAnimal', slotId: slot.id })}
+              onGemUpgrade={() => session.dispatch({ type: isCrop ? 'gemUpgradeCrop' : 'gemUpgradeAnimal', slotId: slot.id })}
+              canBoost={state.resources.gems >= boostCost && boostCost > 0}
+              canUpgrade={state.resources.coins >= upgradeCost && !isSlotMaxLevel(slot)}
+              canGemUpgrade={state.resources.gems >= gemUpgradePrice && gemLevel < maxGemLevel}
+              boostCost={boostCost}
+              upgradeCost={upgradeCost}
+              gemUpgradeLevel={gemLevel}
+              maxGemUpgradeLevel={maxGemLevel}
+              gemUpgradePrice={gemUpgradePrice}
+            />
+          );
+        })}
+        {expansionCost && (
+          <div
+            className={`tile ${isCrop ? 'vegetable' : 'animal'}`}
+            style={{ borderStyle: 'dashed', display: 'flex', flexDirection: 'column', justifyContent: 'space-between' }}
+          >
+            <div className="tile-header">
+              <span className="tile-name">{isCrop ? 'Новая грядка' : 'Новый загон'}</span>
+              <span className="tile-level">＋</span>
+            </div>
+            <div style={{ fontSize: 10, color: 'var(--app-hint)' }}>
+              {state.level < expansionLevel
+                ? `Расширение — с ур. ${expansionLevel} фермы`
+                : `${expansionCost.coins.toLocaleString('ru-RU')} 🪙${expansionCost.gems > 0 ? ` + ${expansionCost.gems} 💎` : ''} · каждый следующий дороже`}
+            </div>
+            {isCrop ? (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => session.dispatch({ type: 'buyPlot' })}
+                disabled={!canBuyExpansion(state, 'crop')}
+                style={{ fontSize: 10 }}
+              >
+                Купить грядку
+              </button>
+            ) : (
+              <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+                {penTypes.map((type) => (
+                  <button
+                    key={type}
+                    type="button"
+                    className="btn btn-secondary"
+                    onClick={() => session.dispatch({ type: 'buyPen', animal: type })}
+                    disabled={!canBuyExpansion(state, 'animal')}
+                    title={`Загон: ${economy.animals[type].title}`}
+                    style={{ flex: 1, width: 'auto', fontSize: 12 }}
+                  >
+                    {economy.animals[type].icon}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
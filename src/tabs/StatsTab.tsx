@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { API_BASE, getGlobalStats, type GlobalStats } from '../api';
+import type { Reminders } from '../useReminders';
+import { AchievementsSection } from '../components/AchievementsSection';
+import { DailyQuestsSection } from '../components/DailyQuestsSection';
+import { FarmBackupSection } from '../components/FarmBackupSection';
+import { ReminderSettingsSection } from '../components/ReminderSettingsSection';
+import { WeeklyGoalsSection } from '../components/WeeklyGoalsSection';
+
+interface StatsTabProps {
+  reminders: Reminders;
+  isAdmin: boolean;
+  isTelegram: boolean;
+}
+
+// Вкладка «📊»: задания дня, недельные цели, достижения, напоминания, резервная копия фермы и (для админа) общая статистика игры.
+export const StatsTab: React.FC<StatsTabProps> = ({ reminders, isAdmin, isTelegram }) => {
+  const [globalStats, setGlobalStats] = useState<GlobalStats | null>(null);
+
+  useEffect(() => {
+    if (isTelegram && API_BASE) getGlobalStats().then(setGlobalStats).catch(() => {});
+  }, [isTelegram]);
+
+  return (
+    <>
+      <div className="section-title-row">
+        <div className="section-title">📊 Статистика</div>
+        <div className="section-caption">
+          Задания, цели и достижения
+        </div>
+      </div>
+
+      <DailyQuestsSection />
+
+      <WeeklyGoalsSection />
+
+      <AchievementsSection />
+
+      <ReminderSettingsSection reminders={reminders} />
+
+      <FarmBackupSection isAdmin={isAdmin} />
+
+      {/* Глобальная статистика только в дев‑режиме (?admin=1) */}
+      {isAdmin && (
+        <>
+          {globalStats ? (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+              <div
+                style={{
+                  padding: 12,
+                  borderRadius: 14,
+                  background: 'var(--app-card)',
+                  border: '1px solid rgba(148,163,184,0.4)',
+                  fontSize: 13
+                }}
+              >
+                <div style={{ marginBottom: 6, fontWeight: 600 }}>Общая статистика игры</div>
+                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+                  <div>
+                    <div style={{ color: 'var(--app-hint)', fontSize: 11 }}>Всего игроков</div>
+                    <div style={{ fontSize: 20, fontWeight: 600 }}>{globalStats.totalUsers}</div>
+                  </div>
+                  <div>
+                    <div style={{ color: 'var(--app-hint)', fontSize: 11 }}>Активны сегодня</div>
+                    <div style={{ fontSize: 20, fontWeight: 600 }}>{globalStats.activeToday}</div>
+                  </div>
+                  <div>
+                    <div style={{ color: 'var(--app-hint)', fontSize: 11 }}>Рефералов</div>
+                    <div style={{ fontSize: 20, fontWeight: 600 }}>{globalStats.totalReferrals}</div>
+                  </div>
+                  <div>
+                    <div style={{ color: 'var(--app-hint)', fontSize: 11 }}>Всего гемов 💎</div>
+                    <div style={{ fontSize: 20, fontWeight: 600 }}>
+                      {globalStats.totalGems.toLocaleString('ru-RU')}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div style={{ fontSize: 10, color: '#6b7280', textAlign: 'center' }}>
+                Обновлено: {new Date(globalStats.updatedAt).toLocaleString('ru-RU')}
+              </div>
+            </div>
+          ) : (
+            <div style={{ fontSize: 12, color: 'var(--app-hint)' }}>Загрузка общей статистики...</div>
+          )}
+        </>
+      )}
+    </>
+  );
+};
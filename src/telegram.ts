@@ -1,6 +1,9 @@
 // Очень лёгкая обёртка над Telegram WebApp API, чтобы
 // код работал и в браузере, и внутри Telegram (iOS, Android, desktop).
 
+/** Бот игры: сюда уводим вне Telegram и для оплаты на iPhone */
+export const BOT_LINK = 'https://t.me/Youdic_Bot';
+
 interface TelegramWebAppUser {
   id: number;
   username?: string;
@@ -12,16 +15,97 @@ export interface InvoiceClosedEvent {
   status?: string;
 }
 
+/** Облачное хранилище бота (Bot API 6.9+): ключ-значение, привязанное к аккаунту игрока. */
+export interface TelegramCloudStorage {
+  setItem(key: string, value: string, callback?: (error: string | null, stored?: boolean) => void): void;
+  /** Отсутствующий ключ возвращается пустой строкой */
+  getItem(key: string, callback: (error: string | null, value?: string) => void): void;
+  getItems(keys: string[], callback: (error: string | null, values?: Record<string, string>) => void): void;
+  removeItems(keys: string[], callback?: (error: string | null, removed?: boolean) => void): void;
+}
+
+/** Нижняя кнопка мини-аппа (MainButton). Обработчик — через onClick/offClick, как у событий. */
+export interface TelegramMainButton {
+  text: string;
+  isVisible: boolean;
+  isActive: boolean;
+  setText: (text: string) => void;
+  show: () => void;
+  hide: () => void;
+  enable: () => void;
+  disable: () => void;
+  onClick: (callback: () => void) => void;
+  offClick: (callback: () => void) => void;
+}
+
+/** Кнопка «Назад» в шапке Telegram (Bot API 6.1+). */
+export interface TelegramBackButton {
+  isVisible: boolean;
+  show: () => void;
+  hide: () => void;
+  onClick: (callback: () => void) => void;
+  offClick: (callback: () => void) => void;
+}
+
+/** Вибрация (Bot API 6.1+). */
+export interface TelegramHapticFeedback {
+  impactOccurred: (style: 'light' | 'medium' | 'heavy' | 'rigid' | 'soft') => void;
+  notificationOccurred: (type: 'error' | 'success' | 'warning') => void;
+  selectionChanged: () => void;
+}
+
+/** Цвета темы клиента в формате #rrggbb; набор полей зависит от версии Telegram. */
+export interface TelegramThemeParams {
+  bg_color?: string;
+  text_color?: string;
+  hint_color?: string;
+  link_color?: string;
+  button_color?: string;
+  button_text_color?: string;
+  secondary_bg_color?: string;
+  section_bg_color?: string;
+  destructive_text_color?: string;
+}
+
+/** Отступы в px: safeAreaInset — вырезы устройства, contentSafeAreaInset — элементы Telegram поверх (Bot API 8.0+). */
+export interface TelegramSafeAreaInset {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
 export interface TelegramWebApp {
+  /** Подписанная строка initData — её проверяет сервер (initDataUnsafe клиенту можно подделать) */
+  initData?: string;
   initDataUnsafe?: {
     user?: TelegramWebAppUser;
     start_param?: string;
   };
   ready: () => void;
+  version?: string;
+  isVersionAtLeast?: (version: string) => boolean;
+  CloudStorage?: TelegramCloudStorage;
   openInvoice?: (url: string, callback?: (status: string) => void) => void;
   openTelegramLink?: (url: string) => void;
+  openLink?: (url: string) => void;
+  close?: () => void;
   platform?: string;
   showAlert?: (message: string) => void;
+  MainButton?: TelegramMainButton;
+  BackButton?: TelegramBackButton;
+  HapticFeedback?: TelegramHapticFeedback;
+  themeParams?: TelegramThemeParams;
+  colorScheme?: 'light' | 'dark';
+  /** Развернуть мини-апп на всю высоту (по умолчанию открывается половиной экрана) */
+  expand?: () => void;
+  isExpanded?: boolean;
+  viewportHeight?: number;
+  /** Высота без учёта анимации сворачивания — по ней верстаем, чтобы интерфейс не прыгал */
+  viewportStableHeight?: number;
+  safeAreaInset?: TelegramSafeAreaInset;
+  contentSafeAreaInset?: TelegramSafeAreaInset;
+  /** invoiceClosed, themeChanged, viewportChanged, safeAreaChanged, contentSafeAreaChanged и др. */
   onEvent?: (eventType: string, callback: (event: InvoiceClosedEvent) => void) => void;
   offEvent?: (eventType: string, callback?: (event: InvoiceClosedEvent) => void) => void;
 }
@@ -64,7 +148,8 @@ export function getTelegramContext(): TelegramContext {
         startParam: tg.initDataUnsafe.start_param
       };
     }
-    // Fallback: uid из query (?uid=...) — кнопки бота с /start, /mini_app
+    // Fallback для разработки: uid из query (?uid=...). В проде игрок определяется только по подписанному initData.
+    if (!import.meta.env.DEV) return { userId: 'DEMO_USER', isTelegram: false };
     try {
       const params = new URLSearchParams(window.location.search);
       const uid = params.get('uid');
@@ -80,6 +165,15 @@ export function getTelegramContext(): TelegramContext {
   }
 }
 
+/** Подписанный initData для заголовка X-Telegram-Init-Data ('' вне Telegram). */
+export function getTelegramInitData(): string {
+  try {
+    return window.Telegram?.WebApp?.initData ?? '';
+  } catch {
+    return '';
+  }
+}
+
 export function notifyTelegramReady() {
   const tg = window.Telegram?.WebApp;
   if (tg && typeof tg.ready === 'function') {
@@ -0,0 +1,185 @@
+import {
+  getTelegramWebApp,
+  type TelegramBackButton,
+  type TelegramMainButton,
+  type TelegramThemeParams,
+  type TelegramWebApp
+} from './telegram';
+
+// Нативный интерфейс Telegram: MainButton, BackButton, вибрация, тема и размеры окна.
+// Вне Telegram (npm run dev в браузере) подставляется заглушка: кнопки рисуются поверх страницы,
+// тема берётся из prefers-color-scheme, вибрация — navigator.vibrate. Компоненты не проверяют, где запущены.
+
+/** Светлая тема заглушки; тёмная — палитра по умолчанию из styles.css */
+const BROWSER_LIGHT_THEME: TelegramThemeParams = {
+  bg_color: '#ffffff',
+  text_color: '#0f172a',
+  hint_color: '#64748b',
+  link_color: '#2563eb',
+  button_color: '#16a34a',
+  button_text_color: '#ffffff',
+  secondary_bg_color: '#f1f5f9',
+  section_bg_color: '#ffffff',
+  destructive_text_color: '#dc2626'
+};
+
+function createBrowserButton(className: string, initialText: string): TelegramMainButton {
+  const handlers = new Set<() => void>();
+  let element: HTMLButtonElement | null = null;
+  const render = () => {
+    if (!element) {
+      if (!button.isVisible) return;
+      element = document.createElement('button');
+      element.type = 'button';
+      element.className = className;
+      element.addEventListener('click', () => {
+        if (button.isActive) handlers.forEach((handler) => handler());
+      });
+      document.body.appendChild(element);
+    }
+    element.textContent = button.text;
+    element.hidden = !button.isVisible;
+    element.disabled = !button.isActive;
+  };
+  const button: TelegramMainButton = {
+    text: initialText,
+    isVisible: false,
+    isActive: true,
+    setText(text) {
+      button.text = text;
+      render();
+    },
+    show() {
+      button.isVisible = true;
+      render();
+    },
+    hide() {
+      button.isVisible = false;
+      render();
+    },
+    enable() {
+      button.isActive = true;
+      render();
+    },
+    disable() {
+      button.isActive = false;
+      render();
+    },
+    onClick: (callback) => handlers.add(callback),
+    offClick: (callback) => handlers.delete(callback)
+  };
+  return button;
+}
+
+function createBrowserWebApp(): TelegramWebApp {
+  const lightQuery = window.matchMedia?.('(prefers-color-scheme: light)');
+  const backButton: TelegramBackButton = createBrowserButton('tg-stub-back-button', '← Назад');
+  const app: TelegramWebApp = {
+    ready: () => {},
+    version: 'browser',
+    MainButton: createBrowserButton('tg-stub-main-button', ''),
+    BackButton: backButton,
+    HapticFeedback: {
+      impactOccurred: (style) => navigator.vibrate?.(style === 'heavy' || style === 'rigid' ? 30 : 10),
+      notificationOccurred: (type) => navigator.vibrate?.(type === 'success' ? [10, 40, 10] : [30, 40, 30]),
+      selectionChanged: () => navigator.vibrate?.(5)
+    },
+    get colorScheme() {
+      return lightQuery?.matches ? 'light' : 'dark';
+    },
+    get themeParams() {
+      return lightQuery?.matches ? BROWSER_LIGHT_THEME : {};
+    },
+    expand: () => {},
+    isExpanded: true,
+    get viewportHeight() {
+      return window.innerHeight;
+    },
+    get viewportStableHeight() {
+      return window.innerHeight;
+    },
+    onEvent(eventType, callback) {
+      if (eventType === 'themeChanged') lightQuery?.addEventListener('change', callback as () => void);
+      if (eventType === 'viewportChanged') window.addEventListener('resize', callback as () => void);
+    },
+    offEvent(eventType, callback) {
+      if (eventType === 'themeChanged') lightQuery?.removeEventListener('change', callback as () => void);
+      if (eventType === 'viewportChanged') window.removeEventListener('resize', callback as () => void);
+    }
+  };
+  return app;
+}
+
+let ui: TelegramWebApp | null = null;
+
+/** WebApp для кнопок, вибрации и темы: настоящий в Telegram, заглушка в браузере. */
+export function getTelegramUi(): TelegramWebApp {
+  if (!ui) {
+    // Скрипт Telegram в обычном браузере тоже создаёт WebApp, но с platform 'unknown' и невидимыми кнопками
+    const tg = getTelegramWebApp();
+    ui = tg && tg.platform !== 'unknown' ? tg : createBrowserWebApp();
+  }
+  return ui;
+}
+
+/** Какие цвета темы Telegram пробрасываем в CSS; styles.css задаёт для них тёмные значения по умолчанию. */
+const THEME_VARS: (keyof TelegramThemeParams)[] = [
+  'bg_color',
+  'text_color',
+  'hint_color',
+  'link_color',
+  'button_color',
+  'button_text_color',
+  'secondary_bg_color',
+  'section_bg_color',
+  'destructive_text_color'
+];
+
+/** Цвета темы → переменные --tg-theme-* на <html>, схема → data-color-scheme. */
+export function applyTelegramTheme(tg: TelegramWebApp) {
+  const root = document.documentElement;
+  root.dataset.colorScheme = tg.colorScheme ?? 'dark';
+  for (const param of THEME_VARS) {
+    const value = tg.themeParams?.[param];
+    const name = `--tg-theme-${param.replace(/_/g, '-')}`;
+    if (value) root.style.setProperty(name, value);
+    else root.style.removeProperty(name);
+  }
+}
+
+/** Высота окна и отступы Telegram → --app-viewport-height и --app-safe-*; без данных CSS берёт 100dvh и env(). */
+export function applyTelegramViewport(tg: TelegramWebApp) {
+  const root = document.documentElement;
+  const height = tg.viewportStableHeight || tg.viewportHeight;
+  if (height) root.style.setProperty('--app-viewport-height', `${height}px`);
+  for (const side of ['top', 'bottom', 'left', 'right'] as const) {
+    const inset = (tg.safeAreaInset?.[side] ?? 0) + (tg.contentSafeAreaInset?.[side] ?? 0);
+    if (tg.safeAreaInset || tg.contentSafeAreaInset) root.style.setProperty(`--app-safe-${side}`, `${inset}px`);
+  }
+}
+
+const VIEWPORT_EVENTS = ['viewportChanged', 'safeAreaChanged', 'contentSafeAreaChanged'];
+
+/** Развернуть мини-апп, применить тему и размеры и следить за их сменой. Возвращает отписку. */
+export function initTelegramUi(): () => void {
+  const tg = getTelegramUi();
+  tg.expand?.();
+  applyTelegramTheme(tg);
+  applyTelegramViewport(tg);
+  const onTheme = () => applyTelegramTheme(tg);
+  const onViewport = () => applyTelegramViewport(tg);
+  tg.onEvent?.('themeChanged', onTheme);
+  VIEWPORT_EVENTS.forEach((event) => tg.onEvent?.(event, onViewport));
+  return () => {
+    tg.offEvent?.('themeChanged', onTheme);
+    VIEWPORT_EVENTS.forEach((event) => tg.offEvent?.(event, onViewport));
+  };
+}
+
+export function hapticImpact(style: 'light' | 'medium' | 'heavy' = 'light') {
+  getTelegramUi().HapticFeedback?.impactOccurred(style);
+}
+
+export function hapticNotify(type: 'error' | 'success' | 'warning') {
+  getTelegramUi().HapticFeedback?.notificationOccurred(type);
+}
@@ -0,0 +1,72 @@
+import { createContext, useContext, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { GameState } from './gameTypes';
+import type { GameSession, SessionEvent } from './session';
+import type { OutboxStatus } from './outbox';
+
+// React-обёртка над игровой сессией (src/session.ts): компоненты получают её из контекста
+// и перерисовываются при смене состояния.
+
+export const GameSessionContext = createContext<GameSession | null>(null);
+
+export function useGameSession(): GameSession {
+  const session = useContext(GameSessionContext);
+  if (!session) throw new Error('useGameSession: нет GameSessionContext.Provider');
+  return session;
+}
+
+export function useGameState(): GameState {
+  const session = useGameSession();
+  return useSyncExternalStore(session.subscribe, session.getState);
+}
+
+/** Подписка на события сессии; handler может меняться между рендерами без переподписки. */
+export function useSessionEvent(handler: (event: SessionEvent) => void) {
+  const session = useGameSession();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(() => session.onEvent((event) => handlerRef.current(event)), [session]);
+}
+
+/** Загружена ли ферма: до этого показываем экран загрузки, а действия не принимаются. */
+export function useSessionReady(): boolean {
+  const session = useGameSession();
+  return useSyncExternalStore(session.subscribe, session.isReady);
+}
+
+export function useOutboxStatus(): OutboxStatus {
+  const { outbox } = useGameSession();
+  const [status, setStatus] = useState<OutboxStatus>(() => outbox.getStatus());
+  useEffect(() => outbox.subscribe(setStatus), [outbox]);
+  return status;
+}
+
+/** Текущее время, обновляется раз в intervalMs — для таймеров грядок и очередей цеха. */
+export function useNow(intervalMs = 1000): number {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = window.setInterval(() => setNow(Date.now()), intervalMs);
+    return () => window.clearInterval(id);
+  }, [intervalMs]);
+  return now;
+}
+
+/**
+ * Сообщить ферме часовой пояс устройства: по нему сервер и клиент сбрасывают недельные цели и задания дня.
+ * Один раз за сессию, как только ферма загружена: иначе два устройства в разных поясах перезаписывали бы
+ * его друг другу после каждой синхронизации.
+ */
+export function useUtcOffsetSync() {
+  const session = useGameSession();
+  useEffect(() => {
+    const minutes = -new Date().getTimezoneOffset();
+    let sent = false;
+    const sync = () => {
+      if (sent || !session.isReady()) return;
+      sent = true;
+      if (session.getState().utcOffsetMinutes !== minutes) session.dispatch({ type: 'setUtcOffset', minutes });
+    };
+    const unsubscribe = session.subscribe(sync);
+    sync();
+    return unsubscribe;
+  }, [session]);
+}
@@ -0,0 +1,71 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { API_BASE, getReminderSettings, saveReminderSettings, scheduleReminders } from './api';
+import { collectReminderItems, type ReminderSettings } from './reminders';
+import { useGameSession } from './useGameSession';
+
+/** Пауза после изменения фермы перед отправкой списка: серия посадок уходит одним запросом */
+const REPORT_DELAY_MS = 2000;
+
+export interface Reminders {
+  /** null — настройки ещё не загружены или игра без backend (напоминать некому) */
+  settings: ReminderSettings | null;
+  update: (patch: Partial<Omit<ReminderSettings, 'utcOffsetMinutes'>>) => Promise<boolean>;
+}
+
+/** Напоминания от бота: настройки игрока и отправка предстоящих событий серверу, пока они включены. */
+export function useReminders(): Reminders {
+  const session = useGameSession();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const lastReported = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!API_BASE) return;
+    let cancelled = false;
+    getReminderSettings(session.userId).then((res) => {
+      if (!cancelled && res) setSettings(res.settings);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  const enabled = settings?.enabled ?? false;
+  useEffect(() => {
+    if (!enabled) {
+      lastReported.current = null;
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const report = () => {
+      timer = null;
+      const items = collectReminderItems(session.getState());
+      const signature = JSON.stringify(items);
+      if (signature === lastReported.current) return;
+      scheduleReminders(session.userId, items).then((ok) => {
+        if (ok) lastReported.current = signature;
+      });
+    };
+    const scheduleReport = () => {
+      if (!timer) timer = setTimeout(report, REPORT_DELAY_MS);
+    };
+    scheduleReport();
+    const unsubscribe = session.subscribe(scheduleReport);
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [session, enabled]);
+
+  const update = useCallback(
+    async (patch: Partial<Omit<ReminderSettings, 'utcOffsetMinutes'>>) => {
+      // Тихие часы считаются по местному времени — часовой пояс берём с устройства при каждом сохранении
+      const res = await saveReminderSettings(session.userId, { ...patch, utcOffsetMinutes: -new Date().getTimezoneOffset() });
+      if (!res) return false;
+      setSettings(res.settings);
+      return true;
+    },
+    [session]
+  );
+
+  return { settings, update };
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react';
+import type { FarmActionType } from './actions';
+import { getTelegramUi, hapticImpact, hapticNotify, initTelegramUi } from './telegramUi';
+import { useSessionEvent } from './useGameSession';
+
+// React-обёртки над нативными кнопками Telegram (src/telegramUi.ts).
+
+export interface MainButtonOptions {
+  text: string;
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Показать MainButton, пока смонтирован компонент; null — спрятать. Кнопка одна на всё приложение,
+ * поэтому её держит только видимая вкладка. onClick может меняться между рендерами без переподписки.
+ */
+export function useMainButton(options: MainButtonOptions | null) {
+  const onClickRef = useRef(options?.onClick);
+  onClickRef.current = options?.onClick;
+  const text = options?.text ?? null;
+  const disabled = options?.disabled ?? false;
+
+  useEffect(() => {
+    const button = getTelegramUi().MainButton;
+    if (!button || text === null) return;
+    const handler = () => onClickRef.current?.();
+    button.setText(text);
+    if (disabled) button.disable();
+    else button.enable();
+    button.show();
+    button.onClick(handler);
+    return () => {
+      button.offClick(handler);
+      button.hide();
+    };
+  }, [text, disabled]);
+}
+
+// BackButton тоже одна: обработчики складываются в стек, срабатывает последний (открытое окно поверх вкладки).
+const backHandlers: { current: () => void }[] = [];
+
+function onBackClick() {
+  backHandlers[backHandlers.length - 1]?.current();
+}
+
+function syncBackButton() {
+  const button = getTelegramUi().BackButton;
+  if (!button) return;
+  button.offClick(onBackClick);
+  if (backHandlers.length === 0) {
+    button.hide();
+    return;
+  }
+  button.onClick(onBackClick);
+  button.show();
+}
+
+/** Показать BackButton с обработчиком, пока смонтирован компонент; null — не нужна. */
+export function useBackButton(onBack: (() => void) | null) {
+  const handlerRef = useRef(onBack ?? (() => {}));
+  handlerRef.current = onBack ?? (() => {});
+  const enabled = onBack !== null;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const entry = { current: () => handlerRef.current() };
+    backHandlers.push(entry);
+    syncBackButton();
+    return () => {
+      backHandlers.splice(backHandlers.indexOf(entry), 1);
+      syncBackButton();
+    };
+  }, [enabled]);
+}
+
+const HARVEST_ACTIONS: FarmActionType[] = ['harvestCrop', 'collectAnimalProduct', 'harvestAll', 'collectAll', 'collectProduction'];
+const PURCHASE_ACTIONS: FarmActionType[] = [
+  'buyFeed',
+  'buySeeds',
+  'buyPlot',
+  'buyPen',
+  'unlockSeeds',
+  'unlockCrop',
+  'unlockAnimal',
+  'unlockBuilding',
+  'upgradeCrop',
+  'upgradeAnimal',
+  'gemUpgradeCrop',
+  'gemUpgradeAnimal',
+  'exchangeGemsToCoins',
+  'exchangeCoinsToGems',
+  'buyAutoCollectPerk'
+];
+
+/** Тема, размеры окна и вибрация на сбор и покупки — один раз на сессию (App). */
+export function useTelegramUi() {
+  useEffect(() => initTelegramUi(), []);
+
+  useSessionEvent((event) => {
+    if (event.type === 'levelUp') hapticNotify('success');
+    if (event.type !== 'action') return;
+    if (HARVEST_ACTIONS.includes(event.action.type)) hapticImpact('light');
+    else if (PURCHASE_ACTIONS.includes(event.action.type)) hapticNotify('success');
+  });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createInitialState } from './initialState';
+import { applyFarmAction } from './actions';
+import { WEEK } from './weeklyGoals';
+
+// Часовой пояс игрока и границы недели и дня заданий
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('setUtcOffset', () => {
+  it('первый раз пояс принимается сразу, повторно — только через неделю', () => {
+    const first = applyFarmAction(createInitialState(), { type: 'setUtcOffset', minutes: 180 }, NOW);
+    expect(first.utcOffsetMinutes).toBe(180);
+    expect(applyFarmAction(first, { type: 'setUtcOffset', minutes: -300 }, NOW + DAY)).toBe(first);
+    expect(applyFarmAction(first, { type: 'setUtcOffset', minutes: -300 }, NOW + WEEK).utcOffsetMinutes).toBe(-300);
+  });
+
+  it('сдвиги пояса перед сбросом не дают новых целей недели и заданий дня', () => {
+    const base = { ...createInitialState(), utcOffsetMinutes: 180, utcOffsetChangedAt: NOW };
+    const start = applyFarmAction(base, { type: 'feedAnimal', slotId: 'a1' }, NOW);
+    const week = start.weeklyGoals!;
+    const day = start.dailyQuests!;
+    const beforeDayEnd = day.dayStart + DAY - 10 * MINUTE;
+
+    let state = start;
+    for (const minutes of [-840, 840, -600, 600]) {
+      state = applyFarmAction(state, { type: 'setUtcOffset', minutes }, beforeDayEnd);
+      state = applyFarmAction(state, { type: 'plantCrop', slotId: 'c1' }, beforeDayEnd);
+    }
+    expect(state.utcOffsetMinutes).toBe(180);
+    expect(state.weeklyGoals?.weekStart).toBe(week.weekStart);
+    expect(state.dailyQuests?.dayStart).toBe(day.dayStart);
+
+    const nextDay = applyFarmAction(state, { type: 'plantCrop', slotId: 'c2' }, day.dayStart + DAY + MINUTE);
+    expect(nextDay.dailyQuests?.dayStart).toBe(day.dayStart + DAY);
+  });
+});
@@ -0,0 +1,129 @@
+import type { GameState, StatKey, WeeklyGoal, WeeklyGoalsState } from './gameTypes';
+import { getEconomy } from './economy';
+import { hashString, seededRandom } from './market';
+import type { StatIncrements } from './stats';
+
+// Недельные цели: раз в неделю (день сброса — по времени игрока) из пула выбираются несколько целей,
+// прогресс копится в состоянии фермы из счётчиков каждого применённого действия. Считает тот же applyFarmAction,
+// что и на сервере, поэтому прогресс хранится вместе с фермой и переживает переустановку.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+export const WEEK = 7 * DAY;
+
+/** Допустимый часовой пояс: от UTC−14 до UTC+14 */
+const MAX_UTC_OFFSET_MINUTES = 14 * 60;
+
+/** Начало недели, в которую попадает now: полночь последнего дня сброса по времени игрока (UTC, мс). */
+export function getWeekStart(now: number, utcOffsetMinutes: number): number {
+  const { resetWeekday } = getEconomy().weeklyGoals;
+  const localDay = Math.floor((now + utcOffsetMinutes * MINUTE) / DAY);
+  // 1 января 1970 — четверг
+  const weekday = (localDay + 4) % 7;
+  const startDay = localDay - ((weekday - resetWeekday + 7) % 7);
+  return startDay * DAY - utcOffsetMinutes * MINUTE;
+}
+
+/** Ключ недели — местная дата её начала ('2026-10-19'): одинаковые цели у игроков в разных поясах. */
+function getWeekKey(weekStart: number, utcOffsetMinutes: number): string {
+  return new Date(weekStart + utcOffsetMinutes * MINUTE).toISOString().slice(0, 10);
+}
+
+/** Цели новой недели: пул по уровню фермы, перемешанный по ключу недели; сначала по цели каждого вида. */
+function pickGoals(level: number, weekKey: string): WeeklyGoal[] {
+  const { goalsPerWeek, pool } = getEconomy().weeklyGoals;
+  const shuffled = pool
+    .filter((goal) => level >= goal.minLevel)
+    .map((goal) => ({ goal, order: seededRandom(hashString(`${weekKey}:${goal.id}`)) }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ goal }) => goal);
+  const picked = shuffled.filter((goal, i) => shuffled.findIndex((g) => g.kind === goal.kind) === i).slice(0, goalsPerWeek);
+  for (const goal of shuffled) {
+    if (picked.length >= goalsPerWeek) break;
+    if (!picked.includes(goal)) picked.push(goal);
+  }
+  return picked.map(({ id, kind, subject, target }) => ({ id, kind, ...(subject ? { subject } : {}), target, progress: 0 }));
+}
+
+function createWeeklyGoals(level: number, utcOffsetMinutes: number, now: number): WeeklyGoalsState {
+  const weekStart = getWeekStart(now, utcOffsetMinutes);
+  return { weekStart, goals: pickGoals(level, getWeekKey(weekStart, utcOffsetMinutes)), claimedTiers: [] };
+}
+
+function isCurrentWeek(weekly: WeeklyGoalsState | undefined, now: number): weekly is WeeklyGoalsState {
+  return !!weekly && now >= weekly.weekStart && now < weekly.weekStart + WEEK;
+}
+
+/** Цели на текущую неделю: сохранённые или, если неделя сменилась, новые с нулевым прогрессом. */
+export function getWeeklyGoals(state: GameState, now: number): WeeklyGoalsState {
+  return isCurrentWeek(state.weeklyGoals, now)
+    ? state.weeklyGoals
+    : createWeeklyGoals(state.level, state.utcOffsetMinutes ?? 0, now);
+}
+
+export function getCompletedGoals(weekly: WeeklyGoalsState): number {
+  return weekly.goals.filter((goal) => goal.progress >= goal.target).length;
+}
+
+export function canClaimWeeklyTier(weekly: WeeklyGoalsState, tier: number): boolean {
+  const reward = getEconomy().weeklyGoals.tiers[tier];
+  return !!reward && !weekly.claimedTiers.includes(tier) && getCompletedGoals(weekly) >= reward.goals;
+}
+
+// Какой счётчик из src/stats.ts двигает цель
+function getGoalStat(goal: WeeklyGoal): StatKey {
+  switch (goal.kind) {
+    case 'harvest':
+      return goal.subject ? (`harvest:${goal.subject}` as StatKey) : 'harvests';
+    case 'feed':
+      return goal.subject ? (`feed:${goal.subject}` as StatKey) : 'feeds';
+    case 'earn':
+      return 'coinsEarned';
+    case 'craft':
+      return 'crafts';
+  }
+}
+
+/**
+ * Учесть счётчики применённого действия в недельных целях (вызывает applyFarmAction). Неделя, начатая этим действием,
+ * выбирается по уровню до него — так игрок получает те же цели, что видел на экране.
+ */
+export function trackWeeklyGoals(before: GameState, after: GameState, increments: StatIncrements, now: number): GameState {
+  const week = isCurrentWeek(after.weeklyGoals, now)
+    ? after.weeklyGoals
+    : createWeeklyGoals(before.level, after.utcOffsetMinutes ?? 0, now);
+  let changed = week !== after.weeklyGoals;
+  const goals = week.goals.map((goal) => {
+    const increment = increments[getGoalStat(goal)] ?? 0;
+    if (increment <= 0 || goal.progress >= goal.target) return goal;
+    changed = true;
+    return { ...goal, progress: Math.min(goal.target, goal.progress + increment) };
+  });
+  return changed ? { ...after, weeklyGoals: { ...week, goals } } : after;
+}
+
+/** Забрать награду за выполненные цели недели; tier — номер ступени в economy.weeklyGoals.tiers. */
+export function claimWeeklyReward(state: GameState, tier: number, now: number): GameState {
+  const weekly = getWeeklyGoals(state, now);
+  if (!canClaimWeeklyTier(weekly, tier)) return state;
+  const { coins, gems } = getEconomy().weeklyGoals.tiers[tier];
+  return {
+    ...state,
+    resources: { ...state.resources, coins: state.resources.coins + coins, gems: state.resources.gems + gems },
+    weeklyGoals: { ...weekly, claimedTiers: [...weekly.claimedTiers, tier] }
+  };
+}
+
+/**
+ * Запомнить часовой пояс игрока: действует со следующего сброса, текущая неделя не сдвигается.
+ * Первый раз — сразу, дальше не чаще раза в неделю: сдвигом пояса перед сбросом можно было бы
+ * закончить день или неделю за минуты и получать новые задания и цели с наградами.
+ */
+export function setUtcOffset(state: GameState, minutes: number, now: number): GameState {
+  if (!Number.isInteger(minutes) || Math.abs(minutes) > MAX_UTC_OFFSET_MINUTES) return state;
+  if (state.utcOffsetMinutes === minutes) return state;
+  if (state.utcOffsetMinutes !== undefined && state.utcOffsetChangedAt !== undefined && now < state.utcOffsetChangedAt + WEEK) {
+    return state;
+  }
+  return { ...state, utcOffsetMinutes: minutes, utcOffsetChangedAt: now };
+}